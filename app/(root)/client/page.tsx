@@ -4,17 +4,24 @@ import { redirect } from "next/navigation";
 
 import { Collection } from "@/components/Collection";
 import Header from "@/components/Header";
+import { getAlbums } from "@/lib/actions/album.actions";
 import { getUserImages } from "@/lib/actions/image.actions";
+import { getPopularTags } from "@/lib/actions/tag.actions";
 import { getUserById } from "@/lib/actions/user.actions";
 
 const PageClient = async ({ searchParams }: SearchParamProps) => {
   const page = Number(searchParams?.page) || 1;
+  const cursor = searchParams?.cursor as string | undefined;
+  const albumId = searchParams?.album as string | undefined;
+  const tag = searchParams?.tag as string | undefined;
   const { userId } = auth();
 
   if (!userId) redirect("/sign-in");
 
   const user = await getUserById(userId);
-  const images = await getUserImages({ page, userId: user._id });
+  const images = await getUserImages({ cursor, albumId, tag, userId: user._id, withTotal: true });
+  const albums = await getAlbums();
+  const tags = await getPopularTags("mine");
 
   return (
     <>
@@ -45,7 +52,7 @@ const PageClient = async ({ searchParams }: SearchParamProps) => {
               height={50}
               className="size-9 md:size-12"
             />
-            <h2 className="h2-bold text-dark-600">{images?.data.length}</h2>
+            <h2 className="h2-bold text-dark-600">{images?.total ?? 0}</h2>
           </div>
         </div>
       </section>
@@ -55,6 +62,11 @@ const PageClient = async ({ searchParams }: SearchParamProps) => {
           images={images?.data}
           totalPages={images?.totalPages}
           page={page}
+          nextCursor={images?.nextCursor}
+          prevCursor={images?.prevCursor}
+          albums={albums ?? []}
+          albumId={albumId}
+          tags={tags?.map((popular) => popular.tag)}
         />
       </section>
     </>
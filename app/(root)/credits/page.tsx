@@ -5,16 +5,23 @@ import { redirect } from "next/navigation";
 
 import Header from "@/components/Header";
 import { Button } from "@/components/ui/button";
-import { plans } from "@/constants";
+import { planEntitlements, plans, subscriptionPlans, transformationTypes } from "@/constants";
+import { formatBytes } from "@/lib/utils";
 import { getUserById } from "@/lib/actions/user.actions";
+import { getActiveSubscription } from "@/lib/actions/subscription.actions";
 import Checkout from "@/components/Checkout";
+import { ChangePlanButton, ManageSubscription } from "@/components/ManageSubscription";
 
-const Credits = async () => {
+const Credits = async ({ searchParams }: SearchParamProps) => {
   const { userId } = auth();
 
   if (!userId) redirect("/sign-in");
 
   const user = await getUserById(userId);
+  // The locked transformation type the user was redirected from, see `middleware.ts`
+  const upgradeType = transformationTypes[searchParams?.upgrade as TransformationTypeKey];
+  const subscription = await getActiveSubscription(user._id);
+  const activePlan = subscriptionPlans.find((plan) => plan._id === subscription?.planId);
 
   return (
     <>
@@ -23,6 +30,22 @@ const Credits = async () => {
         subtitle="Choose a credit package that suits your needs!"
       />
 
+      {upgradeType && (
+        <p className="p-16-semibold mt-6 text-purple-500">
+          {upgradeType.title} requires the {upgradeType.plan} plan. Pick a package or monthly plan below to unlock it.
+        </p>
+      )}
+
+      {subscription && activePlan && (
+        <section className="mt-10">
+          <ManageSubscription
+            planName={activePlan.name}
+            currentPeriodEnd={subscription.currentPeriodEnd}
+            cancelAtPeriodEnd={subscription.cancelAtPeriodEnd}
+          />
+        </section>
+      )}
+
       <section>
         <ul className="credits-list">
           {plans.map((plan) => (
@@ -36,25 +59,7 @@ const Credits = async () => {
                 <p className="p-16-regular">{plan.credits} Credits</p>
               </div>
 
-              {/* Inclusions */}
-              <ul className="flex flex-col gap-5 py-9">
-                {plan.inclusions.map((inclusion) => (
-                  <li
-                    key={plan.name + inclusion.label}
-                    className="flex items-center gap-4"
-                  >
-                    <Image
-                      src={`/assets/icons/${
-                        inclusion.isIncluded ? "check.svg" : "cross.svg"
-                      }`}
-                      alt="check"
-                      width={24}
-                      height={24}
-                    />
-                    <p className="p-16-regular">{inclusion.label}</p>
-                  </li>
-                ))}
-              </ul>
+              <PlanInclusions plan={plan} />
 
               {plan.name === "Free" ? (
                 <Button variant="outline" className="credits-btn">
@@ -62,12 +67,43 @@ const Credits = async () => {
                 </Button>
               ) : (
                 <SignedIn>
-                  <Checkout
-                    plan={plan.name}
-                    amount={plan.price}
-                    credits={plan.credits}
-                    buyerId={user._id}
-                  />
+                  <Checkout planId={plan._id} />
+                </SignedIn>
+              )}
+            </li>
+          ))}
+        </ul>
+      </section>
+
+      <section className="mt-10">
+        <Header
+          title="Monthly Plans"
+          subtitle="Get a fresh batch of credits every month, unused credits roll over up to a cap"
+        />
+
+        <ul className="credits-list">
+          {subscriptionPlans.map((plan) => (
+            <li key={plan.name} className="credits-item">
+              <div className="flex-center flex-col gap-3">
+                <Image src={plan.icon} alt="check" width={50} height={50} />
+                <p className="p-20-semibold mt-2 text-purple-500">
+                  {plan.name}
+                </p>
+                <p className="h1-semibold text-dark-600">${plan.price}/mo</p>
+                <p className="p-16-regular">{plan.credits} Credits / month</p>
+              </div>
+
+              <PlanInclusions plan={plan} />
+
+              {plan._id === activePlan?._id ? (
+                <Button variant="outline" className="credits-btn">
+                  Current Plan
+                </Button>
+              ) : subscription ? (
+                <ChangePlanButton planId={plan._id} />
+              ) : (
+                <SignedIn>
+                  <Checkout planId={plan._id} mode="subscription" />
                 </SignedIn>
               )}
             </li>
@@ -78,4 +114,41 @@ const Credits = async () => {
   );
 };
 
+// What the tier of a plan grants, see `planEntitlements`
+const getEntitlementInclusions = (tier: PlanTier) => {
+  const { maxResolution, maxBatchSize, maxStorageBytes, maxAssets, apiAccess } = planEntitlements[tier];
+
+  return [
+    { label: `Images up to ${maxResolution}px`, isIncluded: true },
+    { label: `${maxBatchSize} images per batch`, isIncluded: true },
+    { label: `Store up to ${maxAssets} images, ${formatBytes(maxStorageBytes)}`, isIncluded: true },
+    { label: "API access", isIncluded: apiAccess },
+  ];
+};
+
+const PlanInclusions = ({
+  plan,
+}: {
+  plan: { name: string; tier: PlanTier; inclusions: { label: string; isIncluded: boolean }[] };
+}) => (
+  <ul className="flex flex-col gap-5 py-9">
+    {[...plan.inclusions, ...getEntitlementInclusions(plan.tier)].map((inclusion) => (
+      <li
+        key={plan.name + inclusion.label}
+        className="flex items-center gap-4"
+      >
+        <Image
+          src={`/assets/icons/${
+            inclusion.isIncluded ? "check.svg" : "cross.svg"
+          }`}
+          alt="check"
+          width={24}
+          height={24}
+        />
+        <p className="p-16-regular">{inclusion.label}</p>
+      </li>
+    ))}
+  </ul>
+);
+
 export default Credits;
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { Collection } from '@/components/Collection'
 import { navLinks } from '@/constants'
 import { getAllImages } from '@/lib/actions/image.actions'
+import { getPopularTags } from '@/lib/actions/tag.actions'
 import Image from 'next/image'
 import Link from 'next/link'
 import React from 'react'
@@ -9,9 +10,24 @@ const Home = async ({ searchParams }: SearchParamProps) => {
   /**
    * Const block
    */
-  const page = Number( searchParams?.page) || 1;
   const searchQuery = (searchParams?.query as string) || '';
-  const images = await getAllImages({ page, searchQuery });
+  const filters: ImageSearchFilters = {
+    type: searchParams?.type as string,
+    aspectRatio: searchParams?.aspectRatio as string,
+    from: searchParams?.from as string,
+    to: searchParams?.to as string,
+    tag: searchParams?.tag as string,
+    sort: searchParams?.sort as string,
+  };
+  const images = await getAllImages({ searchQuery, filters });
+  const popularTags = await getPopularTags();
+
+  // Next pages of the same search, for the infinite scroll
+  const loadMore = async (cursor: string) => {
+    "use server";
+
+    return getAllImages({ cursor, searchQuery, filters });
+  };
 
 
   return (
@@ -42,8 +58,10 @@ const Home = async ({ searchParams }: SearchParamProps) => {
       <Collection 
       hasSearch = {true}
       images={images?.data}
-      totalPages={images?.totalPage}
-      page={page}
+      page={1}
+      nextCursor={images?.nextCursor}
+      loadMore={loadMore}
+      tags={popularTags?.map(({ tag }) => tag)}
       />
     </section>
     </>
@@ -2,15 +2,38 @@ import { UserProfile } from '@clerk/nextjs';
 import { auth, currentUser } from '@clerk/nextjs/server';
 import { redirect } from 'next/navigation';
 
+import ApiKeys from '@/components/ApiKeys';
+import WebhookEndpoints from '@/components/WebhookEndpoints';
+import { getApiKeys } from '@/lib/actions/apiKey.actions';
+import { getPlanUsage } from '@/lib/actions/user.actions';
+import { formatBytes } from '@/lib/utils';
+import { getApiLimit } from '@/lib/plans';
+import { getWebhookEndpoints } from '@/lib/actions/webhook.actions';
+
 const Profile = async () => {
     const { userId } = auth();
     const isAuth = !!userId;
     const  user  = await currentUser();
     if (!isAuth) { redirect('/')};
+
+    const apiKeys = await getApiKeys();
+    const webhookEndpoints = await getWebhookEndpoints();
+    const usage = await getPlanUsage();
   return (
-    <div className='flex flex-col items-center justify-center mt-8'>
+    <div className='flex flex-col items-center justify-center mt-8 gap-10'>
         <h1 className='text-2xl'>{user?.username}</h1>
         <UserProfile />
+        {usage && (
+          <section className='w-full max-w-4xl space-y-2'>
+            <h3 className='h3-bold text-dark-600'>Storage</h3>
+            <p className='p-16-regular'>
+              {formatBytes(usage.storage.bytes)} of {formatBytes(usage.entitlements.maxStorageBytes)} and{' '}
+              {usage.storage.assets} of {usage.entitlements.maxAssets} images used on the {usage.tier} plan.
+            </p>
+          </section>
+        )}
+        <ApiKeys apiKeys={apiKeys ?? []} apiLimit={getApiLimit(usage?.planId)} />
+        <WebhookEndpoints endpoints={webhookEndpoints ?? []} />
     </div>
   );
 };
@@ -1,17 +1,31 @@
 import { auth } from "@clerk/nextjs/server";
 import Image from "next/image";
 import Link from "next/link";
+import { notFound } from "next/navigation";
 import TransformedImage from "@/components/TransformedImage";
 import { Button } from "@/components/ui/button";
-import { getImageById } from "@/lib/actions/image.actions";
+import { getImageById, getImageVersions } from "@/lib/actions/image.actions";
 import { getImageSize } from "@/lib/utils";
 import { DeleteConfirmation } from "@/components/DeleteConfirmation";
 import Header from "@/components/Header";
+import ImageSharing from "@/components/ImageSharing";
+import VersionTimeline from "@/components/VersionTimeline";
+import { getShareLinks } from "@/lib/actions/share.actions";
+import { transformationTypes } from "@/constants";
 
-const ImageDetails = async ({ params: { id } }: SearchParamProps) => {
+const ImageDetails = async ({ params: { id }, searchParams }: SearchParamProps) => {
   const { userId } = auth();
+  const shareToken = typeof searchParams?.share === "string" ? searchParams.share : undefined;
 
-  const image = await getImageById(id);
+  // Images the user may not view are reported as missing
+  const image = await getImageById(id, shareToken).catch(() => null);
+
+  if (!image) notFound();
+
+  const isAuthor = userId === image.author?.clerkId;
+  // The history is the author's: it can hold titles, prompts and originals they have since replaced
+  const versions = isAuthor ? await getImageVersions(id) : [];
+  const shareLinks = isAuthor ? await getShareLinks(id) : [];
 
   return (
     <>
@@ -25,6 +39,24 @@ const ImageDetails = async ({ params: { id } }: SearchParamProps) => {
           </p>
         </div>
 
+        {image.steps?.length > 0 && (
+          <>
+            <p className="hidden text-dark-400/50 md:block">&#x25CF;</p>
+            <div className="p-14-medium md:p-16-medium flex gap-2">
+              <p className="text-dark-600">Steps:</p>
+              <ol className="flex flex-wrap gap-2 text-purple-400">
+                {image.steps.map((step: PipelineStep, index: number) => (
+                  <li key={index}>
+                    {index + 1}. {transformationTypes[step.type]?.title ?? step.type}
+                    {step.prompt && ` (${step.prompt}${step.color ? ` to ${step.color}` : ""})`}
+                    {step.aspectRatio && ` (${step.aspectRatio})`}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </>
+        )}
+
         {image.prompt && (
           <>
             <p className="hidden text-dark-400/50 md:block">&#x25CF;</p>
@@ -54,6 +86,20 @@ const ImageDetails = async ({ params: { id } }: SearchParamProps) => {
             </div>
           </>
         )}
+
+        {image.tags?.length > 0 && (
+          <>
+            <p className="hidden text-dark-400/50 md:block">&#x25CF;</p>
+            <div className="p-14-medium md:p-16-medium flex flex-wrap gap-2">
+              <p className="text-dark-600">Tags:</p>
+              {image.tags.map((tag: string) => (
+                <Link key={tag} href={`/?tag=${tag}`} className="text-purple-400">
+                  #{tag}
+                </Link>
+              ))}
+            </div>
+          </>
+        )}
       </section>
 
       <section className="mt-10 border-t border-dark-400/15">
@@ -88,7 +134,7 @@ const ImageDetails = async ({ params: { id } }: SearchParamProps) => {
          * @param userId - The ID of the current user.
          * @param image - The image object containing details like the author's ID, the image ID, and other properties.
          */}
-          {userId === image.author.clerkId && (
+          {isAuthor && (
         
           <div className="mt-4 space-y-4">
             <Button asChild type="button" className="submit-button capitalize">
@@ -101,6 +147,21 @@ const ImageDetails = async ({ params: { id } }: SearchParamProps) => {
           </div>
         )}
       </section>
+
+      {isAuthor && (
+        <ImageSharing
+          imageId={image._id}
+          visibility={image.visibility ?? "public"}
+          shareLinks={shareLinks ?? []}
+        />
+      )}
+
+      {isAuthor && (
+        <VersionTimeline
+          image={image}
+          versions={versions ?? []}
+        />
+      )}
     </>
   );
 };
@@ -2,10 +2,12 @@ import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
 
 import Header from "@/components/Header";
+import PipelineBuilder from "@/components/PipelineBuilder";
 import TransformationForm from "@/components/TransformationForm";
-import { transformationTypes } from "@/constants";
+import { pipelineTransformation, transformationTypes } from "@/constants";
 import { getUserById } from "@/lib/actions/user.actions";
 import { getImageById } from "@/lib/actions/image.actions";
+import { getPipelinePresets } from "@/lib/actions/pipeline.actions";
 
 const Page = async ({ params: { id } }: SearchParamProps) => {
   const { userId } = auth();
@@ -15,6 +17,27 @@ const Page = async ({ params: { id } }: SearchParamProps) => {
   const user = await getUserById(userId);
   const image = await getImageById(id);
 
+  if (image.transformationType === pipelineTransformation.type) {
+    const presets = await getPipelinePresets();
+
+    return (
+      <>
+        <Header title={pipelineTransformation.title} subtitle={pipelineTransformation.subTitle} />
+
+        <section className="mt-10">
+          <PipelineBuilder
+            action="Update"
+            creditBalance={user.creditBalance}
+            planId={user.planId}
+            presets={presets ?? []}
+            data={image}
+            recentColors={user.recentColors}
+          />
+        </section>
+      </>
+    );
+  }
+
   const transformation =
     transformationTypes[image.transformationType as TransformationTypeKey];
 
@@ -25,11 +48,11 @@ const Page = async ({ params: { id } }: SearchParamProps) => {
       <section className="mt-10">
         <TransformationForm
           action="Update"
-          userId={user._id}
           type={image.transformationType as TransformationTypeKey}
           creditBalance={user.creditBalance}
           config={image.config}
           data={image}
+          recentColors={user.recentColors}
         />
       </section>
     </>
@@ -1,8 +1,12 @@
 import Header from '@/components/Header';
+import { Button } from '@/components/ui/button';
 import TransformationForm from '@/components/TransformationForm';
+import UpgradeNotice from '@/components/UpgradeNotice';
 import { transformationTypes } from '@/constants';
 import { getUserById } from '@/lib/actions/user.actions';
+import { getStorageLimit, getTransformationLimit } from '@/lib/plans';
 import { auth } from '@clerk/nextjs/server';
+import Link from 'next/link';
 import { redirect } from 'next/navigation';
 
 const AddTransformationTypePage = async ({ params: { type } }: SearchParamProps) => {
@@ -16,6 +20,10 @@ const AddTransformationTypePage = async ({ params: { type } }: SearchParamProps)
    */
   if (!userId) redirect('/sign-in');
   const user = await getUserById(userId);
+  // The type is not granted by the user's plan, or the plan stores no more images
+  const planLimit =
+    getTransformationLimit(user.planId, { type, width: 0, height: 0 }) ??
+    getStorageLimit(user.planId, { bytes: user.storage?.bytes ?? 0, assets: (user.storage?.assets ?? 0) + 1 });
 
   return (
     <>
@@ -23,14 +31,22 @@ const AddTransformationTypePage = async ({ params: { type } }: SearchParamProps)
         title={transformation.title}
         subtitle={transformation.subTitle}
       />
+      <Button asChild variant="outline" className='mt-4'>
+        <Link href={`/transformations/batch/${transformation.type}`}>
+          Batch mode: transform many images at once
+        </Link>
+      </Button>
       <section className='mt-10'>
-
-        <TransformationForm
-          action="Add"
-          userId={user?._id}
-          type={transformation.type as TransformationTypeKey}
-          creditBalance={user.creditBalance}
-        />
+        {planLimit ? (
+          <UpgradeNotice limit={planLimit} />
+        ) : (
+          <TransformationForm
+            action="Add"
+            type={transformation.type as TransformationTypeKey}
+            creditBalance={user.creditBalance}
+            recentColors={user.recentColors}
+          />
+        )}
       </section>
     </>
   );
@@ -0,0 +1,46 @@
+import BatchTransformationForm from '@/components/BatchTransformationForm';
+import Header from '@/components/Header';
+import UpgradeNotice from '@/components/UpgradeNotice';
+import { transformationTypes } from '@/constants';
+import { getUserById } from '@/lib/actions/user.actions';
+import { getTransformationLimit } from '@/lib/plans';
+import { auth } from '@clerk/nextjs/server';
+import { notFound, redirect } from 'next/navigation';
+
+const BatchTransformationPage = async ({ params: { type } }: SearchParamProps) => {
+  const { userId } = auth();
+  const transformation = transformationTypes[type];
+
+  if (!transformation) notFound();
+
+  /**
+   * Checks if the user is authenticated and retrieves the user's information.
+   * If the user is not authenticated, redirects to the sign-in page.
+   */
+  if (!userId) redirect('/sign-in');
+  const user = await getUserById(userId);
+  const planLimit = getTransformationLimit(user.planId, { type, width: 0, height: 0 });
+
+  return (
+    <>
+      <Header
+        title={`${transformation.title} - Batch`}
+        subtitle={`${transformation.subTitle}, on many images at once`}
+      />
+      <section className='mt-10'>
+        {planLimit ? (
+          <UpgradeNotice limit={planLimit} />
+        ) : (
+          <BatchTransformationForm
+            type={transformation.type as TransformationTypeKey}
+            creditBalance={user.creditBalance}
+            planId={user.planId}
+            recentColors={user.recentColors}
+          />
+        )}
+      </section>
+    </>
+  );
+};
+
+export default BatchTransformationPage;
@@ -0,0 +1,35 @@
+import Header from '@/components/Header';
+import PipelineBuilder from '@/components/PipelineBuilder';
+import { pipelineTransformation } from '@/constants';
+import { getPipelinePresets } from '@/lib/actions/pipeline.actions';
+import { getUserById } from '@/lib/actions/user.actions';
+import { auth } from '@clerk/nextjs/server';
+import { redirect } from 'next/navigation';
+
+const PipelinePage = async () => {
+  const { userId } = auth();
+
+  if (!userId) redirect('/sign-in');
+  const user = await getUserById(userId);
+  const presets = await getPipelinePresets();
+
+  return (
+    <>
+      <Header
+        title={pipelineTransformation.title}
+        subtitle={pipelineTransformation.subTitle}
+      />
+      <section className='mt-10'>
+        <PipelineBuilder
+          action="Add"
+          creditBalance={user.creditBalance}
+          planId={user.planId}
+          presets={presets ?? []}
+          recentColors={user.recentColors}
+        />
+      </section>
+    </>
+  );
+};
+
+export default PipelinePage;
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { closeExpiredBatches } from "@/lib/batches";
+
+/**
+ * Closes the batch transformations left open for longer than `batchReservationTtlMs`, e.g. because
+ * the tab was closed before the batch completed, and refunds the credits of their unsaved images.
+ *
+ * Meant to be called every hour by a scheduler (e.g. a Vercel cron job) with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: Request) {
+  if (!process.env.CRON_SECRET || request.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const closed = await closeExpiredBatches();
+
+    return NextResponse.json({ message: "OK", closed });
+  } catch (error) {
+    console.error("Failed to close expired batches", error);
+
+    return NextResponse.json({ message: "Failed to close expired batches" }, { status: 500 });
+  }
+}
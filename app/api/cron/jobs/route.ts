@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { dispatchDueTransformationJobs } from "@/lib/jobs";
+
+/**
+ * Attempts the transformation jobs that are due: jobs no client is watching any more, retries of
+ * transient failures and attempts that were interrupted. Jobs that fail for good are refunded.
+ *
+ * Meant to be called every minute by a scheduler (e.g. a Vercel cron job) with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: Request) {
+  if (!process.env.CRON_SECRET || request.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const attempted = await dispatchDueTransformationJobs();
+
+    return NextResponse.json({ message: "OK", attempted });
+  } catch (error) {
+    console.error("Failed to dispatch transformation jobs", error);
+
+    return NextResponse.json({ message: "Failed to dispatch transformation jobs" }, { status: 500 });
+  }
+}
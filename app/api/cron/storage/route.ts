@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+
+import { backfillAuthorNames } from "@/lib/images";
+import { reconcileStorage } from "@/lib/storage";
+
+/**
+ * Deletes the originals of the image provider that no image references once their grace period is
+ * over, and fills in the size of images saved before storage was accounted. See `reconcileStorage`.
+ * Images saved before `authorName` existed get it from their author, see `backfillAuthorNames`.
+ *
+ * Meant to be called daily by a scheduler (e.g. a Vercel cron job) with
+ * `Authorization: Bearer <CRON_SECRET>`. With `?dryRun=true` nothing is changed and the response
+ * reports what would be deleted.
+ */
+export async function GET(request: Request) {
+  if (!process.env.CRON_SECRET || request.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const dryRun = new URL(request.url).searchParams.get("dryRun") === "true";
+
+  try {
+    const report = await reconcileStorage({ dryRun });
+    const backfilledAuthorNames = await backfillAuthorNames({ dryRun });
+
+    return NextResponse.json({ message: "OK", report, backfilledAuthorNames });
+  } catch (error) {
+    console.error("Failed to reconcile storage", error);
+
+    return NextResponse.json({ message: "Failed to reconcile storage" }, { status: 500 });
+  }
+}
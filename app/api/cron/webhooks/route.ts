@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+
+import { dispatchDueWebhookDeliveries } from "@/lib/webhooks";
+
+/**
+ * Sends the outgoing webhook deliveries that are due: deliveries recorded inside a database
+ * transaction and retries of failed attempts.
+ *
+ * Meant to be called every minute by a scheduler (e.g. a Vercel cron job) with
+ * `Authorization: Bearer <CRON_SECRET>`.
+ */
+export async function GET(request: Request) {
+  if (!process.env.CRON_SECRET || request.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const attempted = await dispatchDueWebhookDeliveries();
+
+    return NextResponse.json({ message: "OK", attempted });
+  } catch (error) {
+    console.error("Failed to dispatch webhook deliveries", error);
+
+    return NextResponse.json({ message: "Failed to dispatch webhook deliveries" }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { Readable } from "stream";
+import sharp from "sharp";
+import { z } from "zod";
+
+import { exportFormats, exportQualities, maxExportDimension } from "@/constants";
+import { findViewableImage } from "@/lib/images";
+import { getTransformationProvider } from "@/lib/providers";
+import { hasTransparentBackground, sanitizeFilename } from "@/lib/utils";
+
+type ExportFormat = keyof typeof exportFormats;
+type ExportQuality = keyof typeof exportQualities;
+
+const dimension = z.coerce.number().int().min(1).max(maxExportDimension).optional();
+
+const exportSchema = z.object({
+  format: z.enum(Object.keys(exportFormats) as [ExportFormat, ...ExportFormat[]]).default("png"),
+  quality: z.enum(Object.keys(exportQualities) as [ExportQuality, ...ExportQuality[]]).default("high"),
+  width: dimension,
+  height: dimension,
+  transparent: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+  share: z.string().optional(),
+});
+
+/**
+ * Exports an image with its transformation applied, converted to another format and size.
+ *
+ * Query parameters:
+ * - `format`: png (default), jpeg, webp or avif,
+ * - `quality`: high (default), medium or low,
+ * - `width` / `height`: the box the image is resized to fit in, never larger than `maxExportDimension`,
+ * - `transparent`: whether a removed background stays transparent (default) or becomes white,
+ * - `share`: a share token, for unlisted images.
+ *
+ * The file is streamed as an attachment named after the image title.
+ */
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const parsed = exportSchema.safeParse(Object.fromEntries(new URL(request.url).searchParams));
+
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid export options", issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { format, quality, width, height, transparent, share } = parsed.data;
+  const { userId: clerkId } = auth();
+
+  const image = await findViewableImage(params.id, { clerkId, shareToken: share }).catch(() => null);
+
+  if (!image) return NextResponse.json({ message: "Not found" }, { status: 404 });
+
+  let rendered: Buffer;
+
+  try {
+    ({ data: rendered } = await getTransformationProvider().render({
+      src: image.publicId,
+      width: image.width,
+      height: image.height,
+      ...image.config,
+    }));
+  } catch (error) {
+    console.error("Failed to render image for export", params.id, error);
+
+    return NextResponse.json({ message: "The image could not be rendered" }, { status: 502 });
+  }
+
+  const keepTransparency = transparent && hasTransparentBackground(image) && exportFormats[format].supportsTransparency;
+
+  let pipeline = sharp(rendered).rotate();
+
+  pipeline = pipeline.resize({
+    width: width ?? maxExportDimension,
+    height: height ?? maxExportDimension,
+    fit: "inside",
+    withoutEnlargement: true,
+  });
+  if (!keepTransparency) pipeline = pipeline.flatten({ background: "#ffffff" });
+
+  pipeline = pipeline.toFormat(format, { quality: exportQualities[quality].quality });
+
+  // A failing conversion aborts the response instead of leaving it open
+  pipeline.on("error", (error) => {
+    console.error("Failed to export image", params.id, error);
+    pipeline.destroy(error);
+  });
+
+  const extension = format === "jpeg" ? "jpg" : format;
+  const filename = `${sanitizeFilename(image.title)}.${extension}`;
+
+  return new Response(Readable.toWeb(pipeline) as ReadableStream, {
+    headers: {
+      "Content-Type": exportFormats[format].mimeType,
+      // The plain name for old clients, the UTF-8 one for the others
+      "Content-Disposition": `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      "Cache-Control": "private, no-store",
+    },
+  });
+}
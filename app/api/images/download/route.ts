@@ -0,0 +1,70 @@
+import JSZip from "jszip";
+import { NextResponse } from "next/server";
+import { Readable } from "stream";
+
+import { getCurrentUser } from "@/lib/auth";
+import { runBulkAction } from "@/lib/bulk";
+import { getTransformationProvider } from "@/lib/providers";
+import { sanitizeFilename } from "@/lib/utils";
+
+/**
+ * Bundles transformed images of the signed-in user into a ZIP archive, streamed as an attachment.
+ *
+ * The body names the images as `{ imageIds }`, every one is checked to belong to the user, see
+ * `runBulkAction`. Images that cannot be rendered are left out of the archive; the result for each
+ * image is sent as URI-encoded JSON in the `X-Bulk-Results` header.
+ */
+export async function POST(request: Request) {
+  const user = await getCurrentUser().catch(() => null);
+
+  if (!user) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+
+  const body = await request.json().catch(() => null);
+
+  if (!Array.isArray(body?.imageIds)) return NextResponse.json({ message: "Missing imageIds" }, { status: 400 });
+
+  const provider = getTransformationProvider();
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  let results: BulkActionResult[];
+
+  try {
+    results = await runBulkAction(body.imageIds, user._id.toString(), async (image) => {
+      const { data, format } = await provider.render({
+        src: image.publicId,
+        width: image.width,
+        height: image.height,
+        ...image.config,
+      });
+
+      const base = sanitizeFilename(image.title);
+      const name = usedNames.has(base) ? `${base}-${image._id}` : base;
+
+      usedNames.add(name);
+      zip.file(`${name}.${format}`, data);
+    });
+  } catch (error) {
+    return NextResponse.json({ message: error instanceof Error ? error.message : "Invalid images" }, { status: 400 });
+  }
+
+  if (!results.some((result) => result.ok)) {
+    return NextResponse.json({ message: "No image could be rendered", results }, { status: 422 });
+  }
+
+  const archive = new Readable().wrap(zip.generateNodeStream({ type: "nodebuffer", streamFiles: true }));
+
+  // A failing archive ends the response with an error instead of leaving it open
+  archive.on("error", (error) => {
+    console.error("Failed to stream ZIP archive", error);
+    archive.destroy(error);
+  });
+
+  return new Response(Readable.toWeb(archive) as ReadableStream, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": 'attachment; filename="images.zip"',
+      "Cache-Control": "private, no-store",
+      "X-Bulk-Results": encodeURIComponent(JSON.stringify(results)),
+    },
+  });
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server";
+
+import { getCurrentUser } from "@/lib/auth";
+import { advanceTransformationJob, isFinishedJob } from "@/lib/jobs";
+
+export const dynamic = "force-dynamic";
+
+// How often the job is checked, and how long a stream stays open before the client reconnects
+const CHECK_INTERVAL_MS = 1000;
+const STREAM_DURATION_MS = 55 * 1000;
+
+/**
+ * Streams the status of a transformation job of the signed-in user as server-sent events.
+ *
+ * A `status` event is sent whenever the job changes, and the job is attempted while it is due. The
+ * stream ends once the job succeeded or failed; a stream that ends earlier, after `STREAM_DURATION_MS`,
+ * is reopened by the `EventSource` of the client.
+ */
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const user = await getCurrentUser().catch(() => null);
+
+  if (!user) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+
+  const userId = user._id.toString();
+  const first = await advanceTransformationJob(params.id, userId);
+
+  if (!first) return NextResponse.json({ message: "Not found" }, { status: 404 });
+
+  const encoder = new TextEncoder();
+  const deadline = Date.now() + STREAM_DURATION_MS;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (job: TransformationJobView) =>
+        controller.enqueue(encoder.encode(`event: status\ndata: ${JSON.stringify(job)}\n\n`));
+
+      let job: TransformationJobView | null = first;
+      let sent = JSON.stringify(first);
+
+      send(first);
+
+      try {
+        while (!isFinishedJob(job) && Date.now() < deadline && !request.signal.aborted) {
+          await new Promise((resolve) => setTimeout(resolve, CHECK_INTERVAL_MS));
+
+          job = await advanceTransformationJob(params.id, userId);
+
+          if (!job) break;
+
+          if (JSON.stringify(job) !== sent) {
+            send(job);
+            sent = JSON.stringify(job);
+          }
+        }
+      } catch (error) {
+        console.error("Failed to stream transformation job", params.id, error);
+      }
+
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+
+import { getCurrentUser } from "@/lib/auth";
+import { advanceTransformationJob } from "@/lib/jobs";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Returns the status of a transformation job of the signed-in user, attempting it first when it is
+ * due. Polled by clients that cannot use `/api/jobs/[id]/events`.
+ */
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  const user = await getCurrentUser().catch(() => null);
+
+  if (!user) return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+
+  try {
+    const job = await advanceTransformationJob(params.id, user._id.toString());
+
+    if (!job) return NextResponse.json({ message: "Not found" }, { status: 404 });
+
+    return NextResponse.json(job);
+  } catch (error) {
+    console.error("Failed to load transformation job", params.id, error);
+
+    return NextResponse.json({ message: "Failed to load the transformation job" }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from "next/server";
+
+import { maxExportDimension } from "@/constants";
+import { renderLocalImage } from "@/lib/providers/local";
+import { imageProvider } from "@/lib/providers/urls";
+import { sanitizeConfig } from "@/lib/transformations";
+
+// Sizes are whole pixels and never larger than an export; `renderLocalImage` bounds fills and crops too
+const parseDimension = (value: string | null) => {
+  const dimension = Math.round(Number(value));
+
+  return dimension > 0 ? Math.min(dimension, maxExportDimension) : undefined;
+};
+
+/**
+ * Serves the images of the local provider, see `getLocalImageUrl`.
+ *
+ * `w` and `h` set the size and `t` holds the JSON transformation config; without `t` the
+ * original is served.
+ */
+export async function GET(request: Request, { params }: { params: { publicId: string[] } }) {
+  if (imageProvider !== "local") {
+    return NextResponse.json({ message: "Not found" }, { status: 404 });
+  }
+
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const image = await renderLocalImage({
+      // Masks end up in an SVG, so they are checked like the saved ones
+      ...sanitizeConfig(JSON.parse(searchParams.get("t") || "{}")),
+      src: params.publicId.join("/"),
+      width: parseDimension(searchParams.get("w")),
+      height: parseDimension(searchParams.get("h")),
+    });
+
+    return new NextResponse(image, {
+      headers: {
+        "Content-Type": "image/png",
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to render local image", error);
+
+    return NextResponse.json({ message: "Not found" }, { status: 404 });
+  }
+}
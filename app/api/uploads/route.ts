@@ -0,0 +1,51 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+
+import { getTransformationProvider } from "@/lib/providers";
+
+// Same limit as the free Cloudinary plan
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Uploads an original image to the configured provider.
+ *
+ * Used by `ImageUploadWidget` when the Cloudinary upload widget is not available. The response
+ * mirrors the `info` of a Cloudinary upload so the upload handlers work with both providers.
+ */
+export async function POST(request: Request) {
+  const { userId } = auth();
+
+  if (!userId) {
+    return NextResponse.json({ message: "Not authenticated" }, { status: 401 });
+  }
+
+  const file = (await request.formData().catch(() => null))?.get("file");
+
+  if (!(file instanceof File)) {
+    return NextResponse.json({ message: "Missing file" }, { status: 400 });
+  }
+
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return NextResponse.json({ message: "File too large" }, { status: 413 });
+  }
+
+  try {
+    const image = await getTransformationProvider().upload({
+      data: Buffer.from(await file.arrayBuffer()),
+      filename: file.name,
+    });
+
+    return NextResponse.json({
+      info: {
+        public_id: image.publicId,
+        secure_url: image.secureURL,
+        width: image.width,
+        height: image.height,
+      },
+    });
+  } catch (error) {
+    console.error("Upload failed", error);
+
+    return NextResponse.json({ message: "Upload failed" }, { status: 422 });
+  }
+}
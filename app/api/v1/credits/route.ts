@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+
+import { getUserById } from "@/lib/actions/user.actions";
+import { withApiKey } from "@/lib/api";
+
+/**
+ * Returns the credit balance of the API key's owner.
+ */
+export const GET = withApiKey(async (request, user) => {
+  const { creditBalance, planId } = await getUserById(user.clerkId);
+
+  return NextResponse.json({ data: { creditBalance, planId } });
+});
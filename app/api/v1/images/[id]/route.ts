@@ -0,0 +1,46 @@
+import { isValidObjectId } from "mongoose";
+import { revalidatePath } from "next/cache";
+import { NextResponse } from "next/server";
+
+import { ApiError, withApiKey } from "@/lib/api";
+import { deleteOwnedImage, findViewableImage } from "@/lib/images";
+
+type ImageRouteContext = { params: { id: string } };
+
+/**
+ * Finds an image of the API key's owner.
+ *
+ * @throws ApiError 404 when the image does not exist or belongs to another user.
+ */
+const findOwnedImage = async (imageId: string, user: any) => {
+  const userId = user._id.toString();
+  const image = isValidObjectId(imageId) ? await findViewableImage(imageId, { userId }) : null;
+
+  if (!image || image.author?._id.toString() !== userId) {
+    throw new ApiError(404, "NOT_FOUND", "Image not found");
+  }
+
+  return JSON.parse(JSON.stringify(image));
+};
+
+/**
+ * Retrieves one image of the API key's owner.
+ */
+export const GET = withApiKey<ImageRouteContext>(async (request, user, { params }) => {
+  const image = await findOwnedImage(params.id, user);
+
+  return NextResponse.json({ data: image });
+});
+
+/**
+ * Deletes one image of the API key's owner, together with its version history.
+ */
+export const DELETE = withApiKey<ImageRouteContext>(async (request, user, { params }) => {
+  const image = await findOwnedImage(params.id, user);
+
+  await deleteOwnedImage(image._id, user._id.toString());
+
+  revalidatePath("/");
+
+  return new NextResponse(null, { status: 204 });
+});
@@ -0,0 +1,146 @@
+import { revalidatePath } from "next/cache";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+import { maxTagLength, maxTagsPerImage, transformationTypes } from "@/constants";
+import { ApiError, withApiKey } from "@/lib/api";
+import { InsufficientCreditsError } from "@/lib/credits";
+import { assertStorageAvailable } from "@/lib/entitlements";
+import { createImage } from "@/lib/images";
+import { enqueueTransformationJob, runTransformationJob } from "@/lib/jobs";
+import { findUserImages, InvalidCursorError } from "@/lib/listing";
+import { resolveFillSize } from "@/lib/utils";
+import { areFieldsComplete, getTransformationConfig } from "@/lib/transformations";
+
+const MAX_PAGE_SIZE = 50;
+
+// How long a request waits for its transformation job before answering with 202
+const JOB_TIMEOUT_MS = 50 * 1000;
+
+export const maxDuration = 60;
+
+const createTransformationSchema = z.object({
+  // The job of an earlier request that was answered with 202, to save it instead of transforming again
+  jobId: z.string().regex(/^[0-9a-f]{24}$/i).optional(),
+  title: z.string().trim().min(1),
+  transformationType: z.enum(Object.keys(transformationTypes) as [TransformationTypeKey, ...TransformationTypeKey[]]),
+  publicId: z.string().min(1),
+  secureURL: z.string().url(),
+  // Accepted for compatibility only: the size of the original is read from the provider
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+  // A preset like "16:9", a custom ratio like "5:2" or an exact size like "1200x628"
+  aspectRatio: z.string().trim().optional(),
+  // The other fields of the transformation type, see the `fields` of `transformationTypes`
+  gravity: z.string().trim().optional(),
+  prompt: z.string().trim().optional(),
+  color: z.string().trim().optional(),
+  strength: z.string().trim().optional(),
+  style: z.string().trim().optional(),
+  textSize: z.string().trim().optional(),
+  opacity: z.string().trim().optional(),
+  visibility: z.enum(["private", "unlisted", "public"]).optional(),
+  tags: z.array(z.string().trim().min(1).max(maxTagLength)).max(maxTagsPerImage).optional(),
+}).refine(
+  ({ transformationType, ...values }) => areFieldsComplete(transformationType, values),
+  ({ transformationType }) => ({
+    message: `Missing or invalid ${transformationTypes[transformationType].fields.map(({ name }) => name).join(", ")} for this transformation type`,
+  })
+);
+
+/**
+ * Lists the images of the API key's owner, most recently created first.
+ *
+ * Query parameters: `cursor` (the `nextCursor` or `prevCursor` of a previous response, none for
+ * the first page) and `limit` (default 9, at most 50).
+ */
+export const GET = withApiKey(async (request, user) => {
+  const { searchParams } = new URL(request.url);
+  const cursor = searchParams.get("cursor") || undefined;
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(searchParams.get("limit")) || 9));
+
+  try {
+    const images = await findUserImages({ cursor, limit, userId: user._id.toString(), includeHidden: true });
+
+    return NextResponse.json({ data: images.data, nextCursor: images.nextCursor, prevCursor: images.prevCursor });
+  } catch (error) {
+    if (error instanceof InvalidCursorError) throw new ApiError(400, "INVALID_CURSOR", error.message);
+    throw error;
+  }
+});
+
+/**
+ * Applies a transformation to an uploaded Cloudinary image and saves the result. The image must have
+ * been uploaded by the owner of the API key, see `assertUploadOwner`, or is answered with 404.
+ *
+ * The transformation is queued as a `TransformationJob` and rendered on the server, see `lib/jobs.ts`.
+ * The owner of the API key is charged the cost of the transformation type for the output size, see
+ * `getTransformationCost`, computed from the original as the provider stores it, never from the declared
+ * size; the request fails with 402 when the balance cannot cover it, and with 403 when their plan does not
+ * grant the type, the output size or the storage of one more image.
+ *
+ * A transformation that fails is refunded and answered with 502. One that is still rendering after
+ * `JOB_TIMEOUT_MS` is answered with 202 and the job: the same request sent again with its ID as `jobId`
+ * saves it once it succeeded, without charging it again.
+ */
+export const POST = withApiKey(async (request, user) => {
+  const parsed = createTransformationSchema.safeParse(await request.json().catch(() => null));
+
+  if (!parsed.success) {
+    throw new ApiError(400, "INVALID_REQUEST", "Invalid transformation", {
+      details: { issues: parsed.error.issues },
+    });
+  }
+
+  const {
+    jobId, transformationType, aspectRatio, prompt, color, gravity, strength, style, textSize, opacity, width, height, ...fields
+  } = parsed.data;
+  const userId = user._id.toString();
+  const config = getTransformationConfig(transformationType, { prompt, color, gravity, strength, style, textSize, opacity });
+
+  assertStorageAvailable(user);
+
+  const queuedJobId = jobId ?? (await enqueueTransformationJob({
+    userId,
+    transformation: { type: transformationType },
+    publicId: fields.publicId,
+    aspectRatio,
+    config,
+  }).catch((error) => {
+    if (error instanceof InsufficientCreditsError) {
+      throw new ApiError(402, "INSUFFICIENT_CREDITS", error.message, {
+        details: { required: error.required, creditBalance: error.balance },
+      });
+    }
+
+    if (error instanceof Error && error.message === "Image not found") throw new ApiError(404, "NOT_FOUND", error.message);
+    if (error instanceof Error && error.message === "Invalid or missing aspect ratio") {
+      throw new ApiError(400, "INVALID_REQUEST", error.message);
+    }
+
+    throw error;
+  }))._id.toString();
+
+  const job = await runTransformationJob(queuedJobId, userId, JOB_TIMEOUT_MS);
+
+  if (!job) throw new ApiError(404, "NOT_FOUND", "Transformation job not found");
+
+  if (job.status === "failed") {
+    throw new ApiError(502, "TRANSFORMATION_FAILED", job.error ?? "The transformation failed", {
+      details: { jobId: job._id, creditsRefunded: job.creditsRefunded },
+    });
+  }
+
+  if (job.status !== "succeeded") return NextResponse.json({ data: { job } }, { status: 202 });
+
+  const image = await createImage(user, job._id, {
+    ...fields,
+    aspectRatio: resolveFillSize(aspectRatio)?.aspectRatio,
+    prompt,
+    color,
+  });
+
+  revalidatePath("/");
+
+  return NextResponse.json({ data: image }, { status: 201 });
+});
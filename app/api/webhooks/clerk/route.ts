@@ -1,7 +1,8 @@
 import { Webhook } from 'svix'
 import { headers } from 'next/headers'
 import { clerkClient, WebhookEvent } from '@clerk/nextjs/server'
-import { createUser } from "@/lib/actions/user.actions";
+import { createUser, deleteUser, updateUser } from "@/lib/actions/user.actions";
+import { getPlanTier } from "@/lib/plans";
 import { NextResponse } from 'next/server'
 
 export async function POST(req: Request) {
@@ -73,6 +74,7 @@ export async function POST(req: Request) {
         await clerkClient.users.updateUserMetadata(id, {
           publicMetadata: {
             userId: newUser._id,
+            planTier: getPlanTier(newUser.planId),
           },
         });
       }
@@ -81,6 +83,49 @@ export async function POST(req: Request) {
     
   }
 
+  if (eventType === 'user.updated') {
+    const { id, image_url, first_name, last_name, username, public_metadata } = evt.data;
+
+    const user = {
+      firstName: first_name ?? '',
+      lastName: last_name ?? '',
+      username: username ?? '',
+      photo: image_url ?? '',
+    };
+
+    const updatedUser = await updateUser(id, user);
+
+    // Not in the database yet: the user is saved with these details by `user.created`
+    if (!updatedUser) {
+      return NextResponse.json({ message: "User not found, update ignored", user: null });
+    }
+
+    // Backfill the Mongo id for users created before it was written to Clerk
+    if (public_metadata?.userId !== updatedUser._id) {
+      await clerkClient.users.updateUserMetadata(id, {
+        publicMetadata: {
+          userId: updatedUser._id,
+        },
+      });
+    }
+
+    return NextResponse.json({ message: "User updated", user: updatedUser });
+  }
+
+  if (eventType === 'user.deleted') {
+    const { id } = evt.data;
+
+    if (!id) {
+      return new Response('Error occured -- missing user id', {
+        status: 400
+      })
+    }
+
+    const deletedUser = await deleteUser(id);
+
+    return NextResponse.json({ message: "User deleted", user: deletedUser });
+  }
+
   console.log(`Webhook with and ID of ${id} and type of ${eventType}`)
   console.log('Webhook body:', body)
 
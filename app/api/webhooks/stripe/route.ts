@@ -1,14 +1,19 @@
 /**
- * Handles Stripe webhook events, specifically the "checkout.session.completed" event.
- * When a Stripe checkout session is completed, this function creates a new transaction record
- * with the relevant details from the Stripe event, such as the Stripe session ID, the total
- * amount, the plan, the number of credits, and the buyer ID.
+ * Handles Stripe webhook events.
+ *
+ * Supported events are `checkout.session.completed` (records the transaction and grants the credits),
+ * `checkout.session.expired`, `charge.refunded` and `charge.dispute.created` (claw back credits and
+ * mark the transaction), and `invoice.paid`, `customer.subscription.updated` and
+ * `customer.subscription.deleted` (subscription credit top-ups and plan sync).
+ * Each event is processed at most once, keyed by its Stripe event id.
+ *
+ * Failures return a non-2xx status so that Stripe retries the delivery.
  *
  * @param request - The incoming HTTP request containing the Stripe webhook event data.
- * @returns A JSON response with a success message and the newly created transaction.
+ * @returns A JSON response describing the outcome.
  */
 /* eslint-disable camelcase */
-import { createTransaction } from "@/lib/actions/transactions.actions";
+import { processStripeEvent } from "@/lib/transactions";
 import { NextResponse } from "next/server";
 import stripe from "stripe";
 
@@ -23,29 +28,21 @@ export async function POST(request: Request) {
   try {
     event = stripe.webhooks.constructEvent(body, sig, endpointSecret);
   } catch (err) {
-    return NextResponse.json({ message: "Webhook error", error: err });
+    return NextResponse.json({ message: "Webhook error", error: err }, { status: 400 });
   }
 
-  // Get the ID and type
-  const eventType = event.type;
-
-  // CREATE
-  if (eventType === "checkout.session.completed") {
-    const { id, amount_total, metadata } = event.data.object;
-
-    const transaction = {
-      stripeId: id,
-      amount: amount_total ? amount_total / 100 : 0,
-      plan: metadata?.plan || "",
-      credits: Number(metadata?.credits) || 0,
-      buyerId: metadata?.buyerId || "",
-      createdAt: new Date(),
-    };
-
-    const newTransaction = await createTransaction(transaction);
-    
-    return NextResponse.json({ message: "OK", transaction: newTransaction });
-  }
+  try {
+    const { handled, duplicate, result } = await processStripeEvent(event);
 
-  return new Response("", { status: 200 });
-};
\ No newline at end of file
+    if (!handled) return new Response("", { status: 200 });
+
+    return NextResponse.json({
+      message: duplicate ? "Event already processed" : "OK",
+      result,
+    });
+  } catch (error) {
+    console.error(`Error processing Stripe event ${event.id} (${event.type}):`, error);
+
+    return NextResponse.json({ message: "Webhook handler failed" }, { status: 500 });
+  }
+};
@@ -0,0 +1,251 @@
+/**
+ * The `AlbumBrowser` component shows the album tree of the signed-in user next to their images.
+ *
+ * Selecting an album filters the collection through the `album` URL query. Albums can be created,
+ * nested, renamed, reordered and deleted, and images dragged from the collection onto an album are
+ * moved into it.
+ */
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useState, useTransition } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/use-toast";
+import { maxAlbumDepth } from "@/constants";
+import {
+  createAlbum,
+  deleteAlbum,
+  moveImagesToAlbum,
+  renameAlbum,
+  reorderAlbums,
+} from "@/lib/actions/album.actions";
+import { formUrlQuery, removeKeysFromQuery } from "@/lib/utils";
+
+// Drag data of images dragged from the collection: a JSON array of image IDs
+export const ALBUM_DRAG_TYPE = "application/x-imaginify-images";
+
+export type AlbumItem = {
+  _id: string;
+  name: string;
+  parent?: string | null;
+  ancestors: string[];
+  position: number;
+};
+
+/**
+ * Lists the albums depth first, in the order of the tree, for album pickers.
+ */
+export const flattenAlbums = (albums: AlbumItem[], parent: string | null = null): AlbumItem[] =>
+  albums
+    .filter((album) => (album.parent ?? null) === parent)
+    .sort((a, b) => a.position - b.position)
+    .flatMap((album) => [album, ...flattenAlbums(albums, album._id)]);
+
+const AlbumBrowser = ({ albums, albumId }: { albums: AlbumItem[]; albumId?: string }) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+  const [newName, setNewName] = useState("");
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const selected = albums.find((album) => album._id === albumId);
+  const canNest = !selected || selected.ancestors.length + 1 < maxAlbumDepth;
+
+  /**
+   * Runs an album action and reports a failure with a toast.
+   */
+  const run = (action: () => Promise<unknown>, failure: string) =>
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (error) {
+        toast({
+          title: "Something went wrong",
+          description: failure,
+          duration: 5000,
+          className: "error-toast",
+        });
+      }
+    });
+
+  // Cursors only apply to the listing that issued them
+  const onSelectAlbum = (id?: string) => {
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("cursor");
+    params.delete("page");
+
+    const newUrl = id
+      ? formUrlQuery({ searchParams: params.toString(), key: "album", value: id })
+      : removeKeysFromQuery({ searchParams: params.toString(), keysToRemove: ["album"] });
+
+    router.push(newUrl, { scroll: false });
+  };
+
+  const onMove = (album: AlbumItem, offset: number) => {
+    const siblings = flattenAlbums(albums).filter((sibling) => (sibling.parent ?? null) === (album.parent ?? null));
+    const ids = siblings.map((sibling) => sibling._id);
+    const index = ids.indexOf(album._id);
+    const target = index + offset;
+
+    if (target < 0 || target >= ids.length) return;
+
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+
+    run(
+      () => reorderAlbums({ parentId: album.parent ?? undefined, albumIds: ids, path: pathname }),
+      "The albums could not be reordered, Please try again"
+    );
+  };
+
+  const onDrop = (event: React.DragEvent, album: AlbumItem) => {
+    event.preventDefault();
+    setDropTarget(null);
+
+    const data = event.dataTransfer.getData(ALBUM_DRAG_TYPE);
+
+    if (!data) return;
+
+    run(async () => {
+      const results = await moveImagesToAlbum({
+        imageIds: JSON.parse(data),
+        fromAlbumId: albumId,
+        toAlbumId: album._id,
+        path: pathname,
+      });
+
+      if (results?.some((result) => !result.ok)) throw new Error("Some images were not moved");
+    }, "Some images could not be moved, Please try again");
+  };
+
+  return (
+    <aside className="mb-6 space-y-4 rounded-[16px] border-2 border-purple-200/20 p-4">
+      <h3 className="h3-bold text-dark-600">Albums</h3>
+
+      <ul className="space-y-1">
+        <li>
+          <button
+            type="button"
+            className={`p-16-medium w-full rounded-[10px] px-3 py-2 text-left ${
+              !albumId ? "bg-purple-gradient text-white" : "text-dark-600"
+            }`}
+            onClick={() => onSelectAlbum()}
+          >
+            All images
+          </button>
+        </li>
+
+        {flattenAlbums(albums).map((album) => (
+          <li
+            key={album._id}
+            className={`flex items-center gap-2 rounded-[10px] ${
+              dropTarget === album._id ? "bg-purple-100" : ""
+            }`}
+            style={{ paddingLeft: `${album.ancestors.length * 16}px` }}
+            onDragOver={(event) => {
+              if (!event.dataTransfer.types.includes(ALBUM_DRAG_TYPE)) return;
+              event.preventDefault();
+              setDropTarget(album._id);
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(event) => onDrop(event, album)}
+          >
+            {editing?.id === album._id ? (
+              <form
+                className="flex flex-1 gap-2"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  run(
+                    () => renameAlbum({ albumId: album._id, name: editing.name, path: pathname }),
+                    "The album could not be renamed, Please try again"
+                  );
+                  setEditing(null);
+                }}
+              >
+                <Input
+                  autoFocus
+                  className="input-field"
+                  value={editing.name}
+                  onChange={(e) => setEditing({ id: album._id, name: e.target.value })}
+                />
+                <Button type="submit" variant="outline" disabled={isPending}>
+                  Save
+                </Button>
+              </form>
+            ) : (
+              <>
+                <button
+                  type="button"
+                  className={`p-16-medium flex-1 truncate rounded-[10px] px-3 py-2 text-left ${
+                    album._id === albumId ? "bg-purple-gradient text-white" : "text-dark-600"
+                  }`}
+                  onClick={() => onSelectAlbum(album._id)}
+                >
+                  {album.name}
+                </button>
+                <Button type="button" variant="ghost" size="sm" disabled={isPending} onClick={() => onMove(album, -1)}>
+                  &uarr;
+                </Button>
+                <Button type="button" variant="ghost" size="sm" disabled={isPending} onClick={() => onMove(album, 1)}>
+                  &darr;
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setEditing({ id: album._id, name: album.name })}
+                >
+                  Rename
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-500"
+                  disabled={isPending}
+                  onClick={() =>
+                    run(async () => {
+                      await deleteAlbum(album._id, pathname);
+                      if (album._id === albumId || selected?.ancestors.includes(album._id)) onSelectAlbum();
+                    }, "The album could not be deleted, Please try again")
+                  }
+                >
+                  Delete
+                </Button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {canNest && (
+        <form
+          className="flex gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            run(async () => {
+              await createAlbum({ name: newName, parentId: albumId, path: pathname });
+              setNewName("");
+            }, "The album could not be created, Please try again");
+          }}
+        >
+          <Input
+            className="input-field"
+            placeholder={selected ? `New album in ${selected.name}` : "New album"}
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <Button type="submit" className="collection-btn" disabled={isPending || !newName.trim()}>
+            Create
+          </Button>
+        </form>
+      )}
+    </aside>
+  );
+};
+
+export default AlbumBrowser;
@@ -0,0 +1,152 @@
+/**
+ * The `ApiKeys` component lets the signed-in user issue and revoke personal keys for the public API.
+ *
+ * A new key is shown once, right after it is issued; afterwards only its prefix is known. Users whose
+ * plan does not include API access see an upgrade prompt instead.
+ */
+"use client";
+
+import { useState, useTransition } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { createApiKey, revokeApiKey } from "@/lib/actions/apiKey.actions";
+
+import UpgradeNotice from "./UpgradeNotice";
+
+type ApiKeyItem = {
+  _id: string;
+  name: string;
+  prefix: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+};
+
+const formatDate = (date?: string) => (date ? new Date(date).toLocaleDateString() : "Never");
+
+const ApiKeys = ({ apiKeys, apiLimit }: { apiKeys: ApiKeyItem[]; apiLimit?: PlanLimitError | null }) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const onCreateHandler = () =>
+    startTransition(async () => {
+      try {
+        const apiKey = await createApiKey(name);
+
+        setNewKey(apiKey?.key ?? null);
+        setName("");
+      } catch (error) {
+        toast({
+          title: "Something went wrong",
+          description: "The API key could not be created, Please try again",
+          duration: 5000,
+          className: "error-toast",
+        });
+      }
+    }); // End of onCreateHandler
+
+  const onRevokeHandler = (apiKeyId: string) =>
+    startTransition(async () => {
+      try {
+        await revokeApiKey(apiKeyId);
+        toast({
+          title: "API key revoked",
+          description: "Requests with this key are now rejected",
+          duration: 5000,
+          className: "success-toast",
+        });
+      } catch (error) {
+        toast({
+          title: "Something went wrong",
+          description: "The API key could not be revoked, Please try again",
+          duration: 5000,
+          className: "error-toast",
+        });
+      }
+    }); // End of onRevokeHandler
+
+  return (
+    <section className="w-full max-w-4xl space-y-6">
+      <h3 className="h3-bold text-dark-600">API Keys</h3>
+      <p className="p-16-regular">
+        Use a key as <code>Authorization: Bearer &lt;key&gt;</code> to call the <code>/api/v1</code> API.
+      </p>
+
+      {apiLimit ? (
+        <UpgradeNotice limit={apiLimit} />
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="api-key-name">Key Name</Label>
+          <div className="flex gap-4">
+            <Input
+              id="api-key-name"
+              className="input-field"
+              placeholder="e.g. Production backend"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button
+              type="button"
+              className="collection-btn"
+              disabled={!name.trim() || isPending}
+              onClick={onCreateHandler}
+            >
+              Create Key
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {newKey && (
+        <div className="space-y-2 rounded-[16px] border border-purple-200/20 bg-purple-100 p-4">
+          <p className="p-16-semibold text-dark-600">
+            Copy your new key now, it will not be shown again:
+          </p>
+          <code className="block break-all p-14-medium">{newKey}</code>
+          <Button type="button" variant="outline" onClick={() => navigator.clipboard.writeText(newKey)}>
+            Copy
+          </Button>
+        </div>
+      )}
+
+      {apiKeys.length > 0 && (
+        <ul className="space-y-2">
+          {apiKeys.map((apiKey) => (
+            <li
+              key={apiKey._id}
+              className="flex-between rounded-[16px] border border-purple-200/20 p-4 shadow-sm"
+            >
+              <div>
+                <p className="p-16-semibold text-dark-600">
+                  {apiKey.name} <span className="text-dark-400">({apiKey.prefix}...)</span>
+                </p>
+                <p className="p-14-medium text-dark-400">
+                  Created {formatDate(apiKey.createdAt)} &middot; Last used {formatDate(apiKey.lastUsedAt)}
+                </p>
+              </div>
+              {apiKey.revokedAt ? (
+                <p className="p-14-medium text-red-500">Revoked {formatDate(apiKey.revokedAt)}</p>
+              ) : (
+                <Button
+                  type="button"
+                  variant="destructive"
+                  disabled={isPending}
+                  onClick={() => onRevokeHandler(apiKey._id)}
+                >
+                  Revoke
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ApiKeys;
@@ -0,0 +1,367 @@
+/**
+ * The `BatchTransformationForm` component applies one transformation to many uploaded images.
+ *
+ * The user uploads up to the `maxBatchSize` of their plan images, fills in the fields of the transformation type once and
+ * starts the batch. Every image costs the price of the type for its size, see `getTransformationCost`.
+ * The credits for every image are charged up front by `createBatch`; each image is then
+ * rendered by a transformation job on the server, see `createBatchTransformationJob`, and saved as its own
+ * `Image` with `addBatchImage`, and `completeBatch` refunds the credits of the images that failed.
+ *
+ * The progress view lists every image with its status and the error of the ones that failed.
+ */
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { transformationTypes } from "@/constants";
+import { addBatchImage, completeBatch, createBatch, createBatchTransformationJob } from "@/lib/actions/batch.actions";
+import { waitForTransformationJob } from "@/lib/jobEvents";
+import { hasSizeField, resolveFillSize } from "@/lib/utils";
+import {
+  areFieldsComplete,
+  getTransformationConfig,
+  getTransformationFieldValues,
+} from "@/lib/transformations";
+import { getTransformationCost } from "@/lib/pricing";
+import { getBatchLimit, getPlanEntitlements } from "@/lib/plans";
+
+import ImageUploadWidget from "./ImageUploadWidget";
+import { InsufficientCreditsModal } from "./InsufficientCreditsModal";
+import ProviderImage from "./ProviderImage";
+import TransformationFieldInput from "./TransformationFieldInput";
+import UpgradeNotice from "./UpgradeNotice";
+import { UpgradePlanModal } from "./UpgradePlanModal";
+
+type BatchItem = {
+  publicId: string;
+  width: number;
+  height: number;
+  secureURL: string;
+  status: "pending" | "transforming" | "saved" | "failed";
+  imageId?: string;
+  error?: string;
+};
+
+const statusLabels: Record<BatchItem["status"], string> = {
+  pending: "Waiting",
+  transforming: "Transforming...",
+  saved: "Saved",
+  failed: "Failed",
+};
+
+const BatchTransformationForm = ({ type, creditBalance, planId, recentColors = [] }: {
+  type: TransformationTypeKey;
+  creditBalance: number;
+  planId?: number;
+  recentColors?: string[];
+}) => {
+  const { toast } = useToast();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [title, setTitle] = useState("");
+  const [values, setValues] = useState<TransformationFieldValues>(() => getTransformationFieldValues(type));
+  const [isRunning, setIsRunning] = useState(false);
+  const [summary, setSummary] = useState<{ saved: number; failed: number; refunded: number } | null>(null);
+  const [insufficientCredits, setInsufficientCredits] = useState<InsufficientCreditsError | null>(
+    creditBalance < transformationTypes[type].cost.credits
+      ? { code: "INSUFFICIENT_CREDITS", required: transformationTypes[type].cost.credits, creditBalance }
+      : null
+  );
+  const [planLimit, setPlanLimit] = useState<PlanLimitError | null>(null);
+  const { maxBatchSize } = getPlanEntitlements(planId);
+  // Shown once the batch is full, when a higher plan takes more images
+  const batchSizeLimit = getBatchLimit(planId, maxBatchSize + 1);
+
+  // Types with a size field, like Generative Fill, output every image at that size
+  const getOutputSize = (item: BatchItem) =>
+    (hasSizeField(type) && resolveFillSize(values.aspectRatio)) || { width: item.width, height: item.height };
+
+  const totalCost = items.reduce((total, item) => total + getTransformationCost(type, getOutputSize(item)), 0);
+  const processed = items.filter((item) => item.status === "saved" || item.status === "failed").length;
+
+  const updateItem = (index: number, changes: Partial<BatchItem>) =>
+    setItems((prevState) =>
+      prevState.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    );
+
+  const onUploadSuccessHandler = (result: any) => {
+    setItems((prevState) =>
+      prevState.length >= maxBatchSize ? prevState : [
+        ...prevState,
+        {
+          publicId: result?.info?.public_id,
+          width: result?.info?.width,
+          height: result?.info?.height,
+          secureURL: result?.info?.secure_url,
+          status: "pending",
+        },
+      ]
+    );
+  }; // End of onUploadSuccessHandler
+
+  const isReady = items.length > 0 && title.trim() !== "" && areFieldsComplete(type, values);
+
+  const onRunBatch = async () => {
+    setIsRunning(true);
+    setSummary(null);
+
+    const config = getTransformationConfig(type, values);
+    const { aspectRatio, prompt, color } = values;
+    let result: CreateBatchResult | undefined;
+
+    try {
+      result = await createBatch({ type, config, sizes: items.map(getOutputSize) });
+    } catch (error) {
+      setIsRunning(false);
+      toast({
+        title: "Something went wrong",
+        description: "The batch could not be started, Please try again",
+        duration: 5000,
+        className: "error-toast",
+      });
+      return;
+    }
+
+    if (!result || result.error) {
+      setIsRunning(false);
+
+      if (result?.error.code === "PLAN_LIMIT") setPlanLimit(result.error);
+      else setInsufficientCredits(result?.error ?? null);
+
+      return;
+    }
+
+    const batchId = result.batch._id;
+
+    // Images are processed one after the other to keep the load on the image provider predictable
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+      updateItem(index, { status: "transforming", error: undefined });
+
+      try {
+        const queuedJob = await createBatchTransformationJob({
+          batchId,
+          index,
+          publicId: item.publicId,
+          aspectRatio: hasSizeField(type) ? aspectRatio : undefined,
+        });
+
+        if (!queuedJob) throw new Error("The transformation could not be queued");
+
+        const job = await waitForTransformationJob(queuedJob._id);
+
+        if (job.status === "failed") throw new Error(job.error ?? "Transformation failed");
+
+        const image = await addBatchImage({
+          batchId,
+          index,
+          jobId: job._id,
+          image: {
+            title: items.length > 1 ? `${title} ${index + 1}` : title,
+            publicId: item.publicId,
+            secureURL: item.secureURL,
+            aspectRatio: hasSizeField(type) ? resolveFillSize(aspectRatio)?.aspectRatio : undefined,
+            prompt: prompt || undefined,
+            color: color || undefined,
+          },
+        });
+
+        updateItem(index, { status: "saved", imageId: image?._id });
+      } catch (error) {
+        updateItem(index, {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Unknown error",
+        });
+      }
+    }
+
+    // A batch that cannot be closed here is closed, and its unsaved images refunded, by `/api/cron/batches`
+    try {
+      const batch = await completeBatch(batchId);
+
+      setSummary({
+        saved: batch.saved,
+        failed: batch.total - batch.saved,
+        refunded: batch.creditsRefunded,
+      });
+
+      toast({
+        title: "Batch finished",
+        description: `${batch.saved} of ${batch.total} images saved`,
+        duration: 5000,
+        className: batch.saved === batch.total ? "success-toast" : "error-toast",
+      });
+    } catch (error) {
+      toast({
+        title: "Something went wrong",
+        description: "The batch could not be closed, the credits of unsaved images will be refunded later",
+        duration: 5000,
+        className: "error-toast",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  }; // End of onRunBatch
+
+  return (
+    <div className="space-y-8">
+      {insufficientCredits && (
+        <InsufficientCreditsModal
+          required={insufficientCredits.required}
+          creditBalance={insufficientCredits.creditBalance}
+          title={`${transformationTypes[type].title} of ${items.length || 1} image${items.length > 1 ? "s" : ""}`}
+        />
+      )}
+
+      {planLimit && <UpgradePlanModal limit={planLimit} onClose={() => setPlanLimit(null)} />}
+
+      <div className="space-y-2">
+        <Label htmlFor="batch-title">Image Title</Label>
+        <Input
+          id="batch-title"
+          className="input-field"
+          value={title}
+          disabled={isRunning}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+      </div>
+
+      {transformationTypes[type].fields.map((field) => (
+        <div key={field.name} className="space-y-2">
+          <Label htmlFor={`batch-${field.name}`}>{field.label}</Label>
+          <TransformationFieldInput
+            id={`batch-${field.name}`}
+            field={field}
+            value={values[field.name]}
+            onChange={(value) => setValues((prevState) => ({ ...prevState, [field.name]: value }))}
+            recentColors={recentColors}
+            disabled={isRunning}
+          />
+        </div>
+      ))}
+
+      <ImageUploadWidget
+        multiple
+        maxFiles={maxBatchSize}
+        onSuccess={onUploadSuccessHandler}
+        onError={() =>
+          toast({
+            title: "Something went wrong",
+            description: "Media upload failed, Please try again",
+            duration: 5000,
+            className: "error-toast",
+          })
+        }
+      >
+        {({ open }) => (
+          <div className="flex flex-col gap-4">
+            <div className="flex-between">
+              <h3 className="h3-bold text-dark">Images ({items.length}/{maxBatchSize})</h3>
+              {items.length > 0 && !isRunning && !summary && (
+                <Button type="button" variant="outline" onClick={() => setItems([])}>
+                  Clear
+                </Button>
+              )}
+            </div>
+
+            {items.length >= maxBatchSize && batchSizeLimit && !isRunning && !summary && (
+              <UpgradeNotice limit={batchSizeLimit} />
+            )}
+
+            {items.length < maxBatchSize && !isRunning && !summary && (
+              <div className="media-uploader_cta" onClick={() => open()}>
+                <div className="media-uploader_cta-image">
+                  <Image
+                    src="/assets/icons/add.svg"
+                    alt="Add Images"
+                    width={24}
+                    height={24}
+                  />
+                </div>
+                <p className="p-14-medium">Click here to upload Images</p>
+              </div>
+            )}
+          </div>
+        )}
+      </ImageUploadWidget>
+
+      {items.length > 0 && (
+        <section className="space-y-4">
+          {(isRunning || summary) && (
+            <div className="space-y-2">
+              <p className="p-16-medium">
+                {processed} / {items.length} processed
+              </p>
+              <div className="h-2 w-full overflow-hidden rounded-full bg-purple-100">
+                <div
+                  className="h-full bg-purple-gradient bg-cover transition-all"
+                  style={{ width: `${(processed / items.length) * 100}%` }}
+                />
+              </div>
+            </div>
+          )}
+
+          <ul className="collection-list">
+            {items.map((item, index) => (
+              <li key={item.publicId} className="collection-card">
+                <ProviderImage
+                  src={item.publicId}
+                  alt={`Batch image ${index + 1}`}
+                  width={item.width}
+                  height={item.height}
+                  loading="lazy"
+                  className="h-52 w-full rounded-[10px] object-cover"
+                  sizes="(max-width: 767px) 100vw, (max-width: 1279px) 50vw, 33vw"
+                />
+                <div className="flex-between">
+                  <p
+                    className={`p-16-semibold ${
+                      item.status === "failed"
+                        ? "text-red-500"
+                        : item.status === "saved"
+                          ? "text-purple-500"
+                          : "text-dark-600"
+                    }`}
+                  >
+                    {statusLabels[item.status]}
+                  </p>
+                  {item.imageId && (
+                    <Link href={`/transformations/${item.imageId}`} className="p-14-medium text-purple-400">
+                      View
+                    </Link>
+                  )}
+                </div>
+                {item.error && <p className="p-14-medium text-red-500">{item.error}</p>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {summary && (
+        <p className="p-16-medium">
+          {summary.saved} saved, {summary.failed} failed
+          {summary.refunded > 0 && ` - ${summary.refunded} credits refunded`}
+        </p>
+      )}
+
+      <Button
+        type="button"
+        className="submit-button capitalize"
+        disabled={!isReady || isRunning || !!summary}
+        onClick={onRunBatch}
+      >
+        {isRunning
+          ? "Transforming..."
+          : `Transform ${items.length} image${items.length === 1 ? "" : "s"} (${totalCost} credits)`}
+      </Button>
+    </div>
+  );
+};
+
+export default BatchTransformationForm;
@@ -0,0 +1,251 @@
+/**
+ * The `BulkActions` component is the toolbar for the images selected in the profile `Collection`.
+ *
+ * The selected images can be moved between albums, have their visibility changed, be rendered
+ * again with their current config, be downloaded as a ZIP archive or be deleted. Each action
+ * reports which images failed; those stay selected so the action can be retried.
+ */
+"use client";
+
+import { usePathname } from "next/navigation";
+import { useTransition } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { moveImagesToAlbum } from "@/lib/actions/album.actions";
+import {
+  bulkDeleteImages,
+  bulkRerunImages,
+  bulkSetImageVisibility,
+} from "@/lib/actions/bulk.actions";
+import { IImage } from "@/lib/database/models/image.model";
+
+import { AlbumItem, flattenAlbums } from "./AlbumBrowser";
+
+type BulkActionsProps = {
+  selectedIds: string[];
+  images: IImage[];
+  albums: AlbumItem[];
+  albumId?: string;
+  onComplete: (failedIds: string[]) => void;
+};
+
+const visibilityLabels: Record<ImageVisibility, string> = {
+  private: "Private",
+  unlisted: "Unlisted",
+  public: "Public",
+};
+
+/**
+ * Downloads the selected images as a ZIP archive streamed by `/api/images/download`.
+ *
+ * @returns The result for each image.
+ */
+const downloadArchive = async (imageIds: string[]): Promise<BulkActionResult[]> => {
+  const response = await fetch("/api/images/download", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ imageIds }),
+  });
+
+  if (!response.ok) {
+    const { results } = await response.json().catch(() => ({}));
+
+    if (results) return results;
+    throw new Error("The archive could not be downloaded");
+  }
+
+  const results: BulkActionResult[] = JSON.parse(
+    decodeURIComponent(response.headers.get("X-Bulk-Results") ?? "[]")
+  );
+  const blobURL = URL.createObjectURL(await response.blob());
+  const a = document.createElement("a");
+
+  a.href = blobURL;
+  a.download = "images.zip";
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+
+  // Revoked once the browser started the download
+  setTimeout(() => URL.revokeObjectURL(blobURL), 1000);
+
+  return results;
+}; // End of downloadArchive
+
+const BulkActions = ({ selectedIds, images, albums, albumId, onComplete }: BulkActionsProps) => {
+  const pathname = usePathname();
+  const { toast } = useToast();
+  const [isPending, startTransition] = useTransition();
+
+  const getTitle = (id: string) =>
+    images.find((image) => (image._id as string) === id)?.title ?? "Unknown image";
+
+  /**
+   * Shows the outcome of a bulk action and keeps the failed images selected.
+   */
+  const report = (results: BulkActionResult[] | undefined, done: string) => {
+    const failed = (results ?? []).filter((result) => !result.ok);
+    const succeeded = (results?.length ?? 0) - failed.length;
+
+    toast({
+      title: `${succeeded} of ${results?.length ?? 0} images ${done}`,
+      description: failed.length
+        ? failed.slice(0, 3).map((result) => `${getTitle(result.id)}: ${result.error}`).join("\n") +
+          (failed.length > 3 ? `\nand ${failed.length - 3} more` : "")
+        : undefined,
+      duration: 5000,
+      className: failed.length ? "error-toast" : "success-toast",
+    });
+
+    onComplete(failed.map((result) => result.id));
+  };
+
+  /**
+   * Runs a bulk action and reports its per-image results.
+   */
+  const run = (action: () => Promise<BulkActionResult[] | undefined>, done: string) =>
+    startTransition(async () => {
+      try {
+        report(await action(), done);
+      } catch (error) {
+        toast({
+          title: "Something went wrong",
+          description: "The action could not be applied, Please try again",
+          duration: 5000,
+          className: "error-toast",
+        });
+      }
+    }); // End of run
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-4">
+      <p className="p-16-medium text-dark-600">{selectedIds.length} selected</p>
+
+      {albums.length > 0 && (
+        <Select
+          disabled={isPending}
+          onValueChange={(toAlbumId) =>
+            run(() => moveImagesToAlbum({ imageIds: selectedIds, fromAlbumId: albumId, toAlbumId, path: pathname }), "moved")
+          }
+        >
+          <SelectTrigger className="select-field w-60">
+            <SelectValue placeholder="Move to album" />
+          </SelectTrigger>
+          <SelectContent>
+            {flattenAlbums(albums)
+              .filter((album) => album._id !== albumId)
+              .map((album) => (
+                <SelectItem key={album._id} value={album._id} className="select-item">
+                  {" ".repeat(album.ancestors.length * 2)}{album.name}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {albumId && (
+        <Button
+          type="button"
+          variant="outline"
+          disabled={isPending}
+          onClick={() =>
+            run(() => moveImagesToAlbum({ imageIds: selectedIds, fromAlbumId: albumId, path: pathname }), "removed from the album")
+          }
+        >
+          Remove from album
+        </Button>
+      )}
+
+      <Select
+        disabled={isPending}
+        onValueChange={(visibility) =>
+          run(
+            () => bulkSetImageVisibility({ imageIds: selectedIds, visibility: visibility as ImageVisibility, path: pathname }),
+            `made ${visibility}`
+          )
+        }
+      >
+        <SelectTrigger className="select-field w-48">
+          <SelectValue placeholder="Set visibility" />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(visibilityLabels).map(([value, label]) => (
+            <SelectItem key={value} value={value} className="select-item">
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        type="button"
+        variant="outline"
+        disabled={isPending}
+        onClick={() => run(() => bulkRerunImages(selectedIds, pathname), "rendered again")}
+      >
+        Re-run
+      </Button>
+
+      <Button
+        type="button"
+        variant="outline"
+        disabled={isPending}
+        onClick={() =>
+          run(() => downloadArchive(selectedIds), "downloaded")
+        }
+      >
+        Download ZIP
+      </Button>
+
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button type="button" variant="destructive" disabled={isPending}>
+            Delete
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent className="flex flex-col gap-10">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selectedIds.length} images?</AlertDialogTitle>
+            <AlertDialogDescription className="p-16-regular">
+              This will permanently delete the selected images
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="border bg-red-500 text-white hover:bg-red-600"
+              onClick={() => run(() => bulkDeleteImages(selectedIds, pathname), "deleted")}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Button type="button" variant="ghost" disabled={isPending} onClick={() => onComplete([])}>
+        Clear selection
+      </Button>
+    </div>
+  );
+};
+
+export default BulkActions;
@@ -9,15 +9,11 @@ import { checkoutCredits } from "@/lib/actions/transactions.actions";
 import { Button } from "./ui/button";
 
 const Checkout = ({
-  plan,
-  amount,
-  credits,
-  buyerId,
+  planId,
+  mode = "payment",
 }: {
-  plan: string;
-  amount: number;
-  credits: number;
-  buyerId: string;
+  planId: number;
+  mode?: "payment" | "subscription";
 }) => {
   const { toast } = useToast();
 
@@ -48,14 +44,7 @@ const Checkout = ({
   }, []);
 
   const onCheckout = async () => {
-    const transaction = {
-      plan,
-      amount,
-      credits,
-      buyerId,
-    };
-
-    await checkoutCredits(transaction);
+    await checkoutCredits({ planId, mode });
   };
 
   return (
@@ -66,7 +55,7 @@ const Checkout = ({
           role="link"
           className="w-full rounded-full bg-purple-gradient bg-cover"
         >
-          Buy Credit
+          {mode === "subscription" ? "Subscribe" : "Buy Credit"}
         </Button>
       </section>
     </form>
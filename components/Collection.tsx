@@ -2,10 +2,16 @@
  * The `Collection` component represents a collection of images, with optional search functionality and pagination.
  *
  * @param {Object} props - The component props.
- * @param {boolean} [props.hasSearch=false] - Determines whether to display the search functionality.
+ * @param {boolean} [props.hasSearch=false] - Determines whether to display the search field and its filters.
  * @param {IImage[]} props.images - An array of `IImage` objects representing the images in the collection.
  * @param {number} [props.totalPages=1] - The total number of pages in the collection.
  * @param {number} props.page - The current page number.
+ * @param {string | null} [props.nextCursor] - The cursor of the next page, null on the last page.
+ * @param {string | null} [props.prevCursor] - The cursor of the previous page, null on the first page.
+ * @param {Function} [props.loadMore] - Loads the page after a cursor. When set, the collection scrolls infinitely instead of showing numbered pages.
+ * @param {AlbumItem[]} [props.albums] - The albums of the signed-in user. When set, the album browser is shown and images can be selected for bulk actions and dragged into albums.
+ * @param {string} [props.albumId] - The album being viewed.
+ * @param {string[]} [props.tags] - The tags offered as filters.
  * @returns {JSX.Element} - The rendered `Collection` component.
  */
 "use client";
@@ -13,7 +19,7 @@
 import Image from "next/image";
 import Link from "next/link";
 import { useSearchParams, useRouter } from "next/navigation";
-import { CldImage } from "next-cloudinary";
+import { useEffect, useRef, useState } from "react";
 
 import {
     Pagination,
@@ -21,50 +27,150 @@ import {
     PaginationNext,
     PaginationPrevious,
 } from "@/components/ui/pagination";
-import { transformationTypes } from "@/constants";
+import { pipelineTransformation, transformationTypes } from "@/constants";
 import { IImage } from "@/lib/database/models/image.model";
-import { formUrlQuery } from "@/lib/utils";
+import { formUrlQuery, removeKeysFromQuery } from "@/lib/utils";
 
 import { Button } from "@/components/ui/button";
-import { Search } from "@/components/Search";
+
+import AlbumBrowser, { ALBUM_DRAG_TYPE, AlbumItem } from "@/components/AlbumBrowser";
+import BulkActions from "@/components/BulkActions";
+import { Search, SearchFilters, TagFilters } from "@/components/Search";
+import ProviderImage from "./ProviderImage";
 export const Collection = ({
     hasSearch = false,
     images,
     totalPages = 1,
     page,
+    nextCursor = null,
+    prevCursor = null,
+    loadMore,
+    albums,
+    albumId,
+    tags,
 }: {
     images: IImage[];
     totalPages?: number;
     page: number;
     hasSearch?: boolean;
+    nextCursor?: string | null;
+    prevCursor?: string | null;
+    loadMore?: (cursor: string) => Promise<{ data: IImage[]; nextCursor: string | null } | undefined>;
+    albums?: AlbumItem[];
+    albumId?: string;
+    tags?: string[];
 }) => {
     const router = useRouter();
     const searchParams = useSearchParams();
 
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [items, setItems] = useState(images);
+    const [cursor, setCursor] = useState(nextCursor);
+    const [isLoading, setIsLoading] = useState(false);
+    const sentinelRef = useRef<HTMLDivElement>(null);
+
+    // A new first page, e.g. after the search changed or a bulk action; images that are gone are unselected
+    useEffect(() => {
+        setItems(images);
+        setCursor(nextCursor);
+        setSelectedIds((current) => current.filter((id) => images.some((image) => image._id === id)));
+    }, [images, nextCursor]);
+
+    // INFINITE SCROLL: load the next page when the end of the list comes into view
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+
+        if (!loadMore || !cursor || !sentinel || isLoading) return;
+
+        const observer = new IntersectionObserver(async ([entry]) => {
+            if (!entry.isIntersecting) return;
+
+            observer.disconnect();
+            setIsLoading(true);
+
+            try {
+                const nextPage = await loadMore(cursor);
+
+                if (nextPage) {
+                    setItems((current) => [...current, ...nextPage.data]);
+                    setCursor(nextPage.nextCursor);
+                }
+            } finally {
+                setIsLoading(false);
+            }
+        }, { rootMargin: "200px" });
+
+        observer.observe(sentinel);
+
+        return () => observer.disconnect();
+    }, [loadMore, cursor, isLoading]);
+
     // PAGINATION HANDLER
     const onPageChange = (action: string) => {
         const pageValue = action === "next" ? Number(page) + 1 : Number(page) - 1;
+        const pageCursor = action === "next" ? nextCursor : prevCursor;
 
-        const newUrl = formUrlQuery({
-            searchParams: searchParams.toString(),
-            key: "page",
-            value: pageValue,
-        });
+        const params = new URLSearchParams(searchParams.toString());
+        params.set("page", String(pageValue));
+
+        // Back on the first page the cursor is dropped, so it always shows the latest images
+        const newUrl = pageValue <= 1 || !pageCursor
+            ? removeKeysFromQuery({ searchParams: searchParams.toString(), keysToRemove: ["page", "cursor"] })
+            : formUrlQuery({ searchParams: params.toString(), key: "cursor", value: pageCursor });
 
         router.push(newUrl, { scroll: false });
     };
 
+    const toggleSelected = (imageId: string) =>
+        setSelectedIds((current) =>
+            current.includes(imageId) ? current.filter((id) => id !== imageId) : [...current, imageId]
+        );
+
+    // Dragging a selected image drags the whole selection
+    const onDragStart = (event: React.DragEvent, imageId: string) => {
+        const imageIds = selectedIds.includes(imageId) ? selectedIds : [imageId];
+
+        event.dataTransfer.setData(ALBUM_DRAG_TYPE, JSON.stringify(imageIds));
+        event.dataTransfer.effectAllowed = "move";
+    };
+
     return (
         <>
+            {albums && <AlbumBrowser albums={albums} albumId={albumId} />}
+
             <div className="collection-heading">
                 <h2 className="h2-bold text-dark-600">Recent Edits</h2>
                 {hasSearch && <Search />}
             </div>
 
-            {images.length > 0 ? (
+            {hasSearch ? (
+                <SearchFilters tags={tags} />
+            ) : (
+                <div className="mb-6">
+                    <TagFilters tags={tags} />
+                </div>
+            )}
+
+            {albums && selectedIds.length > 0 && (
+                <BulkActions
+                    selectedIds={selectedIds}
+                    images={items}
+                    albums={albums}
+                    albumId={albumId}
+                    onComplete={setSelectedIds}
+                />
+            )}
+
+            {items.length > 0 ? (
                 <ul className="collection-list">
-                    {images.map((image) => (
-                        <Card image={image} key={image._id as string} />
+                    {items.map((image) => (
+                        <Card
+                            image={image}
+                            key={image._id as string}
+                            isSelected={albums ? selectedIds.includes(image._id as string) : undefined}
+                            onToggleSelected={() => toggleSelected(image._id as string)}
+                            onDragStart={albums ? (event) => onDragStart(event, image._id as string) : undefined}
+                        />
                     ))}
                 </ul>
             ) : (
@@ -73,11 +179,17 @@ export const Collection = ({
                 </div>
             )}
 
-            {totalPages > 1 && (
+            {loadMore && cursor && (
+                <div ref={sentinelRef} className="flex-center mt-10 p-16-medium text-dark-400">
+                    {isLoading && "Loading..."}
+                </div>
+            )}
+
+            {!loadMore && (prevCursor || nextCursor) && (
                 <Pagination className="mt-10">
                     <PaginationContent className="flex w-full">
                         <Button
-                            disabled={Number(page) <= 1}
+                            disabled={!prevCursor}
                             className="collection-btn"
                             onClick={() => onPageChange("prev")}
                         >
@@ -85,13 +197,13 @@ export const Collection = ({
                         </Button>
 
                         <p className="flex-center p-16-medium w-fit flex-1">
-                            {page} / {totalPages}
+                            {page} / {Math.max(page, totalPages)}
                         </p>
 
                         <Button
                             className="button w-32 bg-purple-gradient bg-cover text-white"
                             onClick={() => onPageChange("next")}
-                            disabled={Number(page) >= totalPages}
+                            disabled={!nextCursor}
                         >
                             <PaginationNext className="hover:bg-transparent hover:text-white" />
                         </Button>
@@ -102,11 +214,30 @@ export const Collection = ({
     );
 };
 
-const Card = ({ image }: { image: IImage }) => {
+/**
+ * An image of the collection. Cards are selectable and draggable when the album browser is shown.
+ */
+const Card = ({ image, isSelected, onToggleSelected, onDragStart }: {
+    image: IImage;
+    isSelected?: boolean;
+    onToggleSelected?: () => void;
+    onDragStart?: (event: React.DragEvent) => void;
+}) => {
+    const isSelectable = isSelected !== undefined;
+
     return (
-        <li>
+        <li className="relative" draggable={!!onDragStart} onDragStart={onDragStart}>
+            {isSelectable && (
+                <input
+                    type="checkbox"
+                    aria-label={`Select ${image.title}`}
+                    className="absolute left-4 top-4 z-10 size-5 accent-purple-500"
+                    checked={isSelected}
+                    onChange={onToggleSelected}
+                />
+            )}
             <Link href={`/transformations/${image._id}`} className="collection-card">
-                <CldImage
+                <ProviderImage
                     src={image.publicId}
                     alt={image.title}
                     width={image.width}
@@ -121,9 +252,9 @@ const Card = ({ image }: { image: IImage }) => {
                         {image.title}
                     </p>
                     <Image
-                        src={`/assets/icons/${transformationTypes[
+                        src={`/assets/icons/${(transformationTypes[
                                 image.transformationType as TransformationTypeKey
-                            ].icon
+                            ] ?? pipelineTransformation).icon
                             }`}
                         alt={image.title}
                         width={24}
@@ -0,0 +1,111 @@
+/**
+ * The `ColorPicker` component picks the replacement color of Object Recolor.
+ *
+ * Colors can be typed as hex, `rgb()` or a CSS name, chosen with the browser's color picker, or
+ * picked from the dominant colors of the uploaded image and the user's recently used colors.
+ * Typed values are kept as is; `normalizeColor` turns them into the hex the transformation takes.
+ */
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Input } from "@/components/ui/input";
+import { getImagePalette } from "@/lib/actions/image.actions";
+import { normalizeColor } from "@/lib/colors";
+import { cn } from "@/lib/utils";
+
+type ColorPickerProps = {
+  value?: string;
+  onChange: (value: string) => void;
+  publicId?: string;
+  // The saved image `publicId` is the original of, if any
+  imageId?: string;
+  recentColors?: string[];
+  disabled?: boolean;
+};
+
+const Swatches = ({ title, colors, value, onPick, disabled }: {
+  title: string;
+  colors: string[];
+  value?: string;
+  onPick: (color: string) => void;
+  disabled?: boolean;
+}) => (
+  <div className="flex flex-col gap-2">
+    <p className="p-14-medium text-dark-400">{title}</p>
+    <div className="flex flex-wrap gap-2">
+      {colors.map((color) => (
+        <button
+          key={color}
+          type="button"
+          title={`#${color}`}
+          aria-label={`Use #${color}`}
+          disabled={disabled}
+          onClick={() => onPick(`#${color}`)}
+          className={cn(
+            "size-8 rounded-full border border-dark-400/30 shadow-sm",
+            normalizeColor(value) === color && "ring-2 ring-purple-400 ring-offset-2"
+          )}
+          style={{ backgroundColor: `#${color}` }}
+        />
+      ))}
+    </div>
+  </div>
+);
+
+const ColorPicker = ({ value = "", onChange, publicId, imageId, recentColors = [], disabled }: ColorPickerProps) => {
+  const [palette, setPalette] = useState<string[]>([]);
+  const color = normalizeColor(value);
+
+  useEffect(() => {
+    if (!publicId) {
+      setPalette([]);
+      return;
+    }
+
+    let isCurrent = true;
+
+    getImagePalette({ imageId, publicId })
+      .then((colors) => isCurrent && setPalette(colors ?? []))
+      .catch(() => isCurrent && setPalette([]));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [publicId, imageId]);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-3">
+        <input
+          type="color"
+          aria-label="Pick a color"
+          value={`#${color ?? "000000"}`.toLowerCase()}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value.toUpperCase())}
+          className="size-[54px] shrink-0 cursor-pointer rounded-[16px] border-0 bg-transparent p-0"
+        />
+        <Input
+          value={value}
+          className="input-field"
+          placeholder="#FF6347, rgb(255, 99, 71) or tomato"
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      </div>
+
+      {value.trim() && !color && (
+        <p className="p-14-medium text-red-500">Unknown color, use hex, rgb() or a color name</p>
+      )}
+
+      {palette.length > 0 && (
+        <Swatches title="From the image" colors={palette} value={value} onPick={onChange} disabled={disabled} />
+      )}
+      {recentColors.length > 0 && (
+        <Swatches title="Recently used" colors={recentColors} value={value} onPick={onChange} disabled={disabled} />
+      )}
+    </div>
+  );
+};
+
+export default ColorPicker;
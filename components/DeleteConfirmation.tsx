@@ -20,6 +20,7 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/use-toast";
 import { deleteImage } from "@/lib/actions/image.actions";
 
 
@@ -27,6 +28,7 @@ import { Button } from "./ui/button";
 
 export const DeleteConfirmation = ({ imageId }: { imageId: string }) => {
   const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
 
   return (
     <AlertDialog>
@@ -56,7 +58,17 @@ export const DeleteConfirmation = ({ imageId }: { imageId: string }) => {
             className="border bg-red-500 text-white hover:bg-red-600"
             onClick={() =>
               startTransition(async () => {
-                await deleteImage(imageId);
+                try {
+                  await deleteImage(imageId);
+                } catch (error) {
+                  // A successful delete redirects, so only failures end up here
+                  toast({
+                    title: "Something went wrong",
+                    description: "The image could not be deleted, Please try again",
+                    duration: 5000,
+                    className: "error-toast",
+                  });
+                }
               })
             }
           >
@@ -0,0 +1,176 @@
+/**
+ * The `ExportDialog` component lets the user download a transformed image in another format,
+ * quality and size.
+ *
+ * The file is produced by the `/api/images/[id]/export` route. Images with a removed background
+ * can keep their transparency in the formats that support it.
+ */
+"use client";
+
+import Image from "next/image";
+import { useSearchParams } from "next/navigation";
+import { useState } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { exportFormats, exportQualities, maxExportDimension } from "@/constants";
+import { hasTransparentBackground } from "@/lib/utils";
+
+type ExportFormat = keyof typeof exportFormats;
+type ExportQuality = keyof typeof exportQualities;
+
+// The longest side of the exported image, "original" keeps the size of the image
+const exportSizes = ["original", "2048", "1024", "512"] as const;
+
+type ExportDialogProps = {
+  image: {
+    _id: string;
+    width?: number;
+    height?: number;
+    transformationType?: string;
+    steps?: { type: string }[];
+  };
+};
+
+const ExportDialog = ({ image }: ExportDialogProps) => {
+  const searchParams = useSearchParams();
+  const [format, setFormat] = useState<ExportFormat>("png");
+  const [quality, setQuality] = useState<ExportQuality>("high");
+  const [size, setSize] = useState<(typeof exportSizes)[number]>("original");
+  const [transparent, setTransparent] = useState(true);
+
+  const canBeTransparent = hasTransparentBackground(image);
+  const longestSide = Math.max(image.width ?? 0, image.height ?? 0);
+
+  /**
+   * Downloads the image through the export route with the selected options.
+   */
+  const exportHandler = () => {
+    const params = new URLSearchParams({ format, quality });
+
+    if (size !== "original") {
+      // Resizing fits the image in the box, so the same bound works for both sides
+      params.set("width", size);
+      params.set("height", size);
+    }
+    if (canBeTransparent) params.set("transparent", String(transparent && exportFormats[format].supportsTransparency));
+
+    const shareToken = searchParams.get("share");
+    if (shareToken) params.set("share", shareToken);
+
+    const a = document.createElement("a");
+    a.href = `/api/images/${image._id}/export?${params}`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+  }; // End of exportHandler
+
+  return (
+    <AlertDialog>
+      <AlertDialogTrigger asChild>
+        <button type="button" className="download-btn">
+          <Image
+            src="/assets/icons/download.svg"
+            alt="Download"
+            width={24}
+            height={24}
+            className="pb-[6px]"
+          />
+        </button>
+      </AlertDialogTrigger>
+
+      <AlertDialogContent className="flex flex-col gap-6">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Download image</AlertDialogTitle>
+          <AlertDialogDescription className="p-16-regular">
+            Pick the format, quality and size of the file
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="flex flex-col gap-4">
+          <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+            <SelectTrigger className="select-field">
+              <SelectValue placeholder="Format" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(exportFormats).map(([value, { label }]) => (
+                <SelectItem key={value} value={value} className="select-item">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {/* PNG is lossless, the quality only applies to the other formats */}
+          {format !== "png" && (
+            <Select value={quality} onValueChange={(value) => setQuality(value as ExportQuality)}>
+              <SelectTrigger className="select-field">
+                <SelectValue placeholder="Quality" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(exportQualities).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value} className="select-item">
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          <Select value={size} onValueChange={(value) => setSize(value as (typeof exportSizes)[number])}>
+            <SelectTrigger className="select-field">
+              <SelectValue placeholder="Size" />
+            </SelectTrigger>
+            <SelectContent>
+              {exportSizes
+                .filter((option) => option === "original" || !longestSide || Number(option) < longestSide)
+                .map((option) => (
+                  <SelectItem key={option} value={option} className="select-item">
+                    {option === "original"
+                      ? `Original${longestSide ? ` (${Math.min(longestSide, maxExportDimension)}px)` : ""}`
+                      : `${option}px`}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+
+          {canBeTransparent && (
+            <label className="p-14-medium flex items-center gap-2 text-dark-600">
+              <input
+                type="checkbox"
+                checked={transparent && exportFormats[format].supportsTransparency}
+                disabled={!exportFormats[format].supportsTransparency}
+                onChange={(e) => setTransparent(e.target.checked)}
+              />
+              Transparent background
+              {!exportFormats[format].supportsTransparency && ` (not available in ${exportFormats[format].label})`}
+            </label>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={exportHandler}>Download</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default ExportDialog;
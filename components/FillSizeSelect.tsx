@@ -0,0 +1,107 @@
+/**
+ * The `FillSizeSelect` component picks the output size of a Generative Fill: an aspect ratio preset,
+ * the exact size of a social platform or, with `allowCustom`, a ratio or size typed by the user.
+ *
+ * The value is the string stored as the image's `aspectRatio`, see `resolveFillSize`.
+ */
+"use client";
+
+import { useState } from "react";
+
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { aspectRatioOptions, maxFillDimension, minFillDimension, socialSizePresets } from "@/constants";
+
+type FillSizeSelectProps = {
+  value?: string;
+  onValueChange: (value: string) => void;
+  allowCustom?: boolean;
+  disabled?: boolean;
+};
+
+const CUSTOM_VALUE = "custom";
+
+const socialSizes = Object.values(socialSizePresets).map(({ label, width, height }) => ({
+  value: `${width}x${height}`,
+  label: `${label} (${width}×${height})`,
+}));
+
+const isPreset = (value?: string) =>
+  !!value && (value in aspectRatioOptions || socialSizes.some((size) => size.value === value));
+
+const FillSizeSelect = ({ value, onValueChange, allowCustom = false, disabled }: FillSizeSelectProps) => {
+  const [isCustom, setIsCustom] = useState(allowCustom && !!value && !isPreset(value));
+
+  const onSelectHandler = (selected: string) => {
+    if (selected === CUSTOM_VALUE) {
+      setIsCustom(true);
+      return onValueChange("");
+    }
+
+    setIsCustom(false);
+    onValueChange(selected);
+  }; // End of onSelectHandler
+
+  return (
+    <div className="flex flex-col gap-2">
+      <Select value={isCustom ? CUSTOM_VALUE : value} onValueChange={onSelectHandler} disabled={disabled}>
+        <SelectTrigger className="select-field">
+          <SelectValue placeholder="Select Size" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectLabel>Aspect ratios</SelectLabel>
+            {Object.entries(aspectRatioOptions).map(([key, { label }]) => (
+              <SelectItem key={key} value={key} className="select-item">
+                {label}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+          <SelectSeparator />
+          <SelectGroup>
+            <SelectLabel>Social platforms</SelectLabel>
+            {socialSizes.map(({ value, label }) => (
+              <SelectItem key={value} value={value} className="select-item">
+                {label}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+          {allowCustom && (
+            <>
+              <SelectSeparator />
+              <SelectItem value={CUSTOM_VALUE} className="select-item">
+                Custom ratio or size
+              </SelectItem>
+            </>
+          )}
+        </SelectContent>
+      </Select>
+
+      {isCustom && (
+        <>
+          <Input
+            value={value ?? ""}
+            className="input-field"
+            placeholder="e.g. 5:2 or 1200x628"
+            disabled={disabled}
+            onChange={(e) => onValueChange(e.target.value)}
+          />
+          <p className="p-14-medium text-dark-400">
+            A ratio is 1000px wide, a size is used as is, from {minFillDimension} to {maxFillDimension}px per side
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FillSizeSelect;
@@ -0,0 +1,203 @@
+/**
+ * The `ImageSharing` component lets the author of an image choose who can view it.
+ *
+ * Unlisted images can be shared with links that optionally expire and can be revoked at any time.
+ */
+"use client";
+
+import { useState, useTransition } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { setImageVisibility } from "@/lib/actions/image.actions";
+import { createShareLink, revokeShareLink } from "@/lib/actions/share.actions";
+
+type ShareLinkItem = {
+  _id: string;
+  token: string;
+  expiresAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+};
+
+const visibilityOptions: Record<ImageVisibility, { label: string; description: string }> = {
+  private: { label: "Private", description: "Only you can view this image" },
+  unlisted: { label: "Unlisted", description: "Only you and people with a share link can view this image" },
+  public: { label: "Public", description: "Anyone can view this image and it is shown in the community feed" },
+};
+
+const expiryOptions = [
+  { value: "never", label: "Never expires" },
+  { value: "1", label: "Expires in 1 day" },
+  { value: "7", label: "Expires in 7 days" },
+  { value: "30", label: "Expires in 30 days" },
+];
+
+const getShareLinkStatus = (shareLink: ShareLinkItem) => {
+  if (shareLink.revokedAt) return "Revoked";
+  if (shareLink.expiresAt && new Date(shareLink.expiresAt) <= new Date()) return "Expired";
+  return shareLink.expiresAt ? `Expires ${new Date(shareLink.expiresAt).toLocaleDateString()}` : "Never expires";
+};
+
+const ImageSharing = ({
+  imageId,
+  visibility,
+  shareLinks,
+}: {
+  imageId: string;
+  visibility: ImageVisibility;
+  shareLinks: ShareLinkItem[];
+}) => {
+  const { toast } = useToast();
+  const [expiry, setExpiry] = useState("never");
+  const [isPending, startTransition] = useTransition();
+
+  /**
+   * Runs a sharing action and reports a failure with a toast.
+   */
+  const run = (action: () => Promise<unknown>, failure: string) =>
+    startTransition(async () => {
+      try {
+        await action();
+      } catch (error) {
+        toast({
+          title: "Something went wrong",
+          description: failure,
+          duration: 5000,
+          className: "error-toast",
+        });
+      }
+    });
+
+  const getShareUrl = (token: string) =>
+    `${window.location.origin}/transformations/${imageId}?share=${token}`;
+
+  const onCopyHandler = async (token: string) => {
+    await navigator.clipboard.writeText(getShareUrl(token));
+    toast({
+      title: "Link copied",
+      description: "Anyone with this link can view the image",
+      duration: 5000,
+      className: "success-toast",
+    });
+  };
+
+  return (
+    <section className="mt-10 space-y-6 border-t border-dark-400/15 pt-10">
+      <h3 className="h3-bold text-dark-600">Sharing</h3>
+
+      <div className="space-y-2">
+        <Label>Visibility</Label>
+        <Select
+          value={visibility}
+          disabled={isPending}
+          onValueChange={(value) =>
+            run(
+              () => setImageVisibility({
+                imageId,
+                visibility: value as ImageVisibility,
+                path: `/transformations/${imageId}`,
+              }),
+              "The visibility could not be changed, Please try again"
+            )
+          }
+        >
+          <SelectTrigger className="select-field">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(visibilityOptions).map(([value, option]) => (
+              <SelectItem key={value} value={value} className="select-item">
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="p-14-medium text-dark-400">{visibilityOptions[visibility].description}</p>
+      </div>
+
+      {visibility === "unlisted" && (
+        <div className="space-y-4">
+          <div className="flex gap-4">
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger className="select-field">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {expiryOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value} className="select-item">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              className="collection-btn"
+              disabled={isPending}
+              onClick={() =>
+                run(
+                  () => createShareLink({
+                    imageId,
+                    expiresInDays: expiry === "never" ? undefined : Number(expiry),
+                  }),
+                  "The share link could not be created, Please try again"
+                )
+              }
+            >
+              Create Link
+            </Button>
+          </div>
+
+          {shareLinks.length > 0 && (
+            <ul className="space-y-2">
+              {shareLinks.map((shareLink) => {
+                const status = getShareLinkStatus(shareLink);
+                const isActive = status !== "Revoked" && status !== "Expired";
+
+                return (
+                  <li
+                    key={shareLink._id}
+                    className="p-14-medium flex-between gap-4 rounded-[16px] border border-purple-200/20 p-4"
+                  >
+                    <div className="min-w-0">
+                      <code className="block truncate">?share={shareLink.token}</code>
+                      <p className={isActive ? "text-dark-400" : "text-red-500"}>{status}</p>
+                    </div>
+                    {isActive && (
+                      <div className="flex gap-2">
+                        <Button type="button" variant="outline" onClick={() => onCopyHandler(shareLink.token)}>
+                          Copy
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="destructive"
+                          disabled={isPending}
+                          onClick={() =>
+                            run(() => revokeShareLink(shareLink._id), "The share link could not be revoked")
+                          }
+                        >
+                          Revoke
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ImageSharing;
@@ -0,0 +1,81 @@
+/**
+ * The `ImageUploadWidget` component opens the upload dialog of the configured image provider.
+ *
+ * With Cloudinary it renders `CldUploadWidget`. With the local provider it opens a file picker and
+ * uploads the files to `/api/uploads`, which answers with the same `info` as a Cloudinary upload.
+ */
+"use client";
+
+import { CldUploadWidget } from "next-cloudinary";
+import { useRef } from "react";
+
+import { imageProvider } from "@/lib/providers/urls";
+
+type ImageUploadWidgetProps = {
+  multiple?: boolean;
+  maxFiles?: number;
+  onSuccess: (result: any) => void;
+  onError: () => void;
+  children: (widget: { open: () => void }) => JSX.Element;
+};
+
+const ImageUploadWidget = ({ multiple = false, maxFiles, onSuccess, onError, children }: ImageUploadWidgetProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  if (imageProvider === "cloudinary") {
+    return (
+      <CldUploadWidget
+        uploadPreset="imagegenie"
+        options={{
+          multiple,
+          maxFiles,
+          resourceType: "image",
+        }}
+        onSuccess={onSuccess}
+        onError={onError}
+      >
+        {({ open }) => children({ open: () => open() })}
+      </CldUploadWidget>
+    );
+  }
+
+  /**
+   * Uploads the picked files one after the other and reports each of them.
+   */
+  const onFilesSelected = async (files: FileList | null) => {
+    const selected = Array.from(files ?? []).slice(0, maxFiles);
+
+    for (const file of selected) {
+      const body = new FormData();
+      body.append("file", file);
+
+      try {
+        const response = await fetch("/api/uploads", { method: "POST", body });
+
+        if (!response.ok) throw new Error(`Upload failed (${response.status})`);
+
+        onSuccess(await response.json());
+      } catch (error) {
+        onError();
+      }
+    }
+
+    if (inputRef.current) inputRef.current.value = "";
+  }; // End of onFilesSelected
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple={multiple}
+        className="hidden"
+        onChange={(e) => onFilesSelected(e.target.files)}
+      />
+      {children({ open: () => inputRef.current?.click() })}
+    </>
+  );
+};
+
+export default ImageUploadWidget;
@@ -1,3 +1,11 @@
+/**
+ * The `InsufficientCreditsModal` component tells the user their balance cannot cover a transformation
+ * and offers to buy credits.
+ *
+ * @param required - The credits the transformation costs, see `getTransformationCost`.
+ * @param creditBalance - The user's balance.
+ * @param title - What is being paid for, e.g. the title of the transformation type.
+ */
 "use client";
 
 import Image from "next/image";
@@ -14,7 +22,13 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-export const InsufficientCreditsModal = () => {
+type InsufficientCreditsModalProps = {
+  required?: number;
+  creditBalance?: number;
+  title?: string;
+};
+
+export const InsufficientCreditsModal = ({ required, creditBalance, title }: InsufficientCreditsModalProps) => {
   const router = useRouter();
 
   return (
@@ -49,6 +63,12 @@ export const InsufficientCreditsModal = () => {
           </AlertDialogTitle>
 
           <AlertDialogDescription className="p-16-regular py-3">
+            {required !== undefined && (
+              <>
+                {title ?? "This transformation"} costs {required} credit{required === 1 ? "" : "s"}
+                {creditBalance !== undefined && ` and you have ${creditBalance}`}.{" "}
+              </>
+            )}
             No worries, though - you can keep enjoying our services by grabbing
             more credits.
           </AlertDialogDescription>
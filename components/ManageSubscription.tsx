@@ -0,0 +1,138 @@
+/**
+ * Components for managing the signed-in user's subscription on the credits page.
+ *
+ * `ManageSubscription` shows the active plan with its renewal date and lets the user cancel it at the
+ * end of the billing period. `ChangePlanButton` switches the active subscription to another plan.
+ */
+"use client";
+
+import { useTransition } from "react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/components/ui/use-toast";
+import { cancelSubscription, changeSubscriptionPlan } from "@/lib/actions/subscription.actions";
+
+import { Button } from "./ui/button";
+
+export const ManageSubscription = ({
+  planName,
+  currentPeriodEnd,
+  cancelAtPeriodEnd,
+}: {
+  planName: string;
+  currentPeriodEnd?: string;
+  cancelAtPeriodEnd: boolean;
+}) => {
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+  const periodEnd = currentPeriodEnd ? new Date(currentPeriodEnd).toLocaleDateString() : null;
+
+  const onCancel = () =>
+    startTransition(async () => {
+      try {
+        await cancelSubscription();
+        toast({
+          title: "Subscription canceled",
+          description: `Your plan stays active until ${periodEnd ?? "the end of the billing period"}`,
+          duration: 5000,
+          className: "success-toast",
+        });
+      } catch (error) {
+        toast({
+          title: "Something went wrong",
+          description: "Your subscription could not be canceled, please try again",
+          duration: 5000,
+          className: "error-toast",
+        });
+      }
+    });
+
+  return (
+    <div className="profile-balance">
+      <p className="p-14-medium md:p-16-medium">CURRENT PLAN</p>
+      <h2 className="h2-bold mt-4 text-dark-600">{planName}</h2>
+      {periodEnd && (
+        <p className="p-16-regular mt-2">
+          {cancelAtPeriodEnd ? `Ends on ${periodEnd}` : `Renews on ${periodEnd}`}
+        </p>
+      )}
+
+      {!cancelAtPeriodEnd && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button type="button" variant="outline" className="credits-btn mt-4">
+              Cancel Subscription
+            </Button>
+          </AlertDialogTrigger>
+
+          <AlertDialogContent className="flex flex-col gap-10">
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                Are you sure you want to cancel your subscription?
+              </AlertDialogTitle>
+              <AlertDialogDescription className="p-16-regular">
+                You keep your plan and credits until the end of the current billing period
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+
+            <AlertDialogFooter>
+              <AlertDialogCancel>Keep Plan</AlertDialogCancel>
+              <AlertDialogAction
+                className="border bg-red-500 text-white hover:bg-red-600"
+                onClick={onCancel}
+              >
+                {isPending ? "Canceling..." : "Cancel Subscription"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  );
+};
+
+export const ChangePlanButton = ({ planId }: { planId: number }) => {
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+
+  const onChangePlan = () =>
+    startTransition(async () => {
+      try {
+        await changeSubscriptionPlan(planId);
+        toast({
+          title: "Plan changed",
+          description: "Your new plan is active, credits are granted from the next invoice",
+          duration: 5000,
+          className: "success-toast",
+        });
+      } catch (error) {
+        toast({
+          title: "Something went wrong",
+          description: "Your plan could not be changed, please try again",
+          duration: 5000,
+          className: "error-toast",
+        });
+      }
+    });
+
+  return (
+    <Button
+      type="button"
+      className="w-full rounded-full bg-purple-gradient bg-cover"
+      disabled={isPending}
+      onClick={onChangePlan}
+    >
+      {isPending ? "Switching..." : "Switch to this Plan"}
+    </Button>
+  );
+};
@@ -0,0 +1,218 @@
+/**
+ * The `MaskPainter` component overlays a canvas on an image so the user can paint the region
+ * Object Remove or Recolor is restricted to.
+ *
+ * Regions are drawn with a brush or closed with a lasso, and stored as `MaskShape`s relative to
+ * the image size so they apply to the image at any resolution.
+ */
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { maxMaskPoints, maxMaskShapes } from "@/constants";
+
+type MaskPainterProps = {
+  value: MaskShape[];
+  onChange: (mask: MaskShape[]) => void;
+  children: React.ReactNode;
+};
+
+// Brush diameters, relative to the image width
+const brushSizes = {
+  small: { label: "Small brush", size: 0.02 },
+  medium: { label: "Medium brush", size: 0.05 },
+  large: { label: "Large brush", size: 0.1 },
+};
+
+// Points closer than this to the previous one are skipped, to keep masks short
+const MIN_POINT_DISTANCE = 0.005;
+
+const MASK_COLOR = "rgba(124, 93, 250, 0.5)";
+
+const countPoints = (mask: MaskShape[]) => mask.reduce((count, shape) => count + shape.points.length / 2, 0);
+
+/**
+ * Draws a shape on the canvas, scaling its relative points to the canvas size.
+ */
+const drawShape = (context: CanvasRenderingContext2D, shape: MaskShape) => {
+  const { width, height } = context.canvas;
+
+  context.fillStyle = MASK_COLOR;
+  context.strokeStyle = MASK_COLOR;
+  context.lineCap = "round";
+  context.lineJoin = "round";
+  context.lineWidth = (shape.size ?? 0) * width;
+
+  context.beginPath();
+
+  for (let i = 0; i < shape.points.length; i += 2) {
+    const x = shape.points[i] * width;
+    const y = shape.points[i + 1] * height;
+
+    if (i === 0) context.moveTo(x, y);
+    else context.lineTo(x, y);
+  }
+
+  if (shape.tool === "lasso") {
+    context.closePath();
+    context.fill();
+  } else if (shape.points.length === 2) {
+    context.arc(shape.points[0] * width, shape.points[1] * height, context.lineWidth / 2, 0, Math.PI * 2);
+    context.fill();
+  } else {
+    context.stroke();
+  }
+}; // End of drawShape
+
+const MaskPainter = ({ value, onChange, children }: MaskPainterProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<MaskShape["tool"]>("brush");
+  const [brushSize, setBrushSize] = useState<keyof typeof brushSizes>("medium");
+  const [current, setCurrent] = useState<MaskShape | null>(null);
+
+  const isFull = value.length >= maxMaskShapes || countPoints(value) >= maxMaskPoints;
+
+  const redraw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    [...value, ...(current ? [current] : [])].forEach((shape) => drawShape(context, shape));
+  }, [value, current]);
+
+  // Keeps the canvas resolution in line with its size on screen
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(() => {
+      canvas.width = canvas.clientWidth;
+      canvas.height = canvas.clientHeight;
+      redraw();
+    });
+
+    observer.observe(canvas);
+
+    return () => observer.disconnect();
+  }, [redraw]);
+
+  useEffect(() => {
+    redraw();
+  }, [redraw]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+
+    return [
+      Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1),
+      Math.min(Math.max((e.clientY - rect.top) / rect.height, 0), 1),
+    ];
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isFull) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setCurrent(
+      tool === "brush"
+        ? { tool, points: getPoint(e), size: brushSizes[brushSize].size }
+        : { tool, points: getPoint(e) }
+    );
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!current || countPoints(value) + current.points.length / 2 >= maxMaskPoints) return;
+
+    const [x, y] = getPoint(e);
+    const [lastX, lastY] = current.points.slice(-2);
+
+    if (Math.hypot(x - lastX, y - lastY) < MIN_POINT_DISTANCE) return;
+
+    setCurrent({ ...current, points: [...current.points, x, y] });
+  };
+
+  const onPointerUp = () => {
+    if (!current) return;
+
+    // A lasso needs at least three points to enclose a region
+    if (current.tool === "brush" || current.points.length >= 6) {
+      onChange([...value, { ...current, points: current.points.map((point) => Math.round(point * 1000) / 1000) }]);
+    }
+
+    setCurrent(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="relative">
+        {children}
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-2 size-[calc(100%-1rem)] cursor-crosshair touch-none rounded-[10px]"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={() => setCurrent(null)}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          type="button"
+          variant={tool === "brush" ? "default" : "outline"}
+          onClick={() => setTool("brush")}
+        >
+          Brush
+        </Button>
+        <Button
+          type="button"
+          variant={tool === "lasso" ? "default" : "outline"}
+          onClick={() => setTool("lasso")}
+        >
+          Lasso
+        </Button>
+
+        {tool === "brush" && (
+          <Select value={brushSize} onValueChange={(size) => setBrushSize(size as keyof typeof brushSizes)}>
+            <SelectTrigger className="select-field w-40">
+              <SelectValue placeholder="Brush size" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(brushSizes).map(([key, { label }]) => (
+                <SelectItem key={key} value={key} className="select-item">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Button type="button" variant="outline" disabled={!value.length} onClick={() => onChange(value.slice(0, -1))}>
+          Undo
+        </Button>
+        <Button type="button" variant="ghost" disabled={!value.length} onClick={() => onChange([])}>
+          Clear
+        </Button>
+      </div>
+
+      <p className="p-14-medium text-dark-400">
+        {isFull
+          ? "The mask is full, undo or clear regions to paint more"
+          : value.length
+            ? "The transformation only applies to the painted regions"
+            : "Paint over the object to restrict the transformation to it, or leave empty to use the whole image"}
+      </p>
+    </div>
+  );
+};
+
+export default MaskPainter;
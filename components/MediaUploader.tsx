@@ -1,5 +1,5 @@
 /**
- * The MediaUploader component is responsible for handling the upload of media files, such as images, to a cloud storage service (Cloudinary).
+ * The MediaUploader component is responsible for handling the upload of media files, such as images, to the configured image provider (Cloudinary or local).
  * 
  * It provides a user interface for initiating the upload process, and handles the success and error cases of the upload operation.
  * 
@@ -13,14 +13,17 @@
  * @param publicId - The public ID of the uploaded image.
  * @param image - The image data.
  * @param type - The type of the uploaded media.
+ * @param onMaskChange - When given, a region can be painted over the uploaded image with `MaskPainter`.
  */
 "use client";
 
 import { dataUrl, getImageSize } from "@/lib/utils";
 import { useToast } from "./ui/use-toast";
-import { CldImage, CldUploadWidget } from "next-cloudinary";
 import Image from "next/image";
 import { PlaceholderValue } from "next/dist/shared/lib/get-img-props";
+import ImageUploadWidget from "./ImageUploadWidget";
+import MaskPainter from "./MaskPainter";
+import ProviderImage from "./ProviderImage";
 
 /**
  * Defines the props for the MediaUploader component.
@@ -30,6 +33,8 @@ import { PlaceholderValue } from "next/dist/shared/lib/get-img-props";
  * @param publicId - The public ID of the uploaded image.
  * @param image - The image data.
  * @param type - The type of the uploaded media.
+ * @param mask - The regions painted over the uploaded image, see `MaskPainter`.
+ * @param onMaskChange - Called with the new mask; when omitted, no mask can be painted.
  */
 type MediaUploaderProps = {
     onValueChange: (value: string) => void;
@@ -37,6 +42,8 @@ type MediaUploaderProps = {
     publicId: string;
     image: string;
     type: string;
+    mask?: MaskShape[];
+    onMaskChange?: (mask: MaskShape[]) => void;
 }; // End of MediaUploaderProps
 
 const MediaUploader = (
@@ -46,6 +53,8 @@ const MediaUploader = (
         publicId,
         image,
         type,
+        mask = [],
+        onMaskChange,
     }: MediaUploaderProps) => {
 
     /**
@@ -79,7 +88,7 @@ const MediaUploader = (
 
         toast({
             title: "Success, Media uploaded successfully",
-            description: "1 credit was deducted from your account",
+            description: "Credits are only spent when you apply a transformation",
             duration: 5000,
             className: "success-toast",
         });
@@ -93,13 +102,20 @@ const MediaUploader = (
         });
     }; // End of onUploadErrorHandler
 
+    const uploadedImage = (
+        <ProviderImage
+            width={getImageSize(type, image, "width")}
+            height={getImageSize(type, image, "height")}
+            src={publicId}
+            alt="uploaded image"
+            sizes={"(max-width: 768px) 100vw, 50vw"}
+            placeholder={ dataUrl as PlaceholderValue}
+            className="media-uploader_cldImage"
+        />
+    ); // End of uploadedImage
+
     return (
-        <CldUploadWidget
-            uploadPreset="imagegenie"
-            options={{
-                multiple: false,
-                resourceType: "image",
-            }}
+        <ImageUploadWidget
             onSuccess={onUploadSuccessHandler}
             onError={onUploadErrorHandler}
         >
@@ -109,17 +125,17 @@ const MediaUploader = (
                         <h3 className="h3-bold text-dark">Original</h3>
                         {publicId ? (
                             <>
-                                <div className="cursor-pointer overflow-hidden rounded-[10px]">
-                                    <CldImage
-                                    width={getImageSize(type, image, "width")}
-                                    height={getImageSize(type, image, "height")}
-                                    src={publicId}
-                                    alt="uploaded image"
-                                    sizes={"(max-width: 768px) 100vw, 50vw"}
-                                    placeholder={ dataUrl as PlaceholderValue}
-                                    className="media-uploader_cldImage"
-                                    />
-                                </div>
+                                {onMaskChange ? (
+                                    <MaskPainter value={mask} onChange={onMaskChange}>
+                                        <div className="overflow-hidden rounded-[10px]">
+                                            {uploadedImage}
+                                        </div>
+                                    </MaskPainter>
+                                ) : (
+                                    <div className="cursor-pointer overflow-hidden rounded-[10px]">
+                                        {uploadedImage}
+                                    </div>
+                                )}
                             </>
                         ) : (
                             <div className="media-uploader_cta" onClick={() => open()}>
@@ -138,7 +154,7 @@ const MediaUploader = (
                     </div>
                 );
             }}
-        </CldUploadWidget>
+        </ImageUploadWidget>
     );
 };
 
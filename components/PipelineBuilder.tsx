@@ -0,0 +1,439 @@
+/**
+ * The `PipelineBuilder` component chains several transformations on one uploaded image.
+ *
+ * The user adds, orders and configures up to `maxPipelineSteps` steps (the `transformationTypes` a step can hold, see `isPipelineType`),
+ * applies the pipeline and gets a preview of every intermediate result. Applying charges the cost of
+ * every step, see `getPipelineCost`. The result is saved as an `Image` of type "pipeline" that records the ordered steps.
+ *
+ * Pipelines can be saved as named presets and loaded again later.
+ */
+"use client";
+
+import { PlaceholderValue } from "next/dist/shared/lib/get-img-props";
+import { useRouter } from "next/navigation";
+import { useEffect, useRef, useState, useTransition } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { maxPipelineSteps, transformationTypes } from "@/constants";
+import { addImage, updateImage } from "@/lib/actions/image.actions";
+import { createTransformationJob } from "@/lib/actions/job.actions";
+import { deletePipelinePreset, savePipelinePreset } from "@/lib/actions/pipeline.actions";
+import { watchTransformationJob } from "@/lib/jobEvents";
+import { dataUrl } from "@/lib/utils";
+import { getPipelineConfig, isPipelineStepComplete, isPipelineType } from "@/lib/pipelines";
+import { getPipelineCost } from "@/lib/pricing";
+import { getPlanTier, hasPlanTier } from "@/lib/plans";
+
+import { InsufficientCreditsModal } from "./InsufficientCreditsModal";
+import MediaUploader from "./MediaUploader";
+import ProviderImage from "./ProviderImage";
+import TransformationFieldInput from "./TransformationFieldInput";
+import { UpgradePlanModal } from "./UpgradePlanModal";
+
+// Fields of the transformation types a pipeline step holds, the other fields keep their defaults
+const STEP_FIELDS: TransformationFieldName[] = ["aspectRatio", "prompt", "color"];
+
+type PipelinePresetOption = {
+  _id: string;
+  name: string;
+  steps: PipelineStep[];
+};
+
+type PipelineBuilderProps = {
+  action: "Add" | "Update";
+  creditBalance: number;
+  planId?: number;
+  presets: PipelinePresetOption[];
+  data?: any;
+  recentColors?: string[];
+};
+
+const PipelineBuilder = ({ action, creditBalance, planId, presets, data = null, recentColors = [] }: PipelineBuilderProps) => {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [image, setImage] = useState(data);
+  const [publicId, setPublicId] = useState<string>(data?.publicId ?? "");
+  const [title, setTitle] = useState<string>(data?.title ?? "");
+  const [steps, setSteps] = useState<PipelineStep[]>(data?.steps ?? []);
+  const [appliedSteps, setAppliedSteps] = useState<PipelineStep[] | null>(data?.steps ?? null);
+  // The succeeded job whose result is saved, see `addImage`
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isApplying, startApplying] = useTransition();
+  // Whether the transformation job of the applied pipeline is still rendering, see `lib/jobs.ts`
+  const [isRendering, setIsRendering] = useState(false);
+  const stopWatchingJob = useRef<(() => void) | null>(null);
+  const [isSavingPreset, startSavingPreset] = useTransition();
+  const [insufficientCredits, setInsufficientCredits] = useState<InsufficientCreditsError | null>(() => {
+    const cheapestStep = Math.min(...Object.values(transformationTypes).map(({ cost }) => cost.credits));
+
+    return creditBalance < cheapestStep
+      ? { code: "INSUFFICIENT_CREDITS", required: cheapestStep, creditBalance }
+      : null;
+  });
+  const [planLimit, setPlanLimit] = useState<PlanLimitError | null>(null);
+  const planTier = getPlanTier(planId);
+
+  // Every step is charged for the size of the image it receives, see `getPipelineCost`
+  const cost = getPipelineCost(steps, { width: image?.width, height: image?.height });
+
+  const canApply =
+    !!publicId && steps.length > 0 && steps.every(isPipelineStepComplete) && !isApplying && !isRendering;
+
+  /** Steps editing */
+  const addStep = (type: TransformationTypeKey) =>
+    setSteps((prevState) => [...prevState, { type }]);
+
+  const updateStep = (index: number, changes: Partial<PipelineStep>) =>
+    setSteps((prevState) =>
+      prevState.map((step, i) => (i === index ? { ...step, ...changes } : step))
+    );
+
+  const removeStep = (index: number) =>
+    setSteps((prevState) => prevState.filter((_, i) => i !== index));
+
+  const moveStep = (index: number, offset: -1 | 1) =>
+    setSteps((prevState) => {
+      const target = index + offset;
+      if (target < 0 || target >= prevState.length) return prevState;
+
+      const nextState = [...prevState];
+      [nextState[index], nextState[target]] = [nextState[target], nextState[index]];
+      return nextState;
+    });
+
+  /**
+   * Charges the cost of every step and queues the job rendering them, then shows the previews of the
+   * applied steps once it succeeded. A job that fails is refunded and an error toast is shown.
+   *
+   * The `UpgradePlanModal` is shown instead when the user's plan does not grant a step or the output size.
+   */
+  const onApplyHandler = () =>
+    startApplying(async () => {
+      const applying = steps.map((step) => ({ ...step }));
+      const result = await createTransformationJob({
+        imageId: data?._id,
+        publicId,
+        type: "pipeline",
+        steps: applying,
+      });
+
+      if (!result?.job) {
+        if (result?.error?.code === "PLAN_LIMIT") setPlanLimit(result.error);
+        else if (result?.error) setInsufficientCredits(result.error);
+
+        return;
+      }
+
+      setIsRendering(true);
+
+      stopWatchingJob.current?.();
+      stopWatchingJob.current = watchTransformationJob(result.job._id, (job) => {
+        if (job.status === "succeeded") {
+          setAppliedSteps(applying);
+          setJobId(job._id);
+          setIsRendering(false);
+        }
+
+        if (job.status === "failed") {
+          setIsRendering(false);
+          toast({
+            title: "Transformation failed",
+            description: `${job.creditsRefunded} credits were refunded`,
+            duration: 5000,
+            className: "error-toast",
+          });
+        }
+      });
+    }); // End of onApplyHandler
+
+  // Stop following the transformation job when the builder is left
+  useEffect(() => () => stopWatchingJob.current?.(), []);
+
+  const onSaveHandler = async () => {
+    if (!image || !appliedSteps || (action === "Add" && !jobId)) return;
+
+    setIsSubmitting(true);
+
+    const imageData = {
+      title,
+      publicId,
+      secureURL: image.secureURL,
+      aspectRatio: undefined,
+      prompt: undefined,
+      color: undefined,
+    };
+
+    try {
+      const savedImage = action === "Add"
+        ? await addImage({ jobId: jobId!, image: imageData, path: "/" })
+        : await updateImage({
+          jobId: jobId ?? undefined,
+          image: { ...imageData, _id: data?._id },
+          path: `/transformations/${data?._id}`,
+        });
+
+      if (savedImage) router.push(`/transformations/${savedImage._id}`);
+    } catch (error) {
+      console.log(error);
+    }
+
+    setIsSubmitting(false);
+  }; // End of onSaveHandler
+
+  /** Presets */
+  const onLoadPreset = (presetId: string) => {
+    const preset = presets.find((preset) => preset._id === presetId);
+
+    if (preset) {
+      setSteps(preset.steps.map(({ type, aspectRatio, prompt, color }) => ({ type, aspectRatio, prompt, color })));
+      setPresetName(preset.name);
+    }
+  };
+
+  const onSavePreset = () =>
+    startSavingPreset(async () => {
+      try {
+        await savePipelinePreset({ name: presetName, steps });
+        toast({
+          title: "Preset saved",
+          description: `"${presetName}" can now be reused for other images`,
+          duration: 5000,
+          className: "success-toast",
+        });
+      } catch (error) {
+        toast({
+          title: "Something went wrong",
+          description: "The preset could not be saved, Please try again",
+          duration: 5000,
+          className: "error-toast",
+        });
+      }
+    });
+
+  const onDeletePreset = (presetId: string) =>
+    startSavingPreset(async () => {
+      await deletePipelinePreset(presetId);
+    });
+
+  return (
+    <div className="space-y-8">
+      {insufficientCredits && (
+        <InsufficientCreditsModal
+          required={insufficientCredits.required}
+          creditBalance={insufficientCredits.creditBalance}
+          title="This pipeline"
+        />
+      )}
+
+      {planLimit && <UpgradePlanModal limit={planLimit} onClose={() => setPlanLimit(null)} />}
+
+      <div className="space-y-2">
+        <Label htmlFor="pipeline-title">Image Title</Label>
+        <Input
+          id="pipeline-title"
+          className="input-field"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+        />
+      </div>
+
+      {/* Presets */}
+      {presets.length > 0 && (
+        <div className="space-y-2">
+          <Label>Load a Preset</Label>
+          <div className="flex gap-4">
+            <Select onValueChange={onLoadPreset}>
+              <SelectTrigger className="select-field">
+                <SelectValue placeholder="Select Preset" />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map((preset) => (
+                  <SelectItem key={preset._id} value={preset._id} className="select-item">
+                    {preset.name} ({preset.steps.length} steps)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <ul className="flex flex-wrap gap-2">
+            {presets.map((preset) => (
+              <li key={preset._id} className="flex items-center gap-2 rounded-full bg-purple-100 px-4 py-1">
+                <span className="p-14-medium">{preset.name}</span>
+                <button
+                  type="button"
+                  className="p-14-medium text-red-500"
+                  disabled={isSavingPreset}
+                  onClick={() => onDeletePreset(preset._id)}
+                >
+                  &times;
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Steps */}
+      <section className="space-y-4">
+        <h3 className="h3-bold text-dark-600">Steps ({steps.length}/{maxPipelineSteps})</h3>
+
+        <ol className="space-y-4">
+          {steps.map((step, index) => (
+            <li key={index} className="space-y-4 rounded-[16px] border border-purple-200/20 p-4 shadow-sm">
+              <div className="flex-between">
+                <p className="p-16-semibold text-dark-600">
+                  {index + 1}. {transformationTypes[step.type].title}
+                </p>
+                <div className="flex gap-2">
+                  <Button type="button" variant="outline" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                    Up
+                  </Button>
+                  <Button type="button" variant="outline" disabled={index === steps.length - 1} onClick={() => moveStep(index, 1)}>
+                    Down
+                  </Button>
+                  <Button type="button" variant="destructive" onClick={() => removeStep(index)}>
+                    Remove
+                  </Button>
+                </div>
+              </div>
+
+              {transformationTypes[step.type].fields
+                .filter((field) => STEP_FIELDS.includes(field.name))
+                .map((field) => (
+                  <TransformationFieldInput
+                    key={field.name}
+                    field={{ placeholder: field.label, ...field }}
+                    value={step[field.name as keyof PipelineStep]}
+                    onChange={(value) => updateStep(index, { [field.name]: value })}
+                    publicId={publicId || undefined}
+                    imageId={publicId === data?.publicId ? data?._id : undefined}
+                    recentColors={recentColors}
+                  />
+                ))}
+            </li>
+          ))}
+        </ol>
+
+        {steps.length < maxPipelineSteps && (
+          <Select value="" onValueChange={(value) => addStep(value as TransformationTypeKey)}>
+            <SelectTrigger className="select-field">
+              <SelectValue placeholder="Add a Step" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(transformationTypes)
+                .filter((transformation) => isPipelineType(transformation.type as TransformationTypeKey))
+                .map((transformation) => (
+                  <SelectItem
+                    key={transformation.type}
+                    value={transformation.type}
+                    className="select-item"
+                    disabled={!hasPlanTier(planTier, transformation.plan)}
+                  >
+                    {transformation.title}
+                    {!hasPlanTier(planTier, transformation.plan) && ` (${transformation.plan} plan)`}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="flex gap-4">
+          <Input
+            className="input-field"
+            placeholder="Preset name"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!presetName.trim() || steps.length === 0 || !steps.every(isPipelineStepComplete) || isSavingPreset}
+            onClick={onSavePreset}
+          >
+            Save as Preset
+          </Button>
+        </div>
+      </section>
+
+      {/* Original and step previews */}
+      <div className="media-uploader-filed">
+        <MediaUploader
+          onValueChange={setPublicId}
+          setImage={setImage}
+          publicId={publicId}
+          image={image}
+          type="pipeline"
+        />
+
+        <div className="flex flex-col gap-4">
+          <h3 className="h3-bold text-dark-600">Steps Preview</h3>
+          {publicId && appliedSteps?.length ? (
+            <ol className="space-y-4">
+              {appliedSteps.map((step, index) => {
+                const { config, width, height } = getPipelineConfig(appliedSteps.slice(0, index + 1), image);
+
+                return (
+                  <li key={index} className="space-y-2">
+                    <p className="p-14-medium">
+                      After step {index + 1}: {transformationTypes[step.type].title}
+                    </p>
+                    <ProviderImage
+                      width={width}
+                      height={height}
+                      src={publicId}
+                      alt={`Step ${index + 1}`}
+                      sizes={"(max-width: 768px) 100vw, 50vw"}
+                      placeholder={dataUrl as PlaceholderValue}
+                      className="transformed-image"
+                      {...config}
+                    />
+                  </li>
+                );
+              })}
+            </ol>
+          ) : (
+            <div className="transformed-placeholder">
+              Transformed Image
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-4">
+        <Button
+          type="button"
+          className="submit-button capitalize"
+          disabled={!canApply}
+          onClick={onApplyHandler}
+        >
+          {isApplying || isRendering
+            ? "Transforming..."
+            : `Apply Pipeline (${cost} credits)`}
+        </Button>
+
+        <Button
+          type="button"
+          className="submit-button capitalize"
+          disabled={isSubmitting || !appliedSteps?.length || !title.trim()}
+          onClick={onSaveHandler}
+        >
+          {isSubmitting ? "Submitting..." : "Save Image"}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PipelineBuilder;
@@ -0,0 +1,55 @@
+/**
+ * The `ProviderImage` component renders an image with a transformation config applied, using the
+ * configured image provider.
+ *
+ * It takes the props of `CldImage`: with Cloudinary it renders `CldImage`, with the local provider a
+ * plain `next/image` pointing at the locally rendered transformation.
+ */
+"use client";
+
+import { CldImage, CldImageProps } from "next-cloudinary";
+import Image from "next/image";
+
+import { withCloudinaryEffects } from "@/lib/providers/effects";
+import { getLocalImageUrl, imageProvider } from "@/lib/providers/urls";
+
+// Props of `CldImage` that configure the transformation rather than the <img> element
+const TRANSFORMATION_PROPS = [
+  "restore",
+  "removeBackground",
+  "fillBackground",
+  "remove",
+  "recolor",
+  "upscale",
+  "faceBlur",
+  "cropToSubject",
+  "textOverlay",
+  "rawTransformations",
+] as const;
+
+const ProviderImage = (props: CldImageProps) => {
+  if (imageProvider === "cloudinary") return <CldImage {...withCloudinaryEffects(props)} />;
+
+  const imageProps: Record<string, any> = { ...props };
+  const config: Record<string, any> = {};
+
+  TRANSFORMATION_PROPS.forEach((key) => {
+    if (imageProps[key] !== undefined) config[key] = imageProps[key];
+    delete imageProps[key];
+  });
+
+  const { src, width, height, alt, ...rest } = imageProps;
+
+  return (
+    <Image
+      {...rest}
+      src={getLocalImageUrl({ src, width: Number(width), height: Number(height), ...config })}
+      width={width}
+      height={height}
+      alt={alt}
+      unoptimized
+    />
+  );
+};
+
+export default ProviderImage;
@@ -3,7 +3,10 @@
  *
  * The component debounces the search query changes, so that the URL is only updated after the user has stopped typing for 300 milliseconds. If the search query is empty, the component removes the `query` parameter from the URL.
  *
- * The component renders the search input field and the search icon.
+ * The `SearchFilters` component renders the filter chips of the search: transformation type, aspect ratio,
+ * tag, date range and sort order. Every filter is kept in the URL query, so a filtered feed can be shared.
+ *
+ * The `TagFilters` component renders the tag chips on their own, for collections without a search.
  */
 "use client";
 
@@ -12,35 +15,71 @@ import { useRouter, useSearchParams } from "next/navigation";
 import { useEffect, useState } from "react";
 
 import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  aspectRatioOptions,
+  imageSearchSortOptions,
+  pipelineTransformation,
+  transformationTypes,
+} from "@/constants";
 import { formUrlQuery, removeKeysFromQuery } from "@/lib/utils";
 
+const typeOptions = [
+  ...Object.values(transformationTypes).map(({ type, title }) => ({ value: type, label: title })),
+  { value: pipelineTransformation.type, label: pipelineTransformation.title },
+];
+
+const aspectRatioChips = Object.values(aspectRatioOptions).map(({ aspectRatio, label }) => ({
+  value: aspectRatio,
+  label,
+}));
+
+/**
+ * Returns the URL with `key` set to `value`, or removed when `value` is empty.
+ *
+ * Changing the search always goes back to the first page, as cursors only apply to the search that issued them.
+ */
+const useSearchUrl = () => {
+  const searchParams = useSearchParams();
+
+  return (key: string, value?: string) => {
+    if (!value) {
+      return removeKeysFromQuery({
+        searchParams: searchParams.toString(),
+        keysToRemove: [key, "page", "cursor"],
+      });
+    }
+
+    const params = new URLSearchParams(searchParams.toString());
+    params.delete("page");
+    params.delete("cursor");
+
+    return formUrlQuery({ searchParams: params.toString(), key, value });
+  };
+};
+
 export const Search = () => {
   const router = useRouter();
   const searchParams = useSearchParams();
-  const [query, setQuery] = useState("");
+  const getSearchUrl = useSearchUrl();
+  const [query, setQuery] = useState(searchParams.get("query") ?? "");
 
   useEffect(() => {
     const delayDebounceFn = setTimeout(() => {
-      if (query) {
-        const newUrl = formUrlQuery({
-          searchParams: searchParams.toString(),
-          key: "query",
-          value: query,
-        });
-
-        router.push(newUrl, { scroll: false });
-      } else {
-        const newUrl = removeKeysFromQuery({
-          searchParams: searchParams.toString(),
-          keysToRemove: ["query"],
-        });
-
-        router.push(newUrl, { scroll: false });
-      }
+      // The filters changed, not the search terms
+      if (query === (searchParams.get("query") ?? "")) return;
+
+      router.push(getSearchUrl("query", query), { scroll: false });
     }, 300);
 
     return () => clearTimeout(delayDebounceFn);
-  }, [router, searchParams, query]);
+  }, [router, searchParams, query, getSearchUrl]);
 
   return (
     <div className="search">
@@ -54,8 +93,137 @@ export const Search = () => {
       <Input
         className="search-field"
         placeholder="Search"
+        value={query}
         onChange={(e) => setQuery(e.target.value)}
       />
     </div>
   );
-};
\ No newline at end of file
+};
+
+/**
+ * A toggleable filter chip, selecting the active chip again clears the filter.
+ */
+const FilterChip = ({ label, isActive, onClick }: { label: string; isActive: boolean; onClick: () => void }) => (
+  <button
+    type="button"
+    className={`rounded-full px-4 py-2 p-14-medium ${
+      isActive ? "bg-purple-gradient text-white" : "bg-purple-100 text-dark-600"
+    }`}
+    onClick={onClick}
+  >
+    {label}
+  </button>
+);
+
+/**
+ * Chips of the given tags, plus the selected tag when it is not one of them.
+ */
+export const TagFilters = ({ tags = [] }: { tags?: string[] }) => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const getSearchUrl = useSearchUrl();
+
+  const selectedTag = searchParams.get("tag");
+  const chips = selectedTag && !tags.includes(selectedTag) ? [selectedTag, ...tags] : tags;
+
+  if (!chips.length) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {chips.map((tag) => (
+        <FilterChip
+          key={tag}
+          label={`#${tag}`}
+          isActive={selectedTag === tag}
+          onClick={() => router.push(getSearchUrl("tag", selectedTag === tag ? undefined : tag), { scroll: false })}
+        />
+      ))}
+    </div>
+  );
+};
+
+export const SearchFilters = ({ tags }: { tags?: string[] }) => {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const getSearchUrl = useSearchUrl();
+
+  const hasQuery = !!searchParams.get("query");
+  const defaultSort = hasQuery ? "relevance" : "newest";
+  const selectedSort = searchParams.get("sort");
+  const sort = selectedSort && (hasQuery || selectedSort !== "relevance") ? selectedSort : defaultSort;
+
+  const setFilter = (key: string, value?: string) =>
+    router.push(getSearchUrl(key, value), { scroll: false });
+
+  const toggleFilter = (key: string, value: string) =>
+    setFilter(key, searchParams.get(key) === value ? undefined : value);
+
+  const sortOptions = Object.entries(imageSearchSortOptions).filter(
+    ([value]) => hasQuery || value !== "relevance"
+  );
+
+  return (
+    <div className="mb-6 space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {typeOptions.map((option) => (
+          <FilterChip
+            key={option.value}
+            label={option.label}
+            isActive={searchParams.get("type") === option.value}
+            onClick={() => toggleFilter("type", option.value)}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {aspectRatioChips.map((option) => (
+          <FilterChip
+            key={option.value}
+            label={option.label}
+            isActive={searchParams.get("aspectRatio") === option.value}
+            onClick={() => toggleFilter("aspectRatio", option.value)}
+          />
+        ))}
+      </div>
+
+      <TagFilters tags={tags} />
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="p-14-medium flex items-center gap-2 text-dark-600">
+          From
+          <Input
+            type="date"
+            className="input-field w-fit"
+            value={searchParams.get("from") ?? ""}
+            onChange={(e) => setFilter("from", e.target.value)}
+          />
+        </label>
+        <label className="p-14-medium flex items-center gap-2 text-dark-600">
+          To
+          <Input
+            type="date"
+            className="input-field w-fit"
+            value={searchParams.get("to") ?? ""}
+            onChange={(e) => setFilter("to", e.target.value)}
+          />
+        </label>
+
+        <Select
+          value={sort}
+          onValueChange={(value) => setFilter("sort", value === defaultSort ? undefined : value)}
+        >
+          <SelectTrigger className="select-field w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sortOptions.map(([value, label]) => (
+              <SelectItem key={value} value={value} className="select-item">
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
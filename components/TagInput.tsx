@@ -0,0 +1,126 @@
+/**
+ * The `TagInput` component edits the tags of an image.
+ *
+ * Typing autocompletes from the tags the user already uses, Enter or a comma adds the typed tag,
+ * and tags suggested from the transformation can be added with one click.
+ */
+"use client";
+
+import { useEffect, useState } from "react";
+
+import { Input } from "@/components/ui/input";
+import { maxTagsPerImage } from "@/constants";
+import { searchTags } from "@/lib/actions/tag.actions";
+import { normalizeTag, normalizeTags } from "@/lib/tags";
+
+type TagInputProps = {
+  value?: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[];
+};
+
+const TagInput = ({ value = [], onChange, suggestions = [] }: TagInputProps) => {
+  const [text, setText] = useState("");
+  const [matches, setMatches] = useState<string[]>([]);
+
+  const isFull = value.length >= maxTagsPerImage;
+
+  // Autocomplete once the user stopped typing
+  useEffect(() => {
+    const prefix = normalizeTag(text);
+
+    if (!prefix) return setMatches([]);
+
+    const delayDebounceFn = setTimeout(async () => {
+      try {
+        const tags = await searchTags(prefix);
+        setMatches((tags ?? []).map(({ tag }) => tag).filter((tag) => !value.includes(tag)));
+      } catch (error) {
+        setMatches([]);
+      }
+    }, 300);
+
+    return () => clearTimeout(delayDebounceFn);
+  }, [text, value]);
+
+  const addTag = (tag: string) => {
+    onChange(normalizeTags([...value, tag]));
+    setText("");
+    setMatches([]);
+  };
+
+  const removeTag = (tag: string) => onChange(value.filter((current) => current !== tag));
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((event.key === "Enter" || event.key === ",") && normalizeTag(text)) {
+      event.preventDefault();
+      addTag(text);
+    } else if (event.key === "Backspace" && !text && value.length) {
+      removeTag(value[value.length - 1]);
+    }
+  };
+
+  const newSuggestions = suggestions.filter((tag) => !value.includes(tag));
+
+  return (
+    <div className="space-y-3">
+      {value.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {value.map((tag) => (
+            <li key={tag} className="p-14-medium flex items-center gap-1 rounded-full bg-purple-100 px-3 py-1 text-dark-600">
+              #{tag}
+              <button type="button" aria-label={`Remove ${tag}`} onClick={() => removeTag(tag)}>
+                &times;
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="relative">
+        <Input
+          className="input-field"
+          placeholder={isFull ? `At most ${maxTagsPerImage} tags` : "Add a tag and press Enter"}
+          disabled={isFull}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={onKeyDown}
+        />
+
+        {matches.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full rounded-[16px] border border-purple-200/20 bg-white py-2 shadow-sm">
+            {matches.map((tag) => (
+              <li key={tag}>
+                <button
+                  type="button"
+                  className="p-14-medium w-full px-4 py-2 text-left text-dark-600 hover:bg-purple-100"
+                  onClick={() => addTag(tag)}
+                >
+                  #{tag}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {!isFull && newSuggestions.length > 0 && (
+        <div className="p-14-medium flex flex-wrap items-center gap-2 text-dark-400">
+          Suggested:
+          {newSuggestions.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              className="rounded-full border border-purple-200/40 px-3 py-1 text-dark-600"
+              onClick={() => addTag(tag)}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,91 @@
+/**
+ * The `TransformationFieldInput` component renders the input of one field of a transformation type,
+ * as described by the `fields` of `transformationTypes`:
+ * - "text": a text input, e.g. the object to remove,
+ * - "color": a `ColorPicker`,
+ * - "size": a `FillSizeSelect`, with `allowCustom` also taking typed ratios and sizes,
+ * - "select": one of the field's `options`.
+ *
+ * Labels and validation messages are left to the form rendering it.
+ */
+"use client";
+
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+import ColorPicker from "./ColorPicker";
+import FillSizeSelect from "./FillSizeSelect";
+
+type TransformationFieldInputProps = {
+  field: TransformationField;
+  value?: string;
+  onChange: (value: string) => void;
+  publicId?: string;
+  imageId?: string;
+  recentColors?: string[];
+  allowCustom?: boolean;
+  disabled?: boolean;
+  id?: string;
+};
+
+const TransformationFieldInput = ({
+  field,
+  value = "",
+  onChange,
+  publicId,
+  imageId,
+  recentColors,
+  allowCustom,
+  disabled,
+  id,
+}: TransformationFieldInputProps) => {
+  switch (field.kind) {
+    case "color":
+      return (
+        <ColorPicker
+          value={value}
+          onChange={onChange}
+          publicId={publicId}
+          imageId={imageId}
+          recentColors={recentColors}
+          disabled={disabled}
+        />
+      );
+    case "size":
+      return <FillSizeSelect value={value} onValueChange={onChange} allowCustom={allowCustom} disabled={disabled} />;
+    case "select":
+      return (
+        <Select value={value} onValueChange={onChange} disabled={disabled}>
+          <SelectTrigger className="select-field">
+            <SelectValue placeholder={field.placeholder ?? `Select ${field.label}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(field.options ?? {}).map(([key, { label }]) => (
+              <SelectItem key={key} value={key} className="select-item">
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    default:
+      return (
+        <Input
+          id={id}
+          value={value}
+          className="input-field"
+          placeholder={field.placeholder}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      );
+  }
+};
+
+export default TransformationFieldInput;
@@ -3,13 +3,14 @@
  * 
  * The component uses the `react-hook-form` library to manage the form state and validation, and the `zod` library to define the schema for the form data.
  * 
- * The component supports three types of transformations: "fill", "remove", and "recolor". The form fields and functionality vary depending on the transformation type.
+ * The fields of the form are rendered from the `fields` of the transformation type in `transformationTypes`,
+ * see `TransformationFieldInput`, so adding a type does not touch this component.
  * 
  * The component provides the following functionality:
  * - Allows the user to upload an image and preview the transformed image
- * - Allows the user to select an aspect ratio for the "fill" transformation type
- * - Allows the user to enter a prompt for the "remove" and "recolor" transformation types
- * - Allows the user to enter a color for the "recolor" transformation type
+ * - Allows the user to fill in the fields of the transformation type: sizes, prompts, colors and options
+ * - Allows the user to paint a mask restricting the masked transformation types to a region
+ * - Allows the user to tag the image, with autocomplete and tags suggested from the transformation
  * - Provides a "Transform" button to apply the transformation to the image
  * - Provides a "Save Image" button to save the transformed image
  * 
@@ -22,47 +23,75 @@ import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { Button } from "@/components/ui/button"
 import { Form } from "@/components/ui/form";
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
 
 
 import { Input } from "@/components/ui/input";
-import { aspectRatioOptions, creditFee, defaultValues, transformationTypes } from "@/constants";
+import {
+  defaultValues,
+  fillGravityOptions,
+  maxFillDimension,
+  minFillDimension,
+  transformationTypes,
+} from "@/constants";
 import { CustomField } from "./CustomField";
-import { startTransition, useEffect, useState, useTransition } from "react";
-import { AspectRatioKey, debounce, deepMergeObjects } from "@/lib/utils";
-import { updateCredits } from "@/lib/actions/user.actions";
+import { startTransition, useEffect, useRef, useState, useTransition } from "react";
+import { deepMergeObjects, resolveFillSize } from "@/lib/utils";
+import {
+  areFieldsComplete,
+  getTransformationConfig,
+  getTransformationFieldValues,
+  getTransformationMask,
+  isMaskedType,
+} from "@/lib/transformations";
+import { getTransformationCost } from "@/lib/pricing";
+import { suggestTags } from "@/lib/tags";
+import { createTransformationJob } from "@/lib/actions/job.actions";
+import { watchTransformationJob } from "@/lib/jobEvents";
 import MediaUploader from "./MediaUploader";
 import TransformedImage from "./TransformedImage";
-import { getCldImageUrl } from "next-cloudinary";
 import { addImage, updateImage } from "@/lib/actions/image.actions";
 import { useRouter } from "next/navigation";
 import { InsufficientCreditsModal } from "./InsufficientCreditsModal";
+import { UpgradePlanModal } from "./UpgradePlanModal";
+import TagInput from "./TagInput";
+import TransformationFieldInput from "./TransformationFieldInput";
+import { normalizeColor } from "@/lib/colors";
+import { useToast } from "@/components/ui/use-toast";
 
 
 /**
  * A Zod schema that defines the shape of the form data for the TransformationForm component.
  * The schema includes the following fields:
  * - `title`: a string representing the title of the transformation
- * - `aspectRatio`: an optional string representing the aspect ratio of the transformation
- * - `color`: an optional string representing the color of the transformation
- * - `prompt`: an optional string representing the prompt for the transformation
+ * - `aspectRatio`: an optional string representing the aspect ratio or exact size of the transformation, see `resolveFillSize`
+ * - `gravity`: an optional side of the image the original or the text is anchored to
+ * - `color`: an optional string representing the color of the transformation, see `normalizeColor`
+ * - `prompt`: an optional string representing the prompt, or the text of a text overlay
+ * - `strength`, `style`, `textSize` and `opacity`: optional options of blurs and text overlays
  * - `publicId`: a string representing the public ID of the transformation
+ * - `tags`: an optional list of tags of the image
  */
 export const formSchema = z.object({
   title: z.string(),
-  aspectRatio: z.string().optional(),
-  color: z.string().optional(),
+  aspectRatio: z.string().optional().refine(
+    (value) => !value || !!resolveFillSize(value),
+    `Enter a ratio like 5:2 or a size like 1200x628, from ${minFillDimension} to ${maxFillDimension}px per side`
+  ),
+  gravity: z.string().optional().refine((value) => !value || value in fillGravityOptions, "Unknown position"),
+  color: z.string().optional().refine(
+    (value) => !value?.trim() || !!normalizeColor(value),
+    "Unknown color, use hex, rgb() or a color name"
+  ),
   prompt: z.string().optional(),
+  strength: z.string().optional(),
+  style: z.string().optional(),
+  textSize: z.string().optional(),
+  opacity: z.string().optional(),
   publicId: z.string(),
+  tags: z.array(z.string()).optional(),
 });
 
-const TransformationForm = ({ action, data = null, userId, type, creditBalance, config = null }: TransformationFormProps) => {
+const TransformationForm = ({ action, data = null, type, creditBalance, config = null, recentColors = [] }: TransformationFormProps) => {
 
   /** useState block */
   const transformationType = transformationTypes[type];
@@ -71,7 +100,21 @@ const TransformationForm = ({ action, data = null, userId, type, creditBalance,
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isTransforming, setIsTransforming] = useState(false);
   const [transformationConfig, setTransformationConfig] = useState(config);
+  // The succeeded job whose result is saved, see `addImage`
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [mask, setMask] = useState<MaskShape[]>(getTransformationMask(type, config));
+  const [insufficientCredits, setInsufficientCredits] = useState<InsufficientCreditsError | null>(
+    creditBalance < transformationType.cost.credits
+      ? { code: "INSUFFICIENT_CREDITS", required: transformationType.cost.credits, creditBalance }
+      : null
+  );
+  const [planLimit, setPlanLimit] = useState<PlanLimitError | null>(null);
   const [isPending, setTransition] = useTransition();
+  // Stops following the transformation job in progress, see `watchTransformationJob`
+  const stopWatchingJob = useRef<(() => void) | null>(null);
+  const { toast } = useToast();
+  // The price of the transformation for the uploaded image, see `getTransformationCost`
+  const cost = getTransformationCost(type, { width: image?.width, height: image?.height });
   const router = useRouter();
 
 
@@ -79,17 +122,21 @@ const TransformationForm = ({ action, data = null, userId, type, creditBalance,
 
   /**
    * Initializes the `initialValues` object based on the `action` and `data` props passed to the `TransformationForm` component.
-   * If `action` is "Update" and `data` is not null, the `initialValues` object is populated with the values from the `data` object.
-   * Otherwise, the `initialValues` object is set to the `defaultValues` object.
+   * If `action` is "Update" and `data` is not null, the `initialValues` object is populated with the values from the `data` object
+   * and the options saved in its config. Otherwise, the `initialValues` object is set to the `defaultValues` object and the
+   * default options of the transformation type.
    */
   const initialValues = data && action === "Update" ? {
+    ...defaultValues,
+    ...getTransformationFieldValues(type, config),
     title: data?.title,
     aspectRatio: data?.aspectRatio,
     color: data?.color,
-    prompt: data?.promtpt,
+    prompt: data?.prompt,
     publicId: data?.publicId,
+    tags: data?.tags ?? [],
 
-  } : defaultValues; // End of initialValues
+  } : { ...defaultValues, ...getTransformationFieldValues(type) }; // End of initialValues
 
 
 
@@ -113,32 +160,21 @@ const TransformationForm = ({ action, data = null, userId, type, creditBalance,
     // console.log(values);
     setIsSubmitting(true);
     if (data || image) {
-      const transformationUrl = getCldImageUrl({
-        width: image?.width,
-        height: image?.height,
-        src: image?.publicId,
-        ...transformationConfig,
-      }); // End of transformationUrl
-
       const imageData = {
         title: values.title,
         publicId: image?.publicId,
-        transformationType: type,
-        width: image?.width,
-        height: image?.height,
-        config: transformationConfig,
         secureURL: image?.secureURL,
-        transformationURL: transformationUrl,
-        aspectRatio: values.aspectRatio,
+        aspectRatio: resolveFillSize(values.aspectRatio)?.aspectRatio,
         color: values.color,
         prompt: values.prompt,
+        tags: values.tags,
       }; // End of imageData
 
-      if (action === 'Add') {
+      if (action === 'Add' && jobId) {
         try {
           const newImage = await addImage({
+            jobId,
             image: imageData,
-            userId,
             path: "/",
           });
 
@@ -159,11 +195,11 @@ const TransformationForm = ({ action, data = null, userId, type, creditBalance,
       if (action === "Update") {
         try {
           const updatedImage = await updateImage({
+            jobId: jobId ?? undefined,
             image: {
               ...imageData,
               _id: data?._id,
             },
-            userId,
             path: `/transformations/${data?._id}`,
           });
 
@@ -183,96 +219,134 @@ const TransformationForm = ({ action, data = null, userId, type, creditBalance,
   }; // End of onSubmit
 
   /**
-   * Handles the selection of an aspect ratio option from a dropdown.
+   * Handles a change of a field of the transformation type.
    *
-   * @param value - The selected aspect ratio option value.
+   * @param name - The name of the field, see the `fields` of `transformationTypes`.
+   * @param value - The new value of the field, as typed or picked.
    * @param onChangeField - A callback function to update the form field value.
    *
-   * This function updates the `image` state with the corresponding aspect ratio, width, and height values
-   * based on the selected aspect ratio option. It then calls the `onChangeField` callback to update the
-   * form field value.
+   * A new size, e.g. of a Generative Fill, resizes the `image` once it is valid. The `newTransformation` state
+   * is only updated once every field is valid, see `areFieldsComplete`, so typed colors and sizes are kept
+   * as is until they are.
    */
-  const onSelectFieldHandler = (value: string, onChangeField: (value: string) => void) => {
-    const imageSize = aspectRatioOptions[value as AspectRatioKey];
+  const onFieldChangeHandler = (name: TransformationFieldName, value: string, onChangeField: (value: string) => void) => {
+    const values = { ...form.getValues(), [name]: value };
+    const imageSize = name === "aspectRatio" ? resolveFillSize(value) : null;
 
-    setImage((prevState: any) => ({
-      ...prevState,
-      aspectRatio: imageSize.aspectRatio,
-      width: imageSize.width,
-      height: imageSize.height,
+    if (imageSize) {
+      setImage((prevState: any) => ({
+        ...prevState,
+        aspectRatio: imageSize.aspectRatio,
+        width: imageSize.width,
+        height: imageSize.height,
 
-    })); // End of setImage
+      })); // End of setImage
+    }
 
-    setNewTransformation(transformationType.config);
+    if (areFieldsComplete(type, values)) {
+      setNewTransformation(getTransformationConfig(type, values, isMaskedType(type) ? mask : undefined));
+    }
 
     return onChangeField(value);
-  }; // End of onSelectFieldHandler
+  }; // End of onFieldChangeHandler
 
   /**
-   * Handles the input change event for a form field.
-   *
-   * This function is used to update the `newTransformation` state with the latest value entered in a form field. It uses the `debounce` function to delay the update by 1 second, which helps to reduce the number of state updates and improve performance.
+   * Handles a change of the mask painted over the uploaded image.
    *
-   * @param fieldName - The name of the form field that was updated.
-   * @param value - The new value entered in the form field.
-   * @param type - The type of transformation (e.g. "fill", "resize") that the form field belongs to.
-   * @param onChangeField - A callback function to update the form field value.
+   * The mask is stored in the config of the transformation type, so it is saved with the image
+   * and re-runs reproduce the same result.
    *
-   * @returns The result of calling the `onChangeField` callback with the new value.
+   * @param value - The painted regions, empty to apply the transformation to the whole image.
    */
-  const onInputChangeHandler = (fieldName: string, value: string, type: string, onChangeField: (value: string) => void) => {
-    debounce(() => {
-      setNewTransformation((prevState: any) => ({
-        ...prevState,
-        [type]: {
-          ...prevState?.[type],
-          [fieldName === 'prompt' ? 'prompt' : 'to']: value
-        }
-      }))
-    }, 1000)();
-
-    return onChangeField(value)
-  }; // End of onInputChangeHandler
+  const onMaskChangeHandler = (value: MaskShape[]) => {
+    setMask(value);
 
+    if (areFieldsComplete(type, form.getValues())) {
+      setNewTransformation(getTransformationConfig(type, form.getValues(), value));
+    }
+  }; // End of onMaskChangeHandler
 
   /**
-   * Handles the transformation process, updating the transformation configuration and triggering the transition.
+   * Handles the transformation process, queuing a transformation job and then updating the transformation configuration.
    *
-   * This function is called when the user wants to perform a transformation on an image. It first sets the `isTransforming` state to `true` to indicate that the transformation is in progress. It then merges the `newTransformation` object with the existing `transformationConfig` object and updates the `transformationConfig` state with the merged object. This ensures that the latest transformation settings are used for the transformation.
-   *
-   * Next, the function sets the `newTransformation` state to `null` to clear any pending transformation changes. Finally, it starts a transition and performs the transformation asynchronously. The commented-out code suggests that this function may also update the user's credits, but this functionality is not currently implemented.
+   * The cost of the type for the image size is debited on the server when the job is queued. If the user's balance
+   * cannot cover it, the transformation is not applied and the `InsufficientCreditsModal` is shown instead, or the `UpgradePlanModal`
+   * when their plan does not grant the type or the image size.
+   * Otherwise the job renders the transformed image on the server, see `lib/jobs.ts`. Once it succeeded the `newTransformation`
+   * object is merged into the existing `transformationConfig`; if it failed, its credits were refunded and an error toast is shown.
    */
-  // TODO: Return to this function and implement the functionality to update the user's credits.
   const onTransformHandler = async () => {
     setIsTransforming(true);
 
-    setTransformationConfig(
-      deepMergeObjects(
-        newTransformation,
-        transformationConfig,
-      )
-    );// End of setTransformationConfig
-    setNewTransformation(null);
+    const nextConfig = deepMergeObjects(newTransformation, transformationConfig);
+
     startTransition(async () => {
-      await updateCredits(userId, creditFee);
+      const result = await createTransformationJob({
+        imageId: data?._id as string | undefined,
+        publicId: image?.publicId,
+        type,
+        aspectRatio: form.getValues("aspectRatio"),
+        config: nextConfig,
+      });
+
+      if (!result?.job) {
+        setIsTransforming(false);
 
+        if (result?.error?.code === "PLAN_LIMIT") setPlanLimit(result.error);
+        else if (result?.error) setInsufficientCredits(result.error);
+
+        return;
+      }
+
+      setNewTransformation(null);
+
+      stopWatchingJob.current?.();
+      stopWatchingJob.current = watchTransformationJob(result.job._id, (job) => {
+        // The transformed image is already rendered, `TransformedImage` stops the loader once it is shown
+        if (job.status === "succeeded") {
+          setTransformationConfig(nextConfig);
+          setJobId(job._id);
+        }
+
+        if (job.status === "failed") {
+          setIsTransforming(false);
+          toast({
+            title: "Transformation failed",
+            description: `${job.creditsRefunded} credits were refunded`,
+            duration: 5000,
+            className: "error-toast",
+          });
+        }
+      });
     })
 
   };// End of onTransformHandler
 
 
 
+  // Stop following the transformation job when the form is left
+  useEffect(() => () => stopWatchingJob.current?.(), []);
+
+  // Types without required fields, like Restore Image, can be applied as soon as an image is uploaded
   useEffect(() => {
-    if (image && (type === "restore" || type === "removeBackground")) {
-      setNewTransformation(transformationType.config);
+    if (image && transformationType.fields.every((field) => !field.required)) {
+      setNewTransformation(getTransformationConfig(type, form.getValues()));
     }
-  }, [image, transformationType.config, type]); // End of useEffect
+  }, [image, transformationType.fields, type, form]); // End of useEffect
 
   return (
 
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
-        {creditBalance < Math.abs(creditFee) && <InsufficientCreditsModal />}
+        {insufficientCredits && (
+          <InsufficientCreditsModal
+            required={insufficientCredits.required}
+            creditBalance={insufficientCredits.creditBalance}
+            title={transformationType.title}
+          />
+        )}
+
+        {planLimit && <UpgradePlanModal limit={planLimit} onClose={() => setPlanLimit(null)} />}
 
         <CustomField
           name="title"
@@ -282,79 +356,45 @@ const TransformationForm = ({ action, data = null, userId, type, creditBalance,
           render={({ field }) => (<Input {...field} className="input-field" />)}
         />
 
-        {type === "fill" && (
+        {transformationType.fields.map((transformationField) => (
           <CustomField
-            name="aspectRatio"
+            key={transformationField.name}
+            name={transformationField.name}
             control={form.control}
-            formLabel="Aspect Ratio"
+            formLabel={transformationField.label}
             className="w-full"
             render={({ field }) => (
-              <Select
-                onValueChange={(value) => onSelectFieldHandler(value, field.onChange)}
+              <TransformationFieldInput
+                field={transformationField}
                 value={field.value}
-              >
-                <SelectTrigger className="select-field">
-                  <SelectValue placeholder="Select Size" />
-                </SelectTrigger>
-                <SelectContent>
-                  {Object.keys(aspectRatioOptions).map(
-                    (key) => (
-                      <SelectItem key={key} value={key} className="select-item">
-                        {aspectRatioOptions[key as AspectRatioKey].label}
-                      </SelectItem>
-                    )
-                  )}
-                </SelectContent>
-              </Select>
+                onChange={(value) => onFieldChangeHandler(transformationField.name, value, field.onChange)}
+                publicId={image?.publicId}
+                imageId={image?.publicId === data?.publicId ? data?._id : undefined}
+                recentColors={recentColors}
+                allowCustom
+              />
             )}
           />
-        )} {/* End of type === "fill" */}
-
-        {(type === "remove" || type === "recolor") && (
-          <div className="prompt-field">
-            <CustomField
-              control={form.control}
-              name="prompt"
-              formLabel={type === "remove" ? "Object to remove" : "Object to recolor"}
-              className="w-full"
-              render={({ field }) => (
-                <Input
-                  value={field.value}
-                  className="input-field"
-                  onChange={
-                    (e) => onInputChangeHandler(
-                      'prompt',
-                      e.target.value,
-                      type,
-                      field.onChange,)
-                  }
-                />
-              )}
+        ))} {/* End of transformation fields */}
+
+        <CustomField
+          name="tags"
+          control={form.control}
+          formLabel="Tags"
+          className="w-full"
+          render={({ field }) => (
+            <TagInput
+              value={field.value}
+              onChange={field.onChange}
+              suggestions={suggestTags({
+                transformationType: type,
+                prompt: form.watch("prompt"),
+                color: form.watch("color"),
+                aspectRatio: form.watch("aspectRatio"),
+              })}
             />
-            {type === "recolor" && (
-              <CustomField
-                name="color"
-                control={form.control}
-                formLabel="Replacement Color"
-                className="w-full"
-                render={({ field }) => (
-                  <Input
-                    value={field.value}
-                    className="input-field"
-                    onChange={
-                      (e) => onInputChangeHandler(
-                        'color',
-                        e.target.value,
-                        'recolor',
-                        field.onChange,
-                      )
-                    }
-                  />
-                )}
-              />
-            )}
-          </div>
-        )} {/* End of recolor */}
+          )}
+        />
 
         {/**
          * Renders a media uploader field and a transformed image preview for the TransformationForm component.
@@ -381,6 +421,7 @@ const TransformationForm = ({ action, data = null, userId, type, creditBalance,
                 publicId={field.value}
                 image={image}
                 type={type}
+                {...(isMaskedType(type) && { mask, onMaskChange: onMaskChangeHandler })}
               />
             )}
           />
@@ -415,7 +456,7 @@ const TransformationForm = ({ action, data = null, userId, type, creditBalance,
             className="submit-button capitalize"
             disabled={isTransforming || newTransformation === null}
             onClick={onTransformHandler}
-          >{isTransforming ? "Transforming..." : "Apply Transformation"}
+          >{isTransforming ? "Transforming..." : `Apply Transformation (${cost} credit${cost === 1 ? "" : "s"})`}
           </Button>
 
 
@@ -423,7 +464,7 @@ const TransformationForm = ({ action, data = null, userId, type, creditBalance,
           <Button
             type="submit"
             className="submit-button capitalize"
-            disabled={isSubmitting}
+            disabled={isSubmitting || (action === "Add" && !jobId)}
           >{isSubmitting ? "Submitting..." : "Save Image"}
           </Button>
         </div>
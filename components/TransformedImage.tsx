@@ -1,10 +1,12 @@
 "use client";
 
 import { dataUrl, debounce, download, getImageSize } from '@/lib/utils';
-import { CldImage, getCldImageUrl } from 'next-cloudinary';
+import { getTransformationUrl } from '@/lib/providers/urls';
 import { PlaceholderValue } from 'next/dist/shared/lib/get-img-props';
 import Image from 'next/image';
 import React from 'react';
+import ExportDialog from './ExportDialog';
+import ProviderImage from './ProviderImage';
 
 const TransformedImage = (
     { image, title, type, isTransforming, setIsTransforming, transformationConfig, hasDownload = false }: TransformedImageProps
@@ -18,7 +20,7 @@ const TransformedImage = (
      */
     const downloadHandler = (e: React.MouseEvent<HTMLButtonElement, MouseEvent>) => {
         e.preventDefault();
-        download(getCldImageUrl({
+        download(getTransformationUrl({
             width: image?.width,
             height: image?.height,
             src: image?.publicId,
@@ -30,7 +32,9 @@ const TransformedImage = (
         <div className="flex flex-col gap-4">
             <div className="flex-between">
                 <h3 className="h3-bold">Transformed</h3>
-                {hasDownload && (
+                {/* Saved images are exported by the server, unsaved ones are downloaded as they are shown */}
+                {hasDownload && image?._id && <ExportDialog image={image} />}
+                {hasDownload && !image?._id && (
                     <button
                         className="download-btn" onClick={downloadHandler}>
                         <Image
@@ -46,7 +50,7 @@ const TransformedImage = (
             {/** Is transforming */}
             {image?.publicId && transformationConfig ? (
                 <div className="relative">
-                    <CldImage
+                    <ProviderImage
                         width={getImageSize(type, image, "width")}
                         height={getImageSize(type, image, "height")}
                         src={image?.publicId}
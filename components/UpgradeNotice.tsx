@@ -0,0 +1,24 @@
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+
+/**
+ * The `UpgradeNotice` component explains in place of a locked feature which plan unlocks it, with a
+ * link to `/credits`.
+ *
+ * @param limit - The limit of the user's plan, see `PlanLimitError`.
+ */
+const UpgradeNotice = ({ limit }: { limit: PlanLimitError }) => (
+  <div className="flex-between gap-4 rounded-[16px] border border-purple-200/20 bg-purple-100 p-4">
+    <p className="p-16-medium text-dark-600">
+      {limit.message}.{limit.requiredPlan && ` Upgrade to the ${limit.requiredPlan} plan to unlock it.`}
+    </p>
+    {limit.requiredPlan && (
+      <Button asChild className="collection-btn shrink-0">
+        <Link href="/credits">See Plans</Link>
+      </Button>
+    )}
+  </div>
+);
+
+export default UpgradeNotice;
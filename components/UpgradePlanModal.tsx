@@ -0,0 +1,76 @@
+/**
+ * The `UpgradePlanModal` component tells the user their plan does not grant what they tried, e.g. a
+ * transformation type or an output size, and offers to upgrade on `/credits`.
+ *
+ * @param limit - The limit that was hit, see `getTransformationLimit`.
+ * @param onClose - Called once the modal is closed, so the form can show it again on the next attempt.
+ */
+"use client";
+
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+type UpgradePlanModalProps = {
+  limit: PlanLimitError;
+  onClose?: () => void;
+};
+
+export const UpgradePlanModal = ({ limit, onClose }: UpgradePlanModalProps) => {
+  const router = useRouter();
+
+  return (
+    <AlertDialog defaultOpen onOpenChange={(open) => !open && onClose?.()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <div className="flex-between">
+            <p className="p-16-semibold text-dark-400">Upgrade Required</p>
+            <AlertDialogCancel className="border-0 p-0 hover:bg-transparent">
+              <Image
+                src="/assets/icons/close.svg"
+                alt="close"
+                width={24}
+                height={24}
+                className="cursor-pointer"
+              />
+            </AlertDialogCancel>
+          </div>
+
+          <AlertDialogTitle className="p-24-bold text-dark-600">
+            {limit.requiredPlan ? `Available on the ${limit.requiredPlan} plan` : "Beyond every plan"}
+          </AlertDialogTitle>
+
+          <AlertDialogDescription className="p-16-regular py-3">
+            {limit.message}.{" "}
+            {limit.requiredPlan
+              ? "Upgrade your plan to unlock it."
+              : "Try again with a smaller image or fewer images."}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel className="button w-full bg-purple-100 text-dark-400">
+            Not Now
+          </AlertDialogCancel>
+          {limit.requiredPlan && (
+            <AlertDialogAction
+              className="button w-full bg-purple-gradient bg-cover"
+              onClick={() => router.push("/credits")}
+            >
+              See Plans
+            </AlertDialogAction>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -0,0 +1,133 @@
+/**
+ * The `VersionTimeline` component lists the previous versions of an image to its author.
+ *
+ * Selecting a version shows it side by side with the current image. The image can be reverted to
+ * the selected version in one click; the current state is kept as a new version.
+ */
+"use client";
+
+import { PlaceholderValue } from "next/dist/shared/lib/get-img-props";
+import { useState, useTransition } from "react";
+
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { revertImageVersion } from "@/lib/actions/image.actions";
+import { dataUrl, getImageSize } from "@/lib/utils";
+
+import ProviderImage from "./ProviderImage";
+
+type VersionTimelineProps = {
+  image: any;
+  versions: any[];
+};
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" });
+
+/**
+ * Renders one side of the comparison with the transformation of that version applied.
+ */
+const VersionPreview = ({ label, publicId, version }: { label: string; publicId: string; version: any }) => (
+  <div className="flex flex-col gap-4">
+    <h3 className="h3-bold text-dark-600">{label}</h3>
+    {version.config ? (
+      <ProviderImage
+        width={getImageSize(version.transformationType, version, "width")}
+        height={getImageSize(version.transformationType, version, "height")}
+        src={publicId}
+        alt={version.title}
+        sizes={"(max-width: 768px) 100vw, 50vw"}
+        placeholder={dataUrl as PlaceholderValue}
+        className="transformed-image"
+        {...version.config}
+      />
+    ) : (
+      <div className="transformed-placeholder">No transformation</div>
+    )}
+  </div>
+);
+
+const VersionTimeline = ({ image, versions }: VersionTimelineProps) => {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string>(versions[0]?._id ?? "");
+  const [isReverting, startReverting] = useTransition();
+
+  const selected = versions.find((version) => version._id === selectedId);
+
+  const onRevertHandler = () =>
+    startReverting(async () => {
+      try {
+        await revertImageVersion({
+          imageId: image._id,
+          versionId: selectedId,
+          path: `/transformations/${image._id}`,
+        });
+
+        toast({
+          title: "Image reverted",
+          description: `Restored version ${selected?.version}`,
+          duration: 5000,
+          className: "success-toast",
+        });
+      } catch (error) {
+        toast({
+          title: "Something went wrong",
+          description: "The image could not be reverted, Please try again",
+          duration: 5000,
+          className: "error-toast",
+        });
+      }
+    }); // End of onRevertHandler
+
+  if (!versions.length) return null;
+
+  return (
+    <section className="mt-10 space-y-6 border-t border-dark-400/15 pt-10">
+      <h3 className="h3-bold text-dark-600">Version History</h3>
+
+      <ol className="flex flex-wrap gap-2">
+        {versions.map((version) => (
+          <li key={version._id}>
+            <button
+              type="button"
+              className={`rounded-full px-4 py-2 p-14-medium ${
+                version._id === selectedId ? "bg-purple-gradient text-white" : "bg-purple-100 text-dark-600"
+              }`}
+              onClick={() => setSelectedId(version._id)}
+            >
+              v{version.version} &middot; {formatDate(version.createdAt)}
+            </button>
+          </li>
+        ))}
+      </ol>
+
+      {selected && (
+        <>
+          <div className="p-14-medium flex flex-wrap gap-4 text-dark-600">
+            {selected.prompt && <p>Prompt: <span className="text-purple-400">{selected.prompt}</span></p>}
+            {selected.color && <p>Color: <span className="text-purple-400">{selected.color}</span></p>}
+            {selected.aspectRatio && (
+              <p>Aspect Ratio: <span className="text-purple-400">{selected.aspectRatio}</span></p>
+            )}
+          </div>
+
+          <div className="transformation-grid">
+            <VersionPreview label={`Version ${selected.version}`} publicId={image.publicId} version={selected} />
+            <VersionPreview label="Current" publicId={image.publicId} version={image} />
+          </div>
+
+          <Button
+            type="button"
+            className="submit-button capitalize"
+            disabled={isReverting}
+            onClick={onRevertHandler}
+          >
+            {isReverting ? "Reverting..." : `Revert to Version ${selected.version}`}
+          </Button>
+        </>
+      )}
+    </section>
+  );
+};
+
+export default VersionTimeline;
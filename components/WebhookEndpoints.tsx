@@ -0,0 +1,195 @@
+/**
+ * The `WebhookEndpoints` component lets the signed-in user register endpoints for outgoing webhooks.
+ *
+ * Every endpoint shows its signing secret, the events it subscribed to and a log of its latest
+ * deliveries. Any delivery can be sent again with "Resend".
+ */
+"use client";
+
+import { useState, useTransition } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/components/ui/use-toast";
+import { webhookEvents } from "@/constants";
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  resendWebhookDelivery,
+} from "@/lib/actions/webhook.actions";
+
+type WebhookDeliveryItem = {
+  _id: string;
+  event: string;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  createdAt: string;
+};
+
+type WebhookEndpointItem = {
+  _id: string;
+  url: string;
+  events: WebhookEventType[];
+  secret: string;
+  deliveries: WebhookDeliveryItem[];
+};
+
+const statusColors: Record<WebhookDeliveryItem["status"], string> = {
+  pending: "text-dark-400",
+  succeeded: "text-purple-500",
+  failed: "text-red-500",
+};
+
+const WebhookEndpoints = ({ endpoints }: { endpoints: WebhookEndpointItem[] }) => {
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEventType[]>([...webhookEvents]);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  const toggleEvent = (event: WebhookEventType) =>
+    setEvents((prevState) =>
+      prevState.includes(event) ? prevState.filter((e) => e !== event) : [...prevState, event]
+    );
+
+  /**
+   * Runs a webhook action and reports a failure with a toast.
+   */
+  const run = (action: () => Promise<unknown>, failure: string, onSuccess?: () => void) =>
+    startTransition(async () => {
+      try {
+        await action();
+        onSuccess?.();
+      } catch (error) {
+        toast({
+          title: "Something went wrong",
+          description: failure,
+          duration: 5000,
+          className: "error-toast",
+        });
+      }
+    });
+
+  const onCreateHandler = () =>
+    run(
+      () => createWebhookEndpoint({ url: url.trim(), events }),
+      "The endpoint could not be added, check that it is an https:// URL",
+      () => setUrl("")
+    );
+
+  return (
+    <section className="w-full max-w-4xl space-y-6">
+      <h3 className="h3-bold text-dark-600">Webhooks</h3>
+      <p className="p-16-regular">
+        Events are POSTed as JSON and signed in the <code>Imagigenie-Signature</code> header
+        with the endpoint&apos;s secret.
+      </p>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="webhook-url">Endpoint URL</Label>
+          <Input
+            id="webhook-url"
+            className="input-field"
+            placeholder="https://example.com/webhooks/imagigenie"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+        </div>
+
+        <div className="flex flex-wrap gap-4">
+          {webhookEvents.map((event) => (
+            <label key={event} className="p-14-medium flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={events.includes(event)}
+                onChange={() => toggleEvent(event)}
+              />
+              {event}
+            </label>
+          ))}
+        </div>
+
+        <Button
+          type="button"
+          className="collection-btn"
+          disabled={!url.trim() || !events.length || isPending}
+          onClick={onCreateHandler}
+        >
+          Add Endpoint
+        </Button>
+      </div>
+
+      <ul className="space-y-4">
+        {endpoints.map((endpoint) => (
+          <li key={endpoint._id} className="space-y-4 rounded-[16px] border border-purple-200/20 p-4 shadow-sm">
+            <div className="flex-between gap-4">
+              <div className="min-w-0">
+                <p className="p-16-semibold break-all text-dark-600">{endpoint.url}</p>
+                <p className="p-14-medium text-dark-400">{endpoint.events.join(", ")}</p>
+              </div>
+              <Button
+                type="button"
+                variant="destructive"
+                disabled={isPending}
+                onClick={() => run(() => deleteWebhookEndpoint(endpoint._id), "The endpoint could not be deleted")}
+              >
+                Delete
+              </Button>
+            </div>
+
+            <div className="p-14-medium flex items-center gap-2">
+              <span>Secret:</span>
+              <code className="break-all">
+                {revealedId === endpoint._id ? endpoint.secret : "whsec_••••••••"}
+              </code>
+              <button
+                type="button"
+                className="text-purple-400"
+                onClick={() => setRevealedId(revealedId === endpoint._id ? null : endpoint._id)}
+              >
+                {revealedId === endpoint._id ? "Hide" : "Reveal"}
+              </button>
+            </div>
+
+            {endpoint.deliveries.length > 0 ? (
+              <ul className="space-y-2">
+                {endpoint.deliveries.map((delivery) => (
+                  <li key={delivery._id} className="p-14-medium flex-between gap-4">
+                    <div>
+                      <span className="text-dark-600">{delivery.event}</span>{" "}
+                      <span className={statusColors[delivery.status]}>
+                        {delivery.status}
+                        {delivery.responseStatus && ` (${delivery.responseStatus})`}
+                      </span>{" "}
+                      <span className="text-dark-400">
+                        &middot; {delivery.attempts} attempt{delivery.attempts === 1 ? "" : "s"}
+                        &middot; {new Date(delivery.createdAt).toLocaleString()}
+                      </span>
+                      {delivery.error && <p className="text-red-500">{delivery.error}</p>}
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={isPending}
+                      onClick={() => run(() => resendWebhookDelivery(delivery._id), "The delivery could not be resent")}
+                    >
+                      Resend
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="p-14-medium text-dark-400">No deliveries yet</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+export default WebhookEndpoints;
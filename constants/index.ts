@@ -1,50 +1,13 @@
-export const navLinks = [
-    {
-      label: "Home",
-      route: "/",
-      icon: "/assets/icons/home.svg",
-    },
-    {
-      label: "Image Restore",
-      route: "/transformations/add/restore",
-      icon: "/assets/icons/image.svg",
-    },
-    {
-      label: "Generative Fill",
-      route: "/transformations/add/fill",
-      icon: "/assets/icons/stars.svg",
-    },
-    {
-      label: "Object Remove",
-      route: "/transformations/add/remove",
-      icon: "/assets/icons/scan.svg",
-    },
-    {
-      label: "Object Recolor",
-      route: "/transformations/add/recolor",
-      icon: "/assets/icons/filter.svg",
-    },
-    {
-      label: "Background Remove",
-      route: "/transformations/add/removeBackground",
-      icon: "/assets/icons/camera.svg",
-    },
-    {
-      label: "Profile",
-      route: "/profile",
-      icon: "/assets/icons/profile.svg",
-    },
-    {
-      label: "Buy Credits",
-      route: "/credits",
-      icon: "/assets/icons/bag.svg",
-    },
-  ];
-  
-  export const plans = [
+import { z } from "zod";
+
+// Plan tiers, from the lowest. Every plan below grants one, and transformation types may require one.
+export const planTiers = ["free", "pro", "premium"] as const;
+
+export const plans = [
     {
       _id: 1,
       name: "Free",
+      tier: "free" as PlanTier,
       icon: "/assets/icons/free-plan.svg",
       price: 0,
       credits: 20,
@@ -70,6 +33,7 @@ export const navLinks = [
     {
       _id: 2,
       name: "Pro Package",
+      tier: "pro" as PlanTier,
       icon: "/assets/icons/free-plan.svg",
       price: 40,
       credits: 120,
@@ -95,6 +59,7 @@ export const navLinks = [
     {
       _id: 3,
       name: "Premium Package",
+      tier: "premium" as PlanTier,
       icon: "/assets/icons/free-plan.svg",
       price: 199,
       credits: 2000,
@@ -118,7 +83,140 @@ export const navLinks = [
       ],
     },
   ];
-  
+
+  // Recurring plans: `credits` are granted on every paid invoice. At most
+  // `rolloverCap` unused credits are carried into the next billing period.
+  export const subscriptionPlans = [
+    {
+      _id: 4,
+      name: "Pro Monthly",
+      tier: "pro" as PlanTier,
+      icon: "/assets/icons/free-plan.svg",
+      price: 15,
+      interval: "month" as const,
+      credits: 150,
+      rolloverCap: 150,
+      inclusions: [
+        {
+          label: "150 Credits every month",
+          isIncluded: true,
+        },
+        {
+          label: "Full Access to Services",
+          isIncluded: true,
+        },
+        {
+          label: "Priority Customer Support",
+          isIncluded: true,
+        },
+        {
+          label: "Priority Updates",
+          isIncluded: false,
+        },
+      ],
+    },
+    {
+      _id: 5,
+      name: "Premium Monthly",
+      tier: "premium" as PlanTier,
+      icon: "/assets/icons/free-plan.svg",
+      price: 49,
+      interval: "month" as const,
+      credits: 600,
+      rolloverCap: 1200,
+      inclusions: [
+        {
+          label: "600 Credits every month",
+          isIncluded: true,
+        },
+        {
+          label: "Full Access to Services",
+          isIncluded: true,
+        },
+        {
+          label: "Priority Customer Support",
+          isIncluded: true,
+        },
+        {
+          label: "Priority Updates",
+          isIncluded: true,
+        },
+      ],
+    },
+  ];
+
+  // Where the original sits in the filled image; the opposite sides are outpainted.
+  export const fillGravityOptions = {
+    center: { label: "Center (extend every side)" },
+    north: { label: "Top (extend the bottom)" },
+    south: { label: "Bottom (extend the top)" },
+    west: { label: "Left (extend the right)" },
+    east: { label: "Right (extend the left)" },
+    north_west: { label: "Top left" },
+    north_east: { label: "Top right" },
+    south_west: { label: "Bottom left" },
+    south_east: { label: "Bottom right" },
+  };
+
+  // Options of Face & PII Blur: the strength of Cloudinary's blur and the size of its pixels.
+  export const blurStrengthOptions = {
+    light: { label: "Light", blur: 300, pixelate: 8 },
+    medium: { label: "Medium", blur: 800, pixelate: 16 },
+    strong: { label: "Strong", blur: 2000, pixelate: 32 },
+  };
+
+  export const blurStyleOptions = {
+    blur: { label: "Blur" },
+    pixelate: { label: "Pixelate" },
+  };
+
+  // Options of Text Overlay: the font size is relative to the image width.
+  export const textSizeOptions = {
+    small: { label: "Small", scale: 0.04 },
+    medium: { label: "Medium", scale: 0.07 },
+    large: { label: "Large", scale: 0.12 },
+  };
+
+  export const textOpacityOptions = {
+    "100": { label: "Opaque" },
+    "70": { label: "70%" },
+    "40": { label: "40% (watermark)" },
+  };
+
+  // Longest text of a Text Overlay.
+  export const maxOverlayTextLength = 100;
+
+  export const textPositionOptions = {
+    center: { label: "Center" },
+    north: { label: "Top" },
+    south: { label: "Bottom" },
+    west: { label: "Left" },
+    east: { label: "Right" },
+    north_west: { label: "Top left" },
+    north_east: { label: "Top right" },
+    south_west: { label: "Bottom left" },
+    south_east: { label: "Bottom right" },
+  };
+
+  // Schemas of the parts of transformation configs shared by several types
+  const maskSchema = z.array(z.object({
+    tool: z.enum(["brush", "lasso"]),
+    points: z.array(z.number()),
+    size: z.number().optional(),
+  })).optional();
+
+  const gravitySchema = z.enum(Object.keys(fillGravityOptions) as [FillGravity, ...FillGravity[]]);
+
+  // Credits of a transformation cover outputs up to this size; `perMegapixel` is charged for every
+  // started megapixel above it, see `getTransformationCost`.
+  export const includedMegapixels = 2;
+
+  // The registry of transformation types. Each type declares:
+  // - `cost`: its credits, plus `perMegapixel` for large outputs; `outputScale` if it resizes the image,
+  // - `plan`: the lowest plan tier it is available on, see `planTiers`,
+  // - `schema`: the zod schema of its config, checked before a config is saved,
+  // - `fields`: its form, rendered by `TransformationFieldInput`.
+  // `masked` types can be restricted to a region painted over the image, see `MaskPainter`.
   export const transformationTypes = {
     restore: {
       type: "restore",
@@ -126,13 +224,10 @@ export const navLinks = [
       subTitle: "Refine images by removing noise and imperfections",
       config: { restore: true },
       icon: "image.svg",
-    },
-    removeBackground: {
-      type: "removeBackground",
-      title: "Background Remove",
-      subTitle: "Removes the background of the image using AI",
-      config: { removeBackground: true },
-      icon: "camera.svg",
+      cost: { credits: 1 } as TransformationCost,
+      plan: "free" as PlanTier,
+      schema: z.object({ restore: z.literal(true) }),
+      fields: [] as TransformationField[],
     },
     fill: {
       type: "fill",
@@ -140,6 +235,13 @@ export const navLinks = [
       subTitle: "Enhance an image's dimensions using AI outpainting",
       config: { fillBackground: true },
       icon: "stars.svg",
+      cost: { credits: 2, perMegapixel: 1 } as TransformationCost,
+      plan: "free" as PlanTier,
+      schema: z.object({ fillBackground: z.union([z.literal(true), z.object({ gravity: gravitySchema.optional() })]) }),
+      fields: [
+        { name: "aspectRatio", label: "Aspect Ratio", kind: "size", required: true },
+        { name: "gravity", label: "Anchor", kind: "select", options: fillGravityOptions, placeholder: "Select Anchor" },
+      ] as TransformationField[],
     },
     remove: {
       type: "remove",
@@ -149,6 +251,20 @@ export const navLinks = [
         remove: { prompt: "", removeShadow: true, multiple: true },
       },
       icon: "scan.svg",
+      cost: { credits: 2 } as TransformationCost,
+      plan: "free" as PlanTier,
+      schema: z.object({
+        remove: z.object({
+          prompt: z.string().min(1),
+          removeShadow: z.boolean().optional(),
+          multiple: z.boolean().optional(),
+          mask: maskSchema,
+        }),
+      }),
+      fields: [
+        { name: "prompt", label: "Object to remove", kind: "text", required: true },
+      ] as TransformationField[],
+      masked: true,
     },
     recolor: {
       type: "recolor",
@@ -158,8 +274,147 @@ export const navLinks = [
         recolor: { prompt: "", to: "", multiple: true },
       },
       icon: "filter.svg",
+      cost: { credits: 2 } as TransformationCost,
+      plan: "free" as PlanTier,
+      schema: z.object({
+        recolor: z.object({
+          prompt: z.string().min(1),
+          to: z.string().min(1),
+          multiple: z.boolean().optional(),
+          mask: maskSchema,
+        }),
+      }),
+      fields: [
+        { name: "prompt", label: "Object to recolor", kind: "text", required: true },
+        { name: "color", label: "Replacement Color", kind: "color", required: true },
+      ] as TransformationField[],
+      masked: true,
+    },
+    removeBackground: {
+      type: "removeBackground",
+      title: "Background Remove",
+      subTitle: "Removes the background of the image using AI",
+      config: { removeBackground: true },
+      icon: "camera.svg",
+      cost: { credits: 1 } as TransformationCost,
+      plan: "free" as PlanTier,
+      schema: z.object({ removeBackground: z.literal(true) }),
+      fields: [] as TransformationField[],
+    },
+    upscale: {
+      type: "upscale",
+      title: "Upscale",
+      subTitle: "Doubles the resolution of the image with AI super-resolution",
+      config: { upscale: true },
+      icon: "upscale.svg",
+      cost: { credits: 2, perMegapixel: 1 } as TransformationCost,
+      outputScale: 2,
+      plan: "pro" as PlanTier,
+      schema: z.object({ upscale: z.literal(true) }),
+      fields: [] as TransformationField[],
+    },
+    blurFaces: {
+      type: "blurFaces",
+      title: "Face & PII Blur",
+      subTitle: "Blurs the faces in the image and any region you paint, like plates or documents",
+      config: { faceBlur: { strength: "medium", style: "blur" } } as Transformations,
+      icon: "blur.svg",
+      cost: { credits: 1 } as TransformationCost,
+      plan: "free" as PlanTier,
+      schema: z.object({
+        faceBlur: z.object({
+          strength: z.enum(["light", "medium", "strong"]).optional(),
+          style: z.enum(["blur", "pixelate"]).optional(),
+          mask: maskSchema,
+        }),
+      }),
+      fields: [
+        { name: "strength", label: "Strength", kind: "select", options: blurStrengthOptions, placeholder: "Select Strength" },
+        { name: "style", label: "Style", kind: "select", options: blurStyleOptions, placeholder: "Select Style" },
+      ] as TransformationField[],
+      masked: true,
+    },
+    cropToSubject: {
+      type: "cropToSubject",
+      title: "Crop to Subject",
+      subTitle: "Crops the image to a new size around its main subject",
+      config: { cropToSubject: true },
+      icon: "crop.svg",
+      cost: { credits: 1 } as TransformationCost,
+      plan: "free" as PlanTier,
+      schema: z.object({ cropToSubject: z.literal(true) }),
+      fields: [
+        { name: "aspectRatio", label: "Aspect Ratio", kind: "size", required: true },
+      ] as TransformationField[],
+    },
+    textOverlay: {
+      type: "textOverlay",
+      title: "Text Overlay",
+      subTitle: "Adds a caption or a watermark over the image",
+      config: {
+        textOverlay: { text: "", color: "FFFFFF", gravity: "south_east", size: "medium", opacity: 100 },
+      } as Transformations,
+      icon: "text.svg",
+      cost: { credits: 1 } as TransformationCost,
+      plan: "free" as PlanTier,
+      schema: z.object({
+        textOverlay: z.object({
+          text: z.string().trim().min(1).max(maxOverlayTextLength),
+          color: z.string().optional(),
+          gravity: gravitySchema.optional(),
+          size: z.enum(["small", "medium", "large"]).optional(),
+          opacity: z.number().optional(),
+        }),
+      }),
+      fields: [
+        { name: "prompt", label: "Text", kind: "text", placeholder: "© Your name", required: true },
+        { name: "color", label: "Text Color", kind: "color" },
+        { name: "gravity", label: "Position", kind: "select", options: textPositionOptions, placeholder: "Select Position" },
+        { name: "textSize", label: "Size", kind: "select", options: textSizeOptions, placeholder: "Select Size" },
+        { name: "opacity", label: "Opacity", kind: "select", options: textOpacityOptions, placeholder: "Select Opacity" },
+      ] as TransformationField[],
+      // Overlays need more fields than a pipeline step has
+      pipeline: false,
+    },
+  };
+
+  export const navLinks = [
+    {
+      label: "Home",
+      route: "/",
+      icon: "/assets/icons/home.svg",
+    },
+    ...Object.values(transformationTypes).map(({ type, title, icon }) => ({
+      label: title,
+      route: `/transformations/add/${type}`,
+      icon: `/assets/icons/${icon}`,
+    })),
+    {
+      label: "Pipeline Builder",
+      route: "/transformations/pipeline",
+      icon: "/assets/icons/stars.svg",
     },
+    {
+      label: "Profile",
+      route: "/profile",
+      icon: "/assets/icons/profile.svg",
+    },
+    {
+      label: "Buy Credits",
+      route: "/credits",
+      icon: "/assets/icons/bag.svg",
+    },
+  ];
+  
+  // Images saved from the pipeline builder chain several of the types above.
+  export const pipelineTransformation = {
+    type: "pipeline",
+    title: "Transformation Pipeline",
+    subTitle: "Chain several transformations and preview every step",
+    icon: "stars.svg",
   };
+
+  export const maxPipelineSteps = 5;
   
   export const aspectRatioOptions = {
     "1:1": {
@@ -180,14 +435,144 @@ export const navLinks = [
       width: 1000,
       height: 1778,
     },
+    "4:5": {
+      aspectRatio: "4:5",
+      label: "Social Portrait (4:5)",
+      width: 1000,
+      height: 1250,
+    },
+    "16:9": {
+      aspectRatio: "16:9",
+      label: "Widescreen (16:9)",
+      width: 1000,
+      height: 563,
+    },
+    "2:1": {
+      aspectRatio: "2:1",
+      label: "Banner (2:1)",
+      width: 1000,
+      height: 500,
+    },
   };
-  
+
+  // Exact sizes of social platforms, stored as "<width>x<height>", see `resolveFillSize`.
+  export const socialSizePresets = {
+    "instagram-post": { label: "Instagram Post", width: 1080, height: 1080 },
+    "instagram-portrait": { label: "Instagram Portrait", width: 1080, height: 1350 },
+    "instagram-story": { label: "Instagram / TikTok Story", width: 1080, height: 1920 },
+    "x-post": { label: "X Post", width: 1600, height: 900 },
+    "facebook-cover": { label: "Facebook Cover", width: 820, height: 312 },
+    "linkedin-banner": { label: "LinkedIn Banner", width: 1584, height: 396 },
+    "youtube-thumbnail": { label: "YouTube Thumbnail", width: 1280, height: 720 },
+    "open-graph": { label: "Link Preview (Open Graph)", width: 1200, height: 630 },
+  };
+
+  // Bounds of the size Generative Fill outputs, for custom ratios and exact sizes.
+  export const minFillDimension = 64;
+  export const maxFillDimension = 4096;
+
   export const defaultValues = {
     title: "",
     aspectRatio: "",
+    gravity: "center" as FillGravity,
     color: "",
     prompt: "",
+    strength: "",
+    style: "",
+    textSize: "",
+    opacity: "",
     publicId: "",
+    tags: [] as string[],
   };
   
-  export const creditFee = -1;
\ No newline at end of file
+  // Maximum number of images in one batch transformation, of any plan.
+  export const maxBatchSize = 50;
+
+  // Batches still open after this long, e.g. because the tab was closed, are closed and the credits
+  // of their unsaved images refunded, see `closeExpiredBatches`.
+  export const batchReservationTtlMs = 24 * 60 * 60 * 1000;
+
+  // What each plan tier grants, see `getPlanEntitlements`.
+  export const planEntitlements: Record<PlanTier, PlanEntitlements> = {
+    free: { maxResolution: 4096, maxBatchSize: 5, maxStorageBytes: 250 * 1024 ** 2, maxAssets: 50, apiAccess: false },
+    pro: { maxResolution: 8192, maxBatchSize: 20, maxStorageBytes: 5 * 1024 ** 3, maxAssets: 1000, apiAccess: true },
+    premium: { maxResolution: 16384, maxBatchSize, maxStorageBytes: 50 * 1024 ** 3, maxAssets: 10000, apiAccess: true },
+  };
+
+  // Cleanup of the provider assets no image references, see `reconcileStorage`: unsaved uploads are
+  // kept for `gracePeriodMs`, and one run deletes at most `maxDeletionsPerRun` assets.
+  export const storageCleanup = {
+    gracePeriodMs: 7 * 24 * 60 * 60 * 1000,
+    maxDeletionsPerRun: 500,
+  };
+  // Tags of an image, see `normalizeTags`.
+  export const maxTagsPerImage = 10;
+  export const maxTagLength = 32;
+  // Regions painted to restrict Object Remove and Recolor, see `sanitizeMask`.
+  export const maxMaskShapes = 20;
+  export const maxMaskPoints = 1000;
+  // Colors of Object Recolor: extracted from the uploaded image, and the last ones each user saved.
+  export const paletteSize = 6;
+  export const maxRecentColors = 8;
+  // Formats offered by the export dialog, see `app/api/images/[id]/export`.
+  export const exportFormats = {
+    png: { label: "PNG", mimeType: "image/png", supportsTransparency: true },
+    jpeg: { label: "JPEG", mimeType: "image/jpeg", supportsTransparency: false },
+    webp: { label: "WebP", mimeType: "image/webp", supportsTransparency: true },
+    avif: { label: "AVIF", mimeType: "image/avif", supportsTransparency: true },
+  };
+
+  export const exportQualities = {
+    high: { label: "High", quality: 90 },
+    medium: { label: "Medium", quality: 75 },
+    low: { label: "Low", quality: 50 },
+  };
+
+  // Largest width or height of an exported image.
+  export const maxExportDimension = 4096;
+
+  // Maximum number of images one bulk action applies to.
+  export const maxBulkImages = 50;
+  // Albums can be nested this many levels deep.
+  export const maxAlbumDepth = 5;
+  // Public API: every key may send `requests` requests per `windowMs`.
+  export const apiRateLimit = {
+    requests: 60,
+    windowMs: 60 * 1000,
+  };
+
+  export const maxApiKeysPerUser = 10;
+
+  // Outgoing webhooks users can subscribe their endpoints to.
+  export const webhookEvents = [
+    "image.created",
+    "image.updated",
+    "image.deleted",
+    "credits.purchased",
+    "credits.low",
+  ] as const;
+
+  // A failed delivery is retried after `baseDelayMs`, then twice as long each time.
+  export const webhookRetryPolicy = {
+    maxAttempts: 6,
+    baseDelayMs: 30 * 1000,
+  };
+
+  // A transformation job that failed for a transient reason, e.g. a generative transformation the
+  // provider is still rendering, is retried after `baseDelayMs`, then twice as long each time up to
+  // `maxDelayMs`. Its credits are refunded once `maxAttempts` is reached.
+  export const transformationJobRetryPolicy = {
+    maxAttempts: 8,
+    baseDelayMs: 2 * 1000,
+    maxDelayMs: 60 * 1000,
+  };
+
+  // `credits.low` is sent when a user's balance drops below this.
+  export const lowCreditsThreshold = 5;
+
+  // Sort orders of the community feed, `relevance` only applies to text searches.
+  export const imageSearchSortOptions = {
+    relevance: "Most relevant",
+    newest: "Newest",
+    oldest: "Oldest",
+  };
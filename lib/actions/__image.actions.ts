@@ -31,7 +31,7 @@ const populateUser = (query: any) => query.populate({
  * @returns {Promise<Image>} - The newly created image.
  */
 // ADD IMAGE
-export async function addImage({ image, userId, path }: AddImageParams) {
+export async function addImage({ image, userId, path }: AddImageParams & { userId: string }) {
     try {
         await connect();
         const author = await User.findById(userId);
@@ -60,7 +60,7 @@ export async function addImage({ image, userId, path }: AddImageParams) {
  * @returns {Promise<Image>} - The updated image.
  */
 // UPDATE IMAGE
-export async function updateImage({ image, userId, path }: UpdateImageParams) {
+export async function updateImage({ image, userId, path }: UpdateImageParams & { userId: string }) {
     try {
         await connect();
         const imageToUpdate = await Image.findById(image._id);
@@ -0,0 +1,218 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { maxAlbumDepth } from "@/constants";
+import { getCurrentUser } from "@/lib/auth";
+import { runBulkAction } from "@/lib/bulk";
+import { connect, withTransaction } from "@/lib/database/db";
+import Album from "@/lib/database/models/album.model";
+import Image from "@/lib/database/models/image.model";
+import { handleError } from "@/lib/utils";
+
+const MAX_ALBUM_NAME_LENGTH = 100;
+
+const validateName = (name: string) => {
+  const trimmed = name?.trim();
+
+  if (!trimmed || trimmed.length > MAX_ALBUM_NAME_LENGTH) {
+    throw new Error(`An album name has 1 to ${MAX_ALBUM_NAME_LENGTH} characters`);
+  }
+
+  return trimmed;
+};
+
+/**
+ * Finds an album of `userId`, throwing when it does not exist or belongs to someone else.
+ */
+const findOwnedAlbum = async (albumId: string, userId: string) => {
+  const album = await Album.findOne({ _id: albumId, author: userId });
+
+  if (!album) throw new Error("Unauthorized or album not found");
+
+  return album;
+};
+
+/**
+ * Retrieves the albums of the signed-in user, in their order among their siblings.
+ *
+ * @returns The albums as a flat list, the tree is rebuilt from `parent`.
+ */
+export async function getAlbums() {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const albums = await Album.find({ author: user._id }).sort({ position: 1, createdAt: 1 });
+
+    return JSON.parse(JSON.stringify(albums));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of getAlbums
+
+/**
+ * Creates an album for the signed-in user, after the other albums of its parent.
+ *
+ * @param params.name - The name of the album.
+ * @param params.parentId - The album to nest the new album in, a top-level album when omitted.
+ * @returns The new album.
+ */
+export async function createAlbum({ name, parentId, path }: CreateAlbumParams) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+    const parent = parentId ? await findOwnedAlbum(parentId, user._id) : null;
+    const ancestors = parent ? [...parent.ancestors, parent._id] : [];
+
+    if (ancestors.length >= maxAlbumDepth) {
+      throw new Error(`Albums can only be nested ${maxAlbumDepth} levels deep`);
+    }
+
+    const last = await Album.findOne({ author: user._id, parent: parent?._id ?? null }).sort({ position: -1 });
+
+    const album = await Album.create({
+      name: validateName(name),
+      author: user._id,
+      parent: parent?._id ?? null,
+      ancestors,
+      position: (last?.position ?? -1) + 1,
+    });
+
+    revalidatePath(path);
+
+    return JSON.parse(JSON.stringify(album));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of createAlbum
+
+/**
+ * Renames an album of the signed-in user.
+ *
+ * @returns The renamed album.
+ */
+export async function renameAlbum({ albumId, name, path }: RenameAlbumParams) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const album = await Album.findOneAndUpdate(
+      { _id: albumId, author: user._id },
+      { name: validateName(name), updatedAt: new Date() },
+      { new: true }
+    );
+
+    if (!album) throw new Error("Unauthorized or album not found");
+
+    revalidatePath(path);
+
+    return JSON.parse(JSON.stringify(album));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of renameAlbum
+
+/**
+ * Reorders the albums sharing a parent.
+ *
+ * @param params.parentId - The parent of the albums, top-level albums when omitted.
+ * @param params.albumIds - Every album of that parent, in their new order.
+ */
+export async function reorderAlbums({ parentId, albumIds, path }: ReorderAlbumsParams) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const siblings = await Album.find({ author: user._id, parent: parentId ?? null }).select("_id");
+    const siblingIds = new Set(siblings.map((album) => album._id.toString()));
+
+    if (albumIds.length !== siblingIds.size || !albumIds.every((id) => siblingIds.has(id))) {
+      throw new Error("The new order must list every album of the parent once");
+    }
+
+    await Album.bulkWrite(albumIds.map((id, position) => ({
+      updateOne: { filter: { _id: id, author: user._id }, update: { position } },
+    })));
+
+    revalidatePath(path);
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of reorderAlbums
+
+/**
+ * Deletes an album of the signed-in user together with the albums nested in it.
+ *
+ * The images are kept, they are only removed from the deleted albums.
+ *
+ * @returns The IDs of the deleted albums.
+ */
+export async function deleteAlbum(albumId: string, path: string) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+    const album = await findOwnedAlbum(albumId, user._id);
+
+    const deletedIds = await withTransaction(undefined, async (session) => {
+      const subtree = await Album.find({ author: user._id, ancestors: album._id }).select("_id").session(session);
+      const ids = [album._id, ...subtree.map((child) => child._id)];
+
+      await Album.deleteMany({ _id: { $in: ids } }, { session });
+      await Image.updateMany(
+        { author: user._id, albums: { $in: ids } },
+        { $pull: { albums: { $in: ids } } },
+        { session }
+      );
+
+      return ids.map((id) => id.toString());
+    });
+
+    revalidatePath(path);
+
+    return deletedIds;
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of deleteAlbum
+
+/**
+ * Moves images of the signed-in user between albums.
+ *
+ * Images are added to `toAlbumId` and removed from `fromAlbumId`. Without `fromAlbumId` the images
+ * are only added, and without `toAlbumId` they are only removed.
+ *
+ * @returns The result for each image.
+ */
+export async function moveImagesToAlbum({ imageIds, fromAlbumId, toAlbumId, path }: MoveImagesToAlbumParams) {
+  try {
+    if (!fromAlbumId && !toAlbumId) throw new Error("Pick the album to move the images to or from");
+    if (fromAlbumId === toAlbumId) throw new Error("The images are already in this album");
+
+    await connect();
+
+    const user = await getCurrentUser();
+
+    if (fromAlbumId) await findOwnedAlbum(fromAlbumId, user._id);
+    if (toAlbumId) await findOwnedAlbum(toAlbumId, user._id);
+
+    // `$addToSet` and `$pull` cannot change the same array in one update
+    const results = await runBulkAction(imageIds, user._id.toString(), (image) =>
+      withTransaction(undefined, async (session) => {
+        if (toAlbumId) await Image.updateOne({ _id: image._id }, { $addToSet: { albums: toAlbumId } }, { session });
+        if (fromAlbumId) await Image.updateOne({ _id: image._id }, { $pull: { albums: fromAlbumId } }, { session });
+      })
+    );
+
+    revalidatePath(path);
+
+    return results;
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of moveImagesToAlbum
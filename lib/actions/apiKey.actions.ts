@@ -0,0 +1,97 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { maxApiKeysPerUser } from "@/constants";
+import { generateApiKey } from "@/lib/api";
+import { getCurrentUser } from "@/lib/auth";
+import { connect } from "@/lib/database/db";
+import ApiKey from "@/lib/database/models/apiKey.model";
+import { assertWithinPlan } from "@/lib/entitlements";
+import { handleError } from "@/lib/utils";
+import { getApiLimit } from "@/lib/plans";
+
+/**
+ * Issues a new API key for the signed-in user.
+ *
+ * The plain key is only returned here; afterwards only its hash is stored. Only plans with
+ * `apiAccess` can issue keys.
+ *
+ * @param name - A label to tell the user's keys apart.
+ * @returns The stored key and the plain `key`.
+ */
+export async function createApiKey(name: string) {
+  try {
+    if (!name?.trim()) throw new Error("An API key needs a name");
+
+    await connect();
+
+    const user = await getCurrentUser();
+
+    assertWithinPlan(getApiLimit(user.planId));
+
+    const activeKeys = await ApiKey.countDocuments({ user: user._id, revokedAt: null });
+
+    if (activeKeys >= maxApiKeysPerUser) {
+      throw new Error(`A user can have at most ${maxApiKeysPerUser} active API keys`);
+    }
+
+    const { key, prefix, hashedKey } = generateApiKey();
+
+    const apiKey = await ApiKey.create({ user: user._id, name: name.trim(), prefix, hashedKey });
+
+    revalidatePath("/profile");
+
+    const { hashedKey: _, ...storedKey } = JSON.parse(JSON.stringify(apiKey));
+
+    return { ...storedKey, key };
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of createApiKey
+
+/**
+ * Retrieves the API keys of the signed-in user, newest first, without their hashes.
+ *
+ * @returns The user's keys, including revoked ones.
+ */
+export async function getApiKeys() {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const apiKeys = await ApiKey.find({ user: user._id })
+      .select("-hashedKey -rateLimitWindowStart -rateLimitCount")
+      .sort({ createdAt: -1 });
+
+    return JSON.parse(JSON.stringify(apiKeys));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of getApiKeys
+
+/**
+ * Revokes an API key of the signed-in user. Requests with a revoked key are rejected.
+ *
+ * @param apiKeyId - The ID of the key to revoke.
+ */
+export async function revokeApiKey(apiKeyId: string) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const apiKey = await ApiKey.findOneAndUpdate(
+      { _id: apiKeyId, user: user._id, revokedAt: null },
+      { revokedAt: new Date() },
+      { new: true }
+    );
+
+    if (!apiKey) throw new Error("Unauthorized or API key not found");
+
+    revalidatePath("/profile");
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of revokeApiKey
@@ -0,0 +1,257 @@
+"use server";
+
+import { Types } from "mongoose";
+import { revalidatePath } from "next/cache";
+
+import { maxBatchSize, transformationTypes } from "@/constants";
+import { getCurrentUser } from "@/lib/auth";
+import { debitCredits, InsufficientCreditsError } from "@/lib/credits";
+import { connect, withTransaction } from "@/lib/database/db";
+import { assertStorageAvailable, assertWithinPlan, PlanLimitExceededError } from "@/lib/entitlements";
+import { closeBatch } from "@/lib/batches";
+import { getStoredAsset, refreshStorageUsage } from "@/lib/storage";
+import Batch from "@/lib/database/models/batch.model";
+import Image from "@/lib/database/models/image.model";
+import { getAuthorName, rememberRecentColors, toImageDocument } from "@/lib/images";
+import { consumeTransformationJob, enqueueTransformationJob, toTransformationJobView } from "@/lib/jobs";
+import { handleError, hasSizeField, resolveFillSize } from "@/lib/utils";
+import { parseTransformationConfig } from "@/lib/transformations";
+import { getTransformationCost } from "@/lib/pricing";
+import { getBatchLimit, getTransformationLimit } from "@/lib/plans";
+import { emitCreditsLowIfCrossed, emitWebhookEvent } from "@/lib/webhooks";
+
+/**
+ * Opens a batch for the signed-in user and charges the credits for all of its images up front.
+ *
+ * Every image is priced by the `cost` of the type for its size, see `getTransformationCost`. The
+ * whole batch is covered by one conditional debit, so either every image is paid for or none is.
+ * Credits for images that are never saved are refunded by `completeBatch`.
+ *
+ * The user's plan must grant the type, the batch size, the size of every image and the storage
+ * of all of them, see `planEntitlements`.
+ *
+ * @param params.type - The transformation type applied to every image.
+ * @param params.config - The transformation config shared by the batch.
+ * @param params.sizes - The size each image is transformed to.
+ * @returns The new batch, an `INSUFFICIENT_CREDITS` error when the balance cannot cover it, or a
+ * `PLAN_LIMIT` error when the user's plan does not grant it.
+ */
+export async function createBatch({ type, config, sizes }: CreateBatchParams): Promise<CreateBatchResult | undefined> {
+  try {
+    if (!transformationTypes[type]) throw new Error("Unknown transformation type");
+
+    if (!Array.isArray(sizes) || sizes.length < 1 || sizes.length > maxBatchSize) {
+      throw new Error(`A batch must contain between 1 and ${maxBatchSize} images`);
+    }
+
+    if (!sizes.every(({ width, height }) => Number.isFinite(width) && width > 0 && Number.isFinite(height) && height > 0)) {
+      throw new Error("Invalid image size");
+    }
+
+    await connect();
+
+    const user = await getCurrentUser();
+
+    assertWithinPlan(getBatchLimit(user.planId, sizes.length));
+    sizes.forEach((size) => assertWithinPlan(getTransformationLimit(user.planId, { type, ...size })));
+    assertStorageAvailable(user, { bytes: 0, assets: sizes.length });
+
+    const costs = sizes.map((size) => getTransformationCost(type, size));
+    const creditsCharged = costs.reduce((total, cost) => total + cost, 0);
+
+    const { batch, debit } = await withTransaction(undefined, async (session) => {
+      const [batch] = await Batch.create([{
+        author: user._id,
+        transformationType: type,
+        config: parseTransformationConfig(type, config),
+        total: sizes.length,
+        costs,
+        sizes,
+        creditsCharged,
+      }], { session });
+
+      const debit = await debitCredits({
+        userId: user._id.toString(),
+        amount: creditsCharged,
+        reason: "batch transformation",
+        batchId: batch._id,
+        session,
+      });
+
+      return { batch, debit };
+    });
+
+    await emitCreditsLowIfCrossed(user._id.toString(), debit.balanceAfter, creditsCharged);
+    await rememberRecentColors(user._id.toString(), { config });
+
+    return { batch: JSON.parse(JSON.stringify(batch)) };
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      return {
+        error: {
+          code: "INSUFFICIENT_CREDITS",
+          required: error.required,
+          creditBalance: error.balance,
+        },
+      };
+    }
+
+    if (error instanceof PlanLimitExceededError) return { error: error.limit };
+
+    handleError(error);
+  }
+}; // End of createBatch
+
+/**
+ * Queues the transformation job of one image of an open batch, paid for by the credits the batch reserved.
+ *
+ * The image is rendered with the config of the batch, at the size of the original as the provider stores it
+ * or at the fill size of sized types, which may not be larger than the size charged for its index, see
+ * `reserveBatchItem`. The client follows the job like any other and saves the image with `addBatchImage`
+ * once it succeeded.
+ *
+ * @param params.batchId - The ID of the batch.
+ * @param params.index - The index of the image in the batch, as in the `sizes` of `createBatch`.
+ * @param params.publicId - The public ID of the original.
+ * @param params.aspectRatio - The size of a fill or crop.
+ * @returns The queued job.
+ */
+export async function createBatchTransformationJob(
+  { batchId, index, publicId, aspectRatio }: CreateBatchTransformationJobParams
+) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+    const batch = await Batch.findOne({ _id: batchId, author: user._id }).select("transformationType");
+
+    if (!batch) throw new Error("Batch not found");
+
+    const job = await enqueueTransformationJob({
+      userId: user._id.toString(),
+      transformation: { type: batch.transformationType },
+      publicId,
+      aspectRatio,
+      batch: { id: batchId, index },
+    });
+
+    return toTransformationJobView(job);
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of createBatchTransformationJob
+
+/**
+ * Saves one image of an open batch as its own `Image`.
+ *
+ * A batch saves each image it was charged for at most once, while the user's plan has room to store it.
+ * The transformation, its size and URL are copied from the job that rendered the image, see
+ * `createBatchTransformationJob`.
+ *
+ * @param params.batchId - The ID of the batch.
+ * @param params.index - The index of the image in the batch, as in the `sizes` of `createBatch`.
+ * @param params.jobId - The succeeded job that rendered the image.
+ * @param params.image - The image data to be added.
+ * @returns The newly created image.
+ */
+export async function addBatchImage({ batchId, index, jobId, image }: AddBatchImageParams) {
+  try {
+    if (!Number.isInteger(index) || index < 0) throw new Error("Invalid batch image index");
+
+    await connect();
+
+    const user = await getCurrentUser();
+    const userId = user._id.toString();
+    const asset = await getStoredAsset(image.publicId);
+
+    assertStorageAvailable(user, { bytes: asset.bytes, assets: 1 });
+
+    // Reserve the slot first so concurrent calls cannot save an image twice
+    const batch = await Batch.findOneAndUpdate(
+      { _id: batchId, author: user._id, status: "open", savedItems: { $ne: index }, total: { $gt: index } },
+      { $inc: { saved: 1 }, $push: { savedItems: index } },
+      { new: true }
+    );
+
+    if (!batch) throw new Error("Batch not found, closed or image already saved");
+
+    try {
+      // Only the fields the client names are taken from it, the transformation is the job's
+      const newImage = await withTransaction(undefined, async (session) => {
+        const imageId = new Types.ObjectId();
+        const transformation = await consumeTransformationJob({
+          jobId,
+          userId,
+          publicId: image.publicId,
+          imageId,
+          filter: { batch: batch._id, batchIndex: index },
+          session,
+        });
+
+        const [newImage] = await Image.create([{
+          _id: imageId,
+          ...toImageDocument({
+            title: image.title,
+            publicId: image.publicId,
+            secureURL: image.secureURL,
+            prompt: image.prompt,
+            color: image.color,
+            aspectRatio: hasSizeField(batch.transformationType) ? resolveFillSize(image.aspectRatio)?.aspectRatio : undefined,
+            ...transformation,
+          }),
+          bytes: asset.bytes,
+          author: user._id,
+          authorName: getAuthorName(user),
+          batch: batch._id,
+        }], { session });
+
+        return newImage;
+      });
+
+      const createdImage = JSON.parse(JSON.stringify(newImage));
+
+      await refreshStorageUsage(userId);
+      await emitWebhookEvent(userId, "image.created", { image: createdImage, batchId: batch._id.toString() });
+
+      return createdImage;
+    } catch (error) {
+      await Batch.findByIdAndUpdate(batch._id, { $inc: { saved: -1 }, $pull: { savedItems: index } });
+      throw error;
+    }
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of addBatchImage
+
+/**
+ * Closes a batch of the signed-in user and refunds the credits of the images that were not saved,
+ * see `closeBatch`. Batches that are never completed are closed by `closeExpiredBatches`.
+ *
+ * Closing is idempotent: only the first call refunds.
+ *
+ * @param batchId - The ID of the batch.
+ * @returns The closed batch.
+ */
+export async function completeBatch(batchId: string) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const batch = await closeBatch({ _id: batchId, author: user._id });
+
+    if (!batch) {
+      const closedBatch = await Batch.findOne({ _id: batchId, author: user._id });
+
+      if (!closedBatch) throw new Error("Batch not found");
+
+      return JSON.parse(JSON.stringify(closedBatch));
+    }
+
+    revalidatePath("/");
+
+    return JSON.parse(JSON.stringify(batch));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of completeBatch
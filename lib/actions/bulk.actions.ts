@@ -0,0 +1,122 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/lib/auth";
+import { runBulkAction } from "@/lib/bulk";
+import { InsufficientCreditsError } from "@/lib/credits";
+import Image from "@/lib/database/models/image.model";
+import { deleteOwnedImage } from "@/lib/images";
+import { advanceTransformationJob, enqueueTransformationJob } from "@/lib/jobs";
+import { handleError } from "@/lib/utils";
+import { emitWebhookEvent } from "@/lib/webhooks";
+
+/**
+ * Bulk actions on the images of the signed-in user.
+ *
+ * Each action checks that every image belongs to the user and returns one `BulkActionResult` per
+ * image, so the client can tell which images failed and why. ZIP downloads are streamed by
+ * `/api/images/download` instead.
+ */
+
+const VISIBILITIES: ImageVisibility[] = ["private", "unlisted", "public"];
+
+/**
+ * Deletes images of the signed-in user together with their version history.
+ *
+ * @returns The result for each image.
+ */
+export async function bulkDeleteImages(imageIds: string[], path: string) {
+  try {
+    const user = await getCurrentUser();
+    const userId = user._id.toString();
+
+    const results = await runBulkAction(imageIds, userId, (image) => deleteOwnedImage(image._id.toString(), userId));
+
+    revalidatePath(path);
+    revalidatePath("/");
+
+    return results;
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of bulkDeleteImages
+
+/**
+ * Changes the visibility of images of the signed-in user.
+ *
+ * @returns The result for each image.
+ */
+export async function bulkSetImageVisibility({ imageIds, visibility, path }: BulkSetVisibilityParams) {
+  try {
+    if (!VISIBILITIES.includes(visibility)) throw new Error(`Unknown visibility: ${visibility}`);
+
+    const user = await getCurrentUser();
+    const userId = user._id.toString();
+
+    const results = await runBulkAction(imageIds, userId, async (image) => {
+      if (image.visibility === visibility) return;
+
+      const updatedImage = await Image.findByIdAndUpdate(
+        image._id,
+        { visibility, updatedAt: new Date() },
+        { new: true }
+      );
+
+      await emitWebhookEvent(userId, "image.updated", { image: JSON.parse(JSON.stringify(updatedImage)) });
+    });
+
+    revalidatePath(path);
+    revalidatePath("/");
+
+    return results;
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of bulkSetImageVisibility
+
+/**
+ * Renders images of the signed-in user again with their current config.
+ *
+ * This refreshes the stored transformation URL, e.g. after switching image providers. Every image
+ * is queued as a transformation job, charged like a new transformation of its type and size, or per
+ * step for a pipeline, and attempted right away; an image the balance cannot cover fails with
+ * `Insufficient credits` and is left unchanged. Once its job succeeded, now or on a retry, the new URL
+ * replaces the image's and the previous state is kept as a version. A job that fails is refunded.
+ *
+ * @returns The result for each image.
+ */
+export async function bulkRerunImages(imageIds: string[], path: string) {
+  try {
+    const user = await getCurrentUser();
+    const userId = user._id.toString();
+
+    const results = await runBulkAction(imageIds, userId, async (image) => {
+      if (!image.config && !image.steps?.length) throw new Error("The image has no transformation to run");
+
+      const queuedJob = await enqueueTransformationJob({
+        userId,
+        transformation: { type: image.transformationType, steps: image.steps },
+        publicId: image.publicId,
+        aspectRatio: image.aspectRatio,
+        config: image.config,
+        imageId: image._id.toString(),
+        replaceImage: true,
+      }).catch((error) => {
+        if (error instanceof InsufficientCreditsError) throw new Error("Insufficient credits");
+        throw error;
+      });
+
+      const job = await advanceTransformationJob(queuedJob._id.toString(), userId);
+
+      if (job?.status === "failed") throw new Error(`${job.error ?? "Rendering failed"}, the credits were refunded`);
+    });
+
+    revalidatePath(path);
+    revalidatePath("/");
+
+    return results;
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of bulkRerunImages
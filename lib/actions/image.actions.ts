@@ -1,122 +1,214 @@
 "use server";
 
+import { auth } from "@clerk/nextjs/server";
 import { revalidatePath } from "next/cache";
-import { connect } from "@/lib/database/db";
+import sharp from "sharp";
+import { paletteSize } from "@/constants";
+import { getCurrentUser } from "@/lib/auth";
+import { extractPalette } from "@/lib/colors";
+import { getTransformationProvider } from "@/lib/providers";
+import { connect, withTransaction } from "@/lib/database/db";
+import { assertStorageAvailable } from "@/lib/entitlements";
+import { consumeTransformationJob } from "@/lib/jobs";
+import { assertUploadOwner, getAssetBytes, getStoredAsset, refreshStorageUsage } from "@/lib/storage";
 import { handleError } from "../utils";
+import { normalizeTags } from "../tags";
 import User from "../database/models/user.model";
 import Image from "../database/models/image.model";
+import ImageVersion from "../database/models/imageVersion.model";
 import { redirect } from "next/navigation";
 
-import { v2 as cloudinary } from 'cloudinary'
-
-const populateUser = (query: any) => query.populate({
-  path: 'author',
-  model: User,
-  select: '_id firstName lastName clerkId'
-})
+import {
+  buildImageSearch,
+  createImage,
+  deleteOwnedImage,
+  findViewableImage,
+  rememberRecentColors,
+  toImageDocument,
+} from "../images";
+import { findUserImages, listImages } from "../listing";
+import { snapshotImage, VERSIONED_FIELDS } from "../versions";
+import { emitWebhookEvent } from "../webhooks";
+
+// The fields of the original, missing from versions taken before they were snapshotted
+const ORIGINAL_FIELDS: readonly string[] = ["publicId", "secureURL", "bytes"];
 
 /**
- * Adds a new image to the database.
+ * Adds a new image of the signed-in user to the database, see `createImage`.
+ *
+ * The transformation, its config, size and URL are copied from the job that rendered it, see `consumeTransformationJob`.
  *
  * @param {Object} params - The parameters for adding the image.
+ * @param {string} params.jobId - The succeeded transformation job of the user whose result is saved.
  * @param {Object} params.image - The image data to be added.
- * @param {string} params.userId - The ID of the user adding the image.
  * @param {string} params.path - The path to revalidate after the image is added.
  * @returns {Promise<Object>} - The newly created image object.
- * @throws {Error} - Throws an error if the user is not found or there is an issue creating the image.
+ * @throws {Error} - Throws an error if there is no signed-in user, their plan stores no more images, see
+ * `getStorageLimit`, or there is an issue creating the image.
  */
 // ADD IMAGE
-export async function addImage({ image, userId, path }: AddImageParams) {
+export async function addImage({ jobId, image, path }: AddImageParams) {
   try {
     await connect();
 
-    const author = await User.findById(userId);
-
-    if (!author) {
-      throw new Error("User not found");
-    }
+    const author = await getCurrentUser();
 
-    const newImage = await Image.create({
-      ...image,
-      author: author._id,
-    })
+    const createdImage = await createImage(author, jobId, image);
 
     revalidatePath(path);
 
-    return JSON.parse(JSON.stringify(newImage));
+    return createdImage;
   } catch (error) {
     handleError(error)
   }
 }; // End of addImage
 
 /**
- * Updates an existing image in the database.
+ * Updates an existing image of the signed-in user in the database.
+ *
+ * The previous state of the image, original included, is kept as an `ImageVersion`, so the update can
+ * be reverted. A replaced original therefore stays at the image provider until no image or version uses it.
+ * Like in `addImage` the transformation is copied from its job; without a job only the title and tags change.
  *
  * @param {Object} params - The parameters for updating the image.
+ * @param {string} [params.jobId] - The succeeded transformation job of the user whose result replaces the image's.
  * @param {Object} params.image - The updated image data.
- * @param {string} params.userId - The ID of the user updating the image.
  * @param {string} params.path - The path to revalidate after the update.
  * @returns {Promise<Object>} - The updated image object.
  * @throws {Error} - Throws an error if the image is not found or the user is unauthorized to update the image.
  */
 // UPDATE IMAGE
-export async function updateImage({ image, userId, path }: UpdateImageParams) {
+export async function updateImage({ jobId, image, path }: UpdateImageParams) {
   try {
     await connect();
 
-    const imageToUpdate = await Image.findById(image._id);
+    const author = await getCurrentUser();
+    const userId = author._id.toString();
+    const imageToUpdate = await Image.findOne({ _id: image._id, author: author._id });
 
-    if (!imageToUpdate || imageToUpdate.author.toHexString() !== userId) {
-      throw new Error("Unauthorized or image not found");
+    if (!imageToUpdate) throw new Error("Unauthorized or image not found");
+
+    const isNewOriginal = !!jobId && image.publicId !== imageToUpdate.publicId;
+    const bytes = isNewOriginal ? await getAssetBytes(image.publicId) : imageToUpdate.bytes;
+
+    if (isNewOriginal && bytes > (imageToUpdate.bytes ?? 0)) {
+      assertStorageAvailable(author, { bytes: bytes - (imageToUpdate.bytes ?? 0), assets: 0 });
     }
 
-    const updatedImage = await Image.findByIdAndUpdate(
-      imageToUpdate._id,
-      image,
-      { new: true }
-    )
+    const updatedImage = await withTransaction(undefined, async (session) => {
+      const transformation = jobId
+        ? await consumeTransformationJob({ jobId, userId, publicId: image.publicId, imageId: imageToUpdate._id, session })
+        : null;
+      const changes = transformation
+        ? { ...toImageDocument({ ...image, ...transformation }), bytes }
+        : { title: image.title, ...(image.tags && { tags: normalizeTags(image.tags) }) };
+
+      await snapshotImage(imageToUpdate, session);
+
+      return Image.findByIdAndUpdate(
+        imageToUpdate._id,
+        { ...changes, updatedAt: new Date() },
+        { new: true, session }
+      );
+    });
+
+    // The replaced original is kept for the version snapshotted above
+    if (isNewOriginal) await refreshStorageUsage(userId);
 
     revalidatePath(path);
 
-    return JSON.parse(JSON.stringify(updatedImage));
+    const savedImage = JSON.parse(JSON.stringify(updatedImage));
+
+    await rememberRecentColors(userId, savedImage);
+    await emitWebhookEvent(userId, "image.updated", { image: savedImage });
+
+    return savedImage;
   } catch (error) {
     handleError(error)
   }
 }; // End of updateImage
 
 /**
- * Deletes an image by its unique identifier.
+ * Changes who can view an image of the signed-in user.
+ *
+ * Share links of the image only work while it is unlisted.
+ *
+ * @param {Object} params - The parameters for changing the visibility.
+ * @param {string} params.imageId - The unique identifier of the image.
+ * @param {ImageVisibility} params.visibility - `private`, `unlisted` or `public`.
+ * @param {string} params.path - The path to revalidate after the change.
+ * @returns {Promise<Object>} - The updated image object.
+ * @throws {Error} - Throws an error if the image is not found or the user is unauthorized.
+ */
+// SET IMAGE VISIBILITY
+export async function setImageVisibility({ imageId, visibility, path }: SetImageVisibilityParams) {
+  try {
+    if (!["private", "unlisted", "public"].includes(visibility)) {
+      throw new Error(`Unknown visibility: ${visibility}`);
+    }
+
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const updatedImage = await Image.findOneAndUpdate(
+      { _id: imageId, author: user._id },
+      { visibility, updatedAt: new Date() },
+      { new: true }
+    );
+
+    if (!updatedImage) throw new Error("Unauthorized or image not found");
+
+    revalidatePath(path);
+    revalidatePath("/");
+
+    const savedImage = JSON.parse(JSON.stringify(updatedImage));
+
+    await emitWebhookEvent(user._id.toString(), "image.updated", { image: savedImage });
+
+    return savedImage;
+  } catch (error) {
+    handleError(error)
+  }
+}; // End of setImageVisibility
+
+/**
+ * Deletes an image of the signed-in user by its unique identifier.
  *
  * @param {string} imageId - The unique identifier of the image to delete.
  * @returns {Promise<void>} - A promise that resolves when the image is deleted.
- * @throws {Error} - Throws an error if the image is not found or there is an issue deleting the image.
+ * @throws {Error} - Throws an error if the image is not found, belongs to another user or there is an issue deleting the image.
  */
 // DELETE IMAGE
 export async function deleteImage(imageId: string) {
   try {
-    await connect();
+    const user = await getCurrentUser();
 
-    await Image.findByIdAndDelete(imageId);
+    await deleteOwnedImage(imageId, user._id.toString());
   } catch (error) {
     handleError(error)
-  } finally{
-    redirect('/')
   }
+
+  // Outside the try block: `redirect` throws, and only a deleted image leaves its page
+  redirect('/')
 }; // End of deleteImage
 
 /**
- * Retrieves an image by its unique identifier.
+ * Retrieves an image by its unique identifier, if the signed-in user may view it.
+ *
+ * Private images are only returned to their author; unlisted images also with a valid share token.
  *
  * @param {string} imageId - The unique identifier of the image to retrieve.
+ * @param {string} [shareToken] - The token of a share link of the image.
  * @returns {Promise<any>} - The retrieved image object.
- * @throws {Error} - Throws an error if the image is not found.
+ * @throws {Error} - Throws an error if the image is not found or the user may not view it.
  */
 // GET IMAGE
-export async function getImageById(imageId: string) {
+export async function getImageById(imageId: string, shareToken?: string) {
   try {
-    await connect();
+    const { userId: clerkId } = auth();
 
-    const image = await populateUser(Image.findById(imageId));
+    const image = await findViewableImage(imageId, { clerkId, shareToken });
 
     if(!image) throw new Error("Image not found");
 
@@ -127,108 +219,204 @@ export async function getImageById(imageId: string) {
 }; // End of getImageById
 
 /**
- * Retrieves all images from the database, with pagination and optional search query support.
+ * Retrieves the version history of an image owned by the signed-in user, newest first.
  *
- * @param {Object} options - The options for retrieving the images.
- * @param {number} [options.limit=9] - The maximum number of images to retrieve per page.
- * @param {number} options.page - The page number to retrieve.
- * @param {string} [options.searchQuery=''] - The search query to filter the images.
- * @returns {Promise<{ data: any[]; totalPage: number; savedImages: number }>} - An object containing the retrieved images, the total number of pages, and the total number of saved images.
+ * @param {string} imageId - The unique identifier of the image.
+ * @returns {Promise<any[]>} - The snapshots taken before each update or revert.
+ * @throws {Error} - Throws an error if the image is not found or the user is not its author.
  */
-// GET IMAGES
-export async function getAllImages({ limit = 9, page = 1, searchQuery = '' }: {
-  limit?: number;
-  page: number;
-  searchQuery?: string;
-}) {
+// GET IMAGE VERSIONS
+export async function getImageVersions(imageId: string) {
   try {
-    await connect();
+    const user = await getCurrentUser();
+
+    if (!await Image.exists({ _id: imageId, author: user._id })) throw new Error("Image not found");
+
+    const versions = await ImageVersion.find({ image: imageId }).sort({ version: -1 });
 
-    cloudinary.config({
-      cloud_name: process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME,
-      api_key: process.env.CLOUDINARY_API_KEY,
-      api_secret: process.env.CLOUDINARY_API_SECRET,
-      secure: true,
-    })
+    return JSON.parse(JSON.stringify(versions));
+  } catch (error) {
+    handleError(error)
+  }
+}; // End of getImageVersions
 
-    let expression = 'folder=imaginify';
+/**
+ * Restores an image owned by the signed-in user to one of its previous versions.
+ *
+ * The current state is snapshotted first, so a revert can itself be reverted. A version made from
+ * another original brings that original back, as versions keep their originals stored.
+ *
+ * @param {Object} params - The parameters for reverting the image.
+ * @param {string} params.imageId - The unique identifier of the image.
+ * @param {string} params.versionId - The unique identifier of the version to restore.
+ * @param {string} params.path - The path to revalidate after the revert.
+ * @returns {Promise<Object>} - The reverted image object.
+ * @throws {Error} - Throws an error if the image or version is not found or the user is unauthorized.
+ */
+// REVERT IMAGE
+export async function revertImageVersion({ imageId, versionId, path }: RevertImageVersionParams) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+    const image = await Image.findById(imageId);
 
-    if (searchQuery) {
-      expression += ` AND ${searchQuery}`
+    if (!image || !image.author?.equals(user._id)) {
+      throw new Error("Unauthorized or image not found");
     }
 
-    const { resources } = await cloudinary.search
-      .expression(expression)
-      .execute();
+    const version = await ImageVersion.findOne({ _id: versionId, image: image._id });
 
-    const resourceIds = resources.map((resource: any) => resource.public_id);
+    if (!version) throw new Error("Version not found");
 
-    let query = {};
+    // Versions without an original were made from the current one
+    const fields = version.publicId ? VERSIONED_FIELDS : VERSIONED_FIELDS.filter((field) => !ORIGINAL_FIELDS.includes(field));
+    const isNewOriginal = !!version.publicId && version.publicId !== image.publicId;
 
-    if(searchQuery) {
-      query = {
-        publicId: {
-          $in: resourceIds
-        }
-      }
-    }
+    const revertedImage = await withTransaction(undefined, async (session) => {
+      await snapshotImage(image, session);
 
-    const skipAmount = (Number(page) -1) * limit;
+      const restored = Object.fromEntries(fields.map((field) => [field, version[field]]));
 
-    const images = await populateUser(Image.find(query))
-      .sort({ updatedAt: -1 })
-      .skip(skipAmount)
-      .limit(limit);
-    
-    const totalImages = await Image.find(query).countDocuments();
-    const savedImages = await Image.find().countDocuments();
+      return Image.findByIdAndUpdate(
+        image._id,
+        { ...restored, updatedAt: new Date() },
+        { new: true, session }
+      );
+    });
 
-    return {
-      data: JSON.parse(JSON.stringify(images)),
-      totalPage: Math.ceil(totalImages / limit),
-      savedImages,
-    }
+    if (isNewOriginal) await refreshStorageUsage(user._id.toString());
+
+    revalidatePath(path);
+
+    const savedImage = JSON.parse(JSON.stringify(revertedImage));
+
+    await emitWebhookEvent(user._id.toString(), "image.updated", { image: savedImage, revertedTo: version.version });
+
+    return savedImage;
+  } catch (error) {
+    handleError(error)
+  }
+}; // End of revertImageVersion
+
+/**
+ * Retrieves all public images from the database, with cursor pagination, full-text search and filters.
+ *
+ * @param {Object} options - The options for retrieving the images.
+ * @param {number} [options.limit=9] - The maximum number of images to retrieve per page.
+ * @param {string} [options.cursor] - The `nextCursor` or `prevCursor` of a previous page, none for the first page.
+ * @param {string} [options.searchQuery=''] - The search terms, matched against titles, prompts, transformation types and author names.
+ * @param {Object} [options.filters] - Transformation type, aspect ratio, date range and sort order, see `buildImageSearch`.
+ * @param {boolean} [options.withTotal=false] - Whether to also return the (cached) number of matching images.
+ * @returns {Promise<{ data: any[]; nextCursor: string | null; prevCursor: string | null; total?: number; totalPages?: number }>} - The page of images and the cursors of the adjacent pages.
+ */
+// GET IMAGES
+export async function getAllImages({ limit = 9, cursor, searchQuery = '', filters = {}, withTotal = false }: {
+  limit?: number;
+  cursor?: string;
+  searchQuery?: string;
+  filters?: ImageSearchFilters;
+  withTotal?: boolean;
+}) {
+  try {
+    await connect();
+
+    const { query, projection, sort } = buildImageSearch(searchQuery, filters);
+
+    return await listImages({ query, projection, sort, cursor, limit, withTotal });
   } catch (error) {
     handleError(error)
   }
 }; // End of getAllImages
 
 /**
- * Retrieves the user's images from the database, with pagination support.
+ * Retrieves the user's images from the database, with cursor pagination.
+ *
+ * Private and unlisted images are only included when the signed-in user is that user.
  *
  * @param {Object} options - The options for retrieving the user's images.
  * @param {number} [options.limit=9] - The maximum number of images to retrieve per page.
- * @param {number} options.page - The page number to retrieve.
+ * @param {string} [options.cursor] - The `nextCursor` or `prevCursor` of a previous page, none for the first page.
  * @param {string} options.userId - The ID of the user whose images to retrieve.
- * @returns {Promise<{ data: any[]; totalPages: number }>} - An object containing the retrieved images and the total number of pages.
+ * @param {string} [options.albumId] - Only retrieve the images filed in this album.
+ * @param {string} [options.tag] - Only retrieve the images with this tag.
+ * @param {boolean} [options.withTotal=false] - Whether to also return the (cached) number of images.
+ * @returns {Promise<{ data: any[]; nextCursor: string | null; prevCursor: string | null; total?: number; totalPages?: number }>} - The page of images and the cursors of the adjacent pages.
  */
 // GET IMAGES BY USER
 export async function getUserImages({
   limit = 9,
-  page = 1,
+  cursor,
   userId,
+  albumId,
+  tag,
+  withTotal = false,
 }: {
   limit?: number;
-  page: number;
+  cursor?: string;
   userId: string;
+  albumId?: string;
+  tag?: string;
+  withTotal?: boolean;
 }) {
   try {
     await connect();
 
-    const skipAmount = (Number(page) - 1) * limit;
+    const { userId: clerkId } = auth();
+    const owner = await User.findById(userId).select("clerkId");
+
+    return await findUserImages({
+      userId,
+      albumId,
+      tag,
+      cursor,
+      limit,
+      withTotal,
+      includeHidden: !!clerkId && owner?.clerkId === clerkId,
+    });
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of getUserImages
+
+/**
+ * Extracts the dominant colors of an image, to pick a replacement color from.
+ *
+ * @param {string} params.imageId - A saved image the user may see, see `findViewableImage`.
+ * @param {string} params.publicId - Otherwise, an original the user uploaded, see `assertUploadOwner`.
+ * @returns {Promise<string[]>} - Up to `paletteSize` colors as hex without "#", most common first.
+ */
+// GET IMAGE PALETTE
+export async function getImagePalette({ imageId, publicId }: GetImagePaletteParams) {
+  try {
+    const user = await getCurrentUser();
+    const userId = user._id.toString();
+    let src: string;
+
+    if (imageId) {
+      const image = await findViewableImage(imageId, { userId });
+
+      if (!image) throw new Error("Image not found");
 
-    const images = await populateUser(Image.find({ author: userId }))
-      .sort({ updatedAt: -1 })
-      .skip(skipAmount)
-      .limit(limit);
+      src = image.publicId;
+    } else {
+      const asset = await getStoredAsset(publicId ?? "");
+
+      await assertUploadOwner(userId, asset);
+
+      src = asset.publicId;
+    }
 
-    const totalImages = await Image.find({ author: userId }).countDocuments();
+    // A thumbnail has plenty of pixels to tell the dominant colors
+    const { data } = await getTransformationProvider().render({ src, width: 200 });
+    const { data: pixels, info } = await sharp(data)
+      .resize(64, 64, { fit: "inside" })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
 
-    return {
-      data: JSON.parse(JSON.stringify(images)),
-      totalPages: Math.ceil(totalImages / limit),
-    };
+    return extractPalette(pixels, info.channels, paletteSize);
   } catch (error) {
     handleError(error);
   }
-}; // End of getUserImages
\ No newline at end of file
+}; // End of getImagePalette
@@ -0,0 +1,60 @@
+"use server";
+
+import { getCurrentUser } from "@/lib/auth";
+import { InsufficientCreditsError } from "@/lib/credits";
+import { connect } from "@/lib/database/db";
+import { PlanLimitExceededError } from "@/lib/entitlements";
+import { enqueueTransformationJob, toTransformationJobView } from "@/lib/jobs";
+import { handleError } from "@/lib/utils";
+
+/**
+ * Charges the signed-in user for one transformation, or for every step of a pipeline, and queues
+ * the job rendering it on the server.
+ *
+ * The user is resolved from the Clerk session and the price is computed on the server from the
+ * `cost` of the transformation types, so the client can neither pick whose credits are spent nor
+ * the price of a step. The client follows the job on `/api/jobs/[id]` and applies the
+ * transformation once it succeeded; a job that fails is refunded.
+ *
+ * @param params.imageId - The ID of the image being transformed, when it has already been saved.
+ * @param params.publicId - The public ID of the original being transformed.
+ * @param params.type - The transformation type with its `config`, or "pipeline" with its `steps`.
+ * @param params.aspectRatio - The size of a fill or crop. Otherwise the size of the original is priced, as the
+ * provider stores it.
+ * @returns The queued job, an `INSUFFICIENT_CREDITS` error when the balance cannot cover the price, or a
+ * `PLAN_LIMIT` error when the user's plan does not grant the transformation.
+ */
+export async function createTransformationJob(
+  { imageId, publicId, aspectRatio, config, ...transformation }: CreateTransformationJobParams
+): Promise<CreateTransformationJobResult | undefined> {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const job = await enqueueTransformationJob({
+      userId: user._id.toString(),
+      transformation,
+      publicId,
+      aspectRatio,
+      config,
+      imageId,
+    });
+
+    return { job: toTransformationJobView(job) };
+  } catch (error) {
+    if (error instanceof InsufficientCreditsError) {
+      return {
+        error: {
+          code: "INSUFFICIENT_CREDITS",
+          required: error.required,
+          creditBalance: error.balance,
+        },
+      };
+    }
+
+    if (error instanceof PlanLimitExceededError) return { error: error.limit };
+
+    handleError(error);
+  }
+}; // End of createTransformationJob
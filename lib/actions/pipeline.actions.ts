@@ -0,0 +1,80 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/lib/auth";
+import { connect } from "@/lib/database/db";
+import PipelinePreset from "@/lib/database/models/pipelinePreset.model";
+import { handleError } from "@/lib/utils";
+import { sanitizePipelineSteps } from "@/lib/pipelines";
+
+/**
+ * Saves the steps of a pipeline as a named preset of the signed-in user.
+ *
+ * Saving under an existing name replaces that preset's steps.
+ *
+ * @param params.name - The name of the preset.
+ * @param params.steps - The ordered pipeline steps.
+ * @returns The saved preset.
+ */
+export async function savePipelinePreset({ name, steps }: CreatePipelinePresetParams) {
+  try {
+    if (!name?.trim()) throw new Error("A preset needs a name");
+
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const preset = await PipelinePreset.findOneAndUpdate(
+      { author: user._id, name: name.trim() },
+      { steps: sanitizePipelineSteps(steps), updatedAt: new Date() },
+      { new: true, upsert: true }
+    );
+
+    revalidatePath("/transformations/pipeline");
+
+    return JSON.parse(JSON.stringify(preset));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of savePipelinePreset
+
+/**
+ * Retrieves the pipeline presets of the signed-in user, most recently updated first.
+ *
+ * @returns The user's presets.
+ */
+export async function getPipelinePresets() {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const presets = await PipelinePreset.find({ author: user._id }).sort({ updatedAt: -1 });
+
+    return JSON.parse(JSON.stringify(presets));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of getPipelinePresets
+
+/**
+ * Deletes a pipeline preset of the signed-in user.
+ *
+ * @param presetId - The ID of the preset to delete.
+ */
+export async function deletePipelinePreset(presetId: string) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const deleted = await PipelinePreset.findOneAndDelete({ _id: presetId, author: user._id });
+
+    if (!deleted) throw new Error("Unauthorized or preset not found");
+
+    revalidatePath("/transformations/pipeline");
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of deletePipelinePreset
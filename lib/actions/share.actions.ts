@@ -0,0 +1,97 @@
+"use server";
+
+import { randomBytes } from "crypto";
+import { revalidatePath } from "next/cache";
+
+import { getCurrentUser } from "@/lib/auth";
+import { connect } from "@/lib/database/db";
+import Image from "@/lib/database/models/image.model";
+import ShareLink from "@/lib/database/models/shareLink.model";
+import { handleError } from "@/lib/utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates a share link for an unlisted image of the signed-in user.
+ *
+ * The image can then be viewed at `/transformations/<id>?share=<token>`.
+ *
+ * @param params.imageId - The ID of the image to share.
+ * @param params.expiresInDays - The number of days the link stays valid, forever when omitted.
+ * @returns The share link.
+ */
+export async function createShareLink({ imageId, expiresInDays }: CreateShareLinkParams) {
+  try {
+    if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays < 1)) {
+      throw new Error("A share link expires after a whole number of days");
+    }
+
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const image = await Image.findOne({ _id: imageId, author: user._id });
+
+    if (!image) throw new Error("Unauthorized or image not found");
+
+    if (image.visibility !== "unlisted") throw new Error("Only unlisted images can be shared with a link");
+
+    const shareLink = await ShareLink.create({
+      image: image._id,
+      author: user._id,
+      token: randomBytes(18).toString("base64url"),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : undefined,
+    });
+
+    revalidatePath(`/transformations/${imageId}`);
+
+    return JSON.parse(JSON.stringify(shareLink));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of createShareLink
+
+/**
+ * Retrieves the share links of an image of the signed-in user, newest first.
+ *
+ * @param imageId - The ID of the image.
+ * @returns The share links, including revoked and expired ones.
+ */
+export async function getShareLinks(imageId: string) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const shareLinks = await ShareLink.find({ image: imageId, author: user._id }).sort({ createdAt: -1 });
+
+    return JSON.parse(JSON.stringify(shareLinks));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of getShareLinks
+
+/**
+ * Revokes a share link of the signed-in user. The link stops working immediately.
+ *
+ * @param shareLinkId - The ID of the share link to revoke.
+ */
+export async function revokeShareLink(shareLinkId: string) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const shareLink = await ShareLink.findOneAndUpdate(
+      { _id: shareLinkId, author: user._id, revokedAt: null },
+      { revokedAt: new Date() },
+      { new: true }
+    );
+
+    if (!shareLink) throw new Error("Unauthorized or share link not found");
+
+    revalidatePath(`/transformations/${shareLink.image}`);
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of revokeShareLink
@@ -0,0 +1,141 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import Stripe from "stripe";
+
+import { connect } from "@/lib/database/db";
+import Subscription from "@/lib/database/models/subscription.model";
+import User from "@/lib/database/models/user.model";
+import { handleError } from "@/lib/utils";
+import { getHigherPlanId } from "@/lib/plans";
+import { getCurrentUser } from "@/lib/auth";
+import { publishPlanTier } from "@/lib/entitlements";
+import { ACTIVE_SUBSCRIPTION_STATUSES, getPlanPrice, getSubscriptionPlan } from "@/lib/subscriptions";
+
+/**
+ * Finds the active subscription of the signed-in user.
+ */
+const findCurrentSubscription = async () => {
+  const user = await getCurrentUser();
+
+  const subscription = await Subscription.findOne({
+    user: user._id,
+    status: { $in: ACTIVE_SUBSCRIPTION_STATUSES },
+  });
+
+  if (!subscription) throw new Error("No active subscription");
+
+  return { user, subscription };
+};
+
+/**
+ * Retrieves the active subscription of a user, if any.
+ *
+ * @param userId - The ID of the user.
+ * @returns The subscription, or null when the user has no active subscription.
+ */
+export async function getActiveSubscription(userId: string) {
+  try {
+    await connect();
+
+    const subscription = await Subscription.findOne({
+      user: userId,
+      status: { $in: ACTIVE_SUBSCRIPTION_STATUSES },
+    });
+
+    return subscription ? JSON.parse(JSON.stringify(subscription)) : null;
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of getActiveSubscription
+
+/**
+ * Cancels the signed-in user's subscription at the end of the current billing period.
+ *
+ * The plan stays active until then; `customer.subscription.deleted` moves the user back to the free plan.
+ *
+ * @returns The updated subscription.
+ */
+export async function cancelSubscription() {
+  try {
+    await connect();
+
+    const { subscription } = await findCurrentSubscription();
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+    await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+      cancel_at_period_end: true,
+    });
+
+    const updatedSubscription = await Subscription.findByIdAndUpdate(
+      subscription._id,
+      { cancelAtPeriodEnd: true, updatedAt: new Date() },
+      { new: true }
+    );
+
+    revalidatePath("/credits");
+
+    return JSON.parse(JSON.stringify(updatedSubscription));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of cancelSubscription
+
+/**
+ * Moves the signed-in user's subscription to another plan, prorating the current period.
+ *
+ * Changing plan also undoes a scheduled cancellation. The new plan's credits are granted
+ * from the next paid invoice on.
+ *
+ * @param planId - The ID of the plan in `subscriptionPlans` to switch to.
+ * @returns The updated subscription.
+ */
+export async function changeSubscriptionPlan(planId: number) {
+  try {
+    await connect();
+
+    const plan = getSubscriptionPlan(planId);
+
+    if (!plan) throw new Error("Subscription plan not found");
+
+    const { user, subscription } = await findCurrentSubscription();
+    const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+    const stripeSubscription = await stripe.subscriptions.retrieve(subscription.stripeSubscriptionId);
+
+    await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+      items: [{
+        id: stripeSubscription.items.data[0].id,
+        price: await getPlanPrice(stripe, plan),
+      }],
+      metadata: {
+        plan: plan.name,
+        planId: plan._id,
+        credits: plan.credits,
+        buyerId: user._id.toString(),
+      },
+      cancel_at_period_end: false,
+      proration_behavior: "create_prorations",
+    });
+
+    const updatedSubscription = await Subscription.findByIdAndUpdate(
+      subscription._id,
+      { planId: plan._id, cancelAtPeriodEnd: false, updatedAt: new Date() },
+      { new: true }
+    );
+
+    const updatedUser = await User.findByIdAndUpdate(
+      user._id,
+      { planId: getHigherPlanId(user.packagePlanId, plan._id) },
+      { new: true }
+    );
+
+    await publishPlanTier(user.clerkId, updatedUser?.planId);
+
+    revalidatePath("/credits");
+
+    return JSON.parse(JSON.stringify(updatedSubscription));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of changeSubscriptionPlan
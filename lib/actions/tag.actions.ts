@@ -0,0 +1,67 @@
+"use server";
+
+import { getCurrentUser } from "@/lib/auth";
+import { connect } from "@/lib/database/db";
+import Image from "@/lib/database/models/image.model";
+import { PUBLIC_IMAGES_FILTER } from "@/lib/images";
+import { handleError } from "@/lib/utils";
+import { normalizeTag } from "@/lib/tags";
+
+const MAX_TAGS = 10;
+
+/**
+ * Counts the tags of the images matching `match`, most used first.
+ */
+const countTags = async (match: Record<string, unknown>, prefix = "") => {
+  const tags = await Image.aggregate([
+    { $match: { ...match, tags: prefix ? { $regex: `^${prefix}` } : { $exists: true, $ne: [] } } },
+    { $unwind: "$tags" },
+    ...(prefix ? [{ $match: { tags: { $regex: `^${prefix}` } } }] : []),
+    { $group: { _id: "$tags", count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: MAX_TAGS },
+  ]);
+
+  return tags.map(({ _id, count }) => ({ tag: _id as string, count: count as number }));
+};
+
+/**
+ * Autocompletes a tag from the tags the signed-in user already uses.
+ *
+ * @param prefix - The start of the tag, normalized like the tags themselves.
+ * @returns Up to 10 matching tags with how many images use them, most used first.
+ */
+export async function searchTags(prefix: string) {
+  try {
+    // Normalized tags only contain letters, digits and dashes, so the prefix is safe in a regex
+    const normalized = normalizeTag(prefix ?? "");
+
+    if (!normalized) return [];
+
+    await connect();
+
+    const user = await getCurrentUser();
+
+    return await countTags({ author: user._id }, normalized);
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of searchTags
+
+/**
+ * Retrieves the most used tags, of the public images or of the signed-in user's images.
+ *
+ * @param scope - `public` for the community feed, `mine` for the images of the signed-in user.
+ * @returns Up to 10 tags with how many images use them, most used first.
+ */
+export async function getPopularTags(scope: "public" | "mine" = "public") {
+  try {
+    await connect();
+
+    const match = scope === "mine" ? { author: (await getCurrentUser())._id } : PUBLIC_IMAGES_FILTER;
+
+    return await countTags(match);
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of getPopularTags
@@ -2,69 +2,77 @@
 
 import { redirect } from "next/navigation";
 import Stripe from "stripe";
-import { handleError } from "../utils";
+import { plans } from "@/constants";
+import { getCurrentUser } from "@/lib/auth";
 import { connect } from "../database/db";
-import Transaction from "../database/models/transaction.model";
-import { updateCredits } from "./user.actions";
+import Subscription from "../database/models/subscription.model";
+import { ACTIVE_SUBSCRIPTION_STATUSES, getPlanPrice, getSubscriptionPlan, SubscriptionPlan } from "../subscriptions";
 
 /**
  * Initiates a Stripe checkout session for a transaction and process payments.
  *
- * @param transaction - An object containing the details of the transaction, including the amount, plan, and buyer ID.
+ * In `payment` mode (the default) the credits are bought once. In `subscription` mode the buyer
+ * subscribes to one of the `subscriptionPlans` and is granted its credits on every paid invoice.
+ *
+ * The buyer is the signed-in user, and the price, credits and tier are read from the plan on the
+ * server, so the client only picks which plan is bought.
+ *
+ * @param transaction - The ID of the plan in `plans`, or in `subscriptionPlans` in `subscription` mode.
  * @returns A redirect to the Stripe checkout session URL.
  */
 export async function checkoutCredits(transaction: CheckoutTransactionParams){
 
     const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
-    const amount = Number(transaction.amount) * 100;
+    const plan = transaction.mode === 'subscription'
+      ? getSubscriptionPlan(transaction.planId)
+      : plans.find(({ _id }) => _id === transaction.planId);
+
+    // The free plan is granted on sign-up, not bought
+    if (!plan || plan.price <= 0) throw new Error("Plan not found");
+
+    await connect();
+
+    const buyer = await getCurrentUser();
+    const metadata = {
+      plan: plan.name,
+      planId: plan._id,
+      credits: plan.credits,
+      buyerId: buyer._id.toString(),
+    };
+
+    let lineItem: Stripe.Checkout.SessionCreateParams.LineItem = {
+      price_data: {
+        currency: 'usd',
+        unit_amount: plan.price * 100,
+        product_data: {
+          name: plan.name,
+        }
+      },
+      quantity: 1
+    };
+
+    if (transaction.mode === 'subscription') {
+      const activeSubscription = await Subscription.findOne({
+        user: buyer._id,
+        status: { $in: ACTIVE_SUBSCRIPTION_STATUSES },
+      });
+
+      if (activeSubscription) throw new Error("Already subscribed, change the current plan instead");
+
+      lineItem = { price: await getPlanPrice(stripe, plan as SubscriptionPlan), quantity: 1 };
+    }
+
     const session = await stripe.checkout.sessions.create({
-        line_items: [
-          {
-            price_data: {
-              currency: 'usd',
-              unit_amount: amount,
-              product_data: {
-                name: transaction.plan,
-              }
-            },
-            quantity: 1
-          }
-        ],
-        metadata: {
-          plan: transaction.plan,
-          credits: transaction.credits,
-          buyerId: transaction.buyerId,
-        },
-        mode: 'payment',
+        line_items: [lineItem],
+        metadata,
+        ...(transaction.mode === 'subscription' && {
+          subscription_data: { metadata },
+        }),
+        mode: transaction.mode ?? 'payment',
         success_url: `${process.env.NEXT_PUBLIC_SERVER_URL}/client`,
         cancel_url: `${process.env.NEXT_PUBLIC_SERVER_URL}/`,
       })
-    
+
       redirect(session.url!)
 
 }; // End of checkoutCredits
-
-
-
-/**
- * Creates a new transaction in the database and updates the buyer's credits.
- *
- * @param transaction - An object containing the details of the transaction, including the buyer ID and the number of credits to be added.
- * @returns The newly created transaction object.
- */
-export async function createTransaction(transaction: CreateTransactionParams) {
-    try {
-        await connect();
-        const newTransaction = await Transaction.create({
-            ...transaction,
-            buyer: transaction.buyerId,
-        });
-
-        await updateCredits(transaction.buyerId, transaction.credits);
-        return JSON.parse(JSON.stringify(newTransaction));
-        
-    } catch (error) {
-        handleError(error);
-        
-    }
-}; // End of createTransaction
\ No newline at end of file
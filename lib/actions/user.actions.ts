@@ -1,9 +1,28 @@
 "use server";
 
 import User from "@/lib/database/models/user.model";
-import { connect } from "@/lib/database/db";
 import { revalidatePath } from "next/cache";
 import { handleError } from "@/lib/utils";
+import { getPlanEntitlements, getPlanTier } from "@/lib/plans";
+import { getCurrentUser } from "@/lib/auth";
+import { recordOpeningBalance } from "@/lib/credits";
+import { connect, withTransaction } from "@/lib/database/db";
+import Album from "@/lib/database/models/album.model";
+import ApiKey from "@/lib/database/models/apiKey.model";
+import Batch from "@/lib/database/models/batch.model";
+import CreditLedger from "@/lib/database/models/creditLedger.model";
+import Image from "@/lib/database/models/image.model";
+import ImageVersion from "@/lib/database/models/imageVersion.model";
+import PipelinePreset from "@/lib/database/models/pipelinePreset.model";
+import ShareLink from "@/lib/database/models/shareLink.model";
+import Subscription from "@/lib/database/models/subscription.model";
+import TransformationJob from "@/lib/database/models/transformationJob.model";
+import Upload from "@/lib/database/models/upload.model";
+import WebhookDelivery from "@/lib/database/models/webhookDelivery.model";
+import WebhookEndpoint from "@/lib/database/models/webhookEndpoint.model";
+import { getAuthorName } from "@/lib/images";
+import { deleteUnreferencedAssets, refreshStorageUsage } from "@/lib/storage";
+import { cancelStripeSubscriptions } from "@/lib/subscriptions";
 
 
 /**
@@ -15,7 +34,16 @@ import { handleError } from "@/lib/utils";
 export async function createUser(user: CreateUserParams) {
     try {
       await connect();
-      const newUser = await User.create(user);
+
+      // The user and their opening ledger entry are stored together, so a retried Clerk webhook
+      // finds neither after a failure
+      const newUser = await withTransaction(undefined, async (session) => {
+        const [newUser] = await User.create([user], { session });
+
+        await recordOpeningBalance(newUser._id, newUser.creditBalance, session);
+
+        return newUser;
+      });
       // console.log("newUser", newUser);
       
       return JSON.parse(JSON.stringify(newUser));
@@ -52,7 +80,7 @@ export async function getUserById(userId: string) {
  *
  * @param clerkId - The Clerk ID of the user to update.
  * @param user - The updated user object.
- * @returns The updated user object, or throws an error if the update fails.
+ * @returns The updated user object, or null if the user is not in the database yet.
  */
 export async function updateUser(clerkId: string, user: UpdateUserParams) {
   try {
@@ -62,8 +90,12 @@ export async function updateUser(clerkId: string, user: UpdateUserParams) {
       new: true,
     });
 
-    if (!updatedUser) throw new Error("User update failed");
-    
+    // Not created yet, e.g. a `user.updated` delivered before `user.created`: nothing to update
+    if (!updatedUser) return null;
+
+    // Keep the author names searchable on the user's images
+    await Image.updateMany({ author: updatedUser._id }, { authorName: getAuthorName(updatedUser) });
+
     return JSON.parse(JSON.stringify(updatedUser));
   } catch (error) {
     handleError(error);
@@ -71,11 +103,20 @@ export async function updateUser(clerkId: string, user: UpdateUserParams) {
 }; // End of updateUser
 
 /**
- * Deletes a user from the database by their Clerk ID.
+ * Deletes a user from the database by their Clerk ID and applies the image deletion policy.
+ *
+ * The policy is read from `USER_DELETION_IMAGE_POLICY`:
+ * - `cascade` (default): the user's images are deleted, along with their originals at the image provider.
+ * - `anonymize`: the images are kept without an author.
+ * - `transfer`: the images are reassigned to the user in `USER_DELETION_TRANSFER_USER_ID`.
+ *
+ * The user's Stripe subscriptions are canceled right away. Their subscriptions, API keys, presets,
+ * batches, jobs, credit ledger and albums are deleted with them, and so are their share links unless
+ * the images are transferred.
  *
  * @param clerkId - The Clerk ID of the user to delete.
  * @returns The deleted user object, or null if the user was not found.
- * @throws Error if the user could not be deleted.
+ * @throws Error if the user could not be deleted or the policy is misconfigured.
  */
 export async function deleteUser(clerkId: string) {
   try {
@@ -84,12 +125,74 @@ export async function deleteUser(clerkId: string) {
     // Find user to delete
     const userToDelete = await User.findOne({ clerkId });
 
-    if (!userToDelete) {
-      throw new Error("User not found");
+    // Already deleted, e.g. a retried webhook delivery
+    if (!userToDelete) return null;
+
+    const policy = (process.env.USER_DELETION_IMAGE_POLICY || "cascade") as ImageDeletionPolicy;
+    const transferTo = process.env.USER_DELETION_TRANSFER_USER_ID;
+
+    if (!["cascade", "anonymize", "transfer"].includes(policy)) {
+      throw new Error(`Unknown image deletion policy: ${policy}`);
+    }
+
+    if (policy === "transfer" && (!transferTo || transferTo === userToDelete._id.toString())) {
+      throw new Error("USER_DELETION_TRANSFER_USER_ID must point to another user");
+    }
+
+    // Stop the billing first: when Stripe fails the user is kept, and the retried webhook tries again
+    await cancelStripeSubscriptions(userToDelete._id.toString());
+
+    const images = await Image.find({ author: userToDelete._id }).select("publicId");
+    const versionOriginals: string[] = policy === "cascade"
+      ? await ImageVersion.distinct("publicId", { image: { $in: images.map((image) => image._id) } })
+      : [];
+
+    // Delete user and apply the image policy in one unit of work
+    const deletedUser = await withTransaction(undefined, async (session) => {
+      if (policy === "cascade") {
+        await Image.deleteMany({ author: userToDelete._id }, { session });
+        await ImageVersion.deleteMany({ image: { $in: images.map((image) => image._id) } }, { session });
+        await ShareLink.deleteMany({ author: userToDelete._id }, { session });
+      } else if (policy === "anonymize") {
+        await Image.updateMany({ author: userToDelete._id }, { $unset: { author: 1, authorName: 1, albums: 1 } }, { session });
+        // A share link needs its author to be resolved, see `findViewableImage`
+        await ShareLink.deleteMany({ author: userToDelete._id }, { session });
+      } else {
+        const newAuthor = await User.findById(transferTo).session(session);
+
+        if (!newAuthor) throw new Error("USER_DELETION_TRANSFER_USER_ID must point to another user");
+
+        await Image.updateMany(
+          { author: userToDelete._id },
+          // Albums are personal and deleted with the user
+          { author: newAuthor._id, authorName: getAuthorName(newAuthor), albums: [] },
+          { session }
+        );
+        await ShareLink.updateMany({ author: userToDelete._id }, { author: transferTo }, { session });
+      }
+
+      await Album.deleteMany({ author: userToDelete._id }, { session });
+      await WebhookEndpoint.deleteMany({ user: userToDelete._id }, { session });
+      await WebhookDelivery.deleteMany({ user: userToDelete._id }, { session });
+      await Subscription.deleteMany({ user: userToDelete._id }, { session });
+      await TransformationJob.deleteMany({ user: userToDelete._id }, { session });
+      await Batch.deleteMany({ author: userToDelete._id }, { session });
+      await PipelinePreset.deleteMany({ author: userToDelete._id }, { session });
+      await ApiKey.deleteMany({ user: userToDelete._id }, { session });
+      await CreditLedger.deleteMany({ user: userToDelete._id }, { session });
+      await Upload.deleteMany({ user: userToDelete._id }, { session });
+
+      return User.findByIdAndDelete(userToDelete._id, { session });
+    });
+
+    // The image provider is not part of the transaction: a failure here only leaves orphaned assets
+    // behind, for `reconcileStorage`
+    if (policy === "cascade" && images.length) {
+      await deleteUnreferencedAssets([...images.map((image) => image.publicId), ...versionOriginals]);
     }
 
-    // Delete user
-    const deletedUser = await User.findByIdAndDelete(userToDelete._id);
+    if (policy === "transfer") await refreshStorageUsage(transferTo!);
+
     revalidatePath("/");
 
     return deletedUser ? JSON.parse(JSON.stringify(deletedUser)) : null;
@@ -99,29 +202,21 @@ export async function deleteUser(clerkId: string) {
 }; // End of deleteUser
 
 /**
- * Updates the credit balance for a user.
- *
- * @param userId - The ID of the user whose credits should be updated.
- * @param creditFee - The amount to add or subtract from the user's credit balance.
- * @returns The updated user object with the new credit balance, or throws an error if the update fails.
+ * Returns the plan of the signed-in user: its tier, what it grants and the storage they use.
  */
-export async function updateCredits(userId: string, creditFee: number) {
+export async function getPlanUsage() {
   try {
     await connect();
 
-    const updatedUserCredits = await User.findOneAndUpdate(
-      { _id: userId },
-      // { $inc: { creditBalance: creditFee }},
-      { $inc: { creditBalance: creditFee }},
-      { new: true }
-    )
-
-    if(!updatedUserCredits) throw new Error("User credits update failed");
+    const user = await getCurrentUser();
 
-    return JSON.parse(JSON.stringify(updatedUserCredits));
+    return {
+      planId: user.planId as number | undefined,
+      tier: getPlanTier(user.planId),
+      entitlements: getPlanEntitlements(user.planId),
+      storage: { bytes: user.storage?.bytes ?? 0, assets: user.storage?.assets ?? 0 } as StorageUsage,
+    };
   } catch (error) {
     handleError(error);
   }
-}; // End of updateCredits
-
-
+}; // End of getPlanUsage
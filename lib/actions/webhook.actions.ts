@@ -0,0 +1,125 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { webhookEvents } from "@/constants";
+import { getCurrentUser } from "@/lib/auth";
+import { connect } from "@/lib/database/db";
+import WebhookDelivery from "@/lib/database/models/webhookDelivery.model";
+import WebhookEndpoint from "@/lib/database/models/webhookEndpoint.model";
+import { handleError } from "@/lib/utils";
+import { assertPublicWebhookUrl, generateWebhookSecret, redeliverWebhook } from "@/lib/webhooks";
+
+const DELIVERY_LOG_SIZE = 20;
+
+/**
+ * Registers a webhook endpoint for the signed-in user.
+ *
+ * @param params.url - The HTTPS URL the events are POSTed to, on a public host, see `assertPublicWebhookUrl`.
+ * @param params.events - The events the endpoint subscribes to.
+ * @returns The endpoint, including the `secret` its payloads are signed with.
+ */
+export async function createWebhookEndpoint({ url, events }: CreateWebhookEndpointParams) {
+  try {
+    await assertPublicWebhookUrl(url);
+
+    if (!events?.length || !events.every((event) => webhookEvents.includes(event))) {
+      throw new Error("Select at least one known event");
+    }
+
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const endpoint = await WebhookEndpoint.create({
+      user: user._id,
+      url,
+      events: Array.from(new Set(events)),
+      secret: generateWebhookSecret(),
+    });
+
+    revalidatePath("/profile");
+
+    return JSON.parse(JSON.stringify(endpoint));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of createWebhookEndpoint
+
+/**
+ * Retrieves the webhook endpoints of the signed-in user with their latest deliveries, newest first.
+ *
+ * @returns The endpoints, each with a `deliveries` log.
+ */
+export async function getWebhookEndpoints() {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const endpoints = await WebhookEndpoint.find({ user: user._id }).sort({ createdAt: -1 });
+
+    const endpointsWithDeliveries = await Promise.all(endpoints.map(async (endpoint) => ({
+      ...endpoint.toObject(),
+      deliveries: await WebhookDelivery.find({ endpoint: endpoint._id })
+        .select("-payload")
+        .sort({ createdAt: -1 })
+        .limit(DELIVERY_LOG_SIZE),
+    })));
+
+    return JSON.parse(JSON.stringify(endpointsWithDeliveries));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of getWebhookEndpoints
+
+/**
+ * Deletes a webhook endpoint of the signed-in user along with its delivery log.
+ *
+ * @param endpointId - The ID of the endpoint to delete.
+ */
+export async function deleteWebhookEndpoint(endpointId: string) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const endpoint = await WebhookEndpoint.findOneAndDelete({ _id: endpointId, user: user._id });
+
+    if (!endpoint) throw new Error("Unauthorized or webhook endpoint not found");
+
+    await WebhookDelivery.deleteMany({ endpoint: endpoint._id });
+
+    revalidatePath("/profile");
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of deleteWebhookEndpoint
+
+/**
+ * Sends the payload of an earlier delivery again, as a new delivery.
+ *
+ * The payload keeps its event `id`, so receivers can recognize it as the same event.
+ *
+ * @param deliveryId - The ID of the delivery to resend.
+ * @returns The new delivery after its first attempt.
+ */
+export async function resendWebhookDelivery(deliveryId: string) {
+  try {
+    await connect();
+
+    const user = await getCurrentUser();
+
+    const delivery = await WebhookDelivery.findOne({ _id: deliveryId, user: user._id });
+
+    if (!delivery) throw new Error("Unauthorized or delivery not found");
+
+    const attempted = await redeliverWebhook(delivery);
+
+    revalidatePath("/profile");
+
+    return JSON.parse(JSON.stringify(attempted));
+  } catch (error) {
+    handleError(error);
+  }
+}; // End of resendWebhookDelivery
@@ -0,0 +1,158 @@
+import { createHash, randomBytes } from "crypto";
+import { NextResponse } from "next/server";
+
+import { apiRateLimit } from "@/constants";
+import { connect } from "@/lib/database/db";
+import ApiKey from "@/lib/database/models/apiKey.model";
+import User from "@/lib/database/models/user.model";
+import { PlanLimitExceededError } from "@/lib/entitlements";
+import { getApiLimit } from "@/lib/plans";
+
+/**
+ * Helpers of the public `/api/v1` surface.
+ *
+ * Requests authenticate with a personal API key sent as `Authorization: Bearer <key>`.
+ * Keys are only ever stored hashed; the plain key is shown once, when it is issued.
+ */
+
+const API_KEY_PREFIX = "ig_";
+
+/**
+ * An error that is returned to the API client as a JSON body with the given status.
+ */
+export class ApiError extends Error {
+  status: number;
+  code: string;
+  details?: Record<string, unknown>;
+  headers?: Record<string, string>;
+
+  constructor(status: number, code: string, message: string, options: {
+    details?: Record<string, unknown>;
+    headers?: Record<string, string>;
+  } = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.details = options.details;
+    this.headers = options.headers;
+  }
+}
+
+export const hashApiKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+/**
+ * Generates a new API key.
+ *
+ * @returns The plain key, the prefix shown to the user and the hash to store.
+ */
+export const generateApiKey = () => {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 6), hashedKey: hashApiKey(key) };
+};
+
+/**
+ * Counts a request against the fixed rate limit window of a key.
+ *
+ * @throws ApiError 429 when the key has used up its window.
+ */
+const consumeRateLimit = async (apiKeyId: string) => {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - apiRateLimit.windowMs);
+
+  // Within the current window and under the limit
+  const counted = await ApiKey.findOneAndUpdate(
+    { _id: apiKeyId, rateLimitWindowStart: { $gt: windowStart }, rateLimitCount: { $lt: apiRateLimit.requests } },
+    { $inc: { rateLimitCount: 1 }, lastUsedAt: now },
+    { new: true }
+  );
+
+  if (counted) return;
+
+  // The window has expired: start a new one
+  const reset = await ApiKey.findOneAndUpdate(
+    { _id: apiKeyId, rateLimitWindowStart: { $lte: windowStart } },
+    { rateLimitWindowStart: now, rateLimitCount: 1, lastUsedAt: now },
+    { new: true }
+  );
+
+  if (reset) return;
+
+  const apiKey = await ApiKey.findById(apiKeyId);
+  const retryAfter = Math.max(
+    1,
+    Math.ceil((apiKey.rateLimitWindowStart.getTime() + apiRateLimit.windowMs - now.getTime()) / 1000)
+  );
+
+  throw new ApiError(429, "RATE_LIMITED", "Too many requests", {
+    headers: { "Retry-After": retryAfter.toString() },
+  });
+};
+
+/**
+ * Resolves the user of a request from its API key and applies the key's rate limit.
+ *
+ * @throws ApiError 401 when the key is missing, unknown or revoked.
+ * @throws PlanLimitExceededError when the owner's plan does not include API access.
+ */
+export async function authenticateApiRequest(request: Request) {
+  const [scheme, key] = request.headers.get("authorization")?.split(" ") ?? [];
+
+  if (scheme !== "Bearer" || !key?.startsWith(API_KEY_PREFIX)) {
+    throw new ApiError(401, "UNAUTHORIZED", "Missing or malformed API key");
+  }
+
+  await connect();
+
+  const apiKey = await ApiKey.findOne({ hashedKey: hashApiKey(key), revokedAt: null });
+
+  if (!apiKey) throw new ApiError(401, "UNAUTHORIZED", "Invalid or revoked API key");
+
+  const user = await User.findById(apiKey.user);
+
+  if (!user) throw new ApiError(401, "UNAUTHORIZED", "The owner of this API key no longer exists");
+
+  const apiLimit = getApiLimit(user.planId);
+
+  if (apiLimit) throw new PlanLimitExceededError(apiLimit);
+
+  await consumeRateLimit(apiKey._id);
+
+  return user;
+}; // End of authenticateApiRequest
+
+/**
+ * Wraps a `/api/v1` route handler: authenticates the request and turns errors into JSON responses.
+ *
+ * Plan limits are returned as 403 `PLAN_LIMIT` errors with the `reason` and the `requiredPlan`.
+ */
+export const withApiKey = <Context>(
+  handler: (request: Request, user: any, context: Context) => Promise<Response>
+) => async (request: Request, context: Context) => {
+  try {
+    const user = await authenticateApiRequest(request);
+
+    return await handler(request, user, context);
+  } catch (error) {
+    if (error instanceof PlanLimitExceededError) {
+      const { reason, message, requiredPlan } = error.limit;
+
+      return NextResponse.json({ error: { code: "PLAN_LIMIT", message, reason, requiredPlan } }, { status: 403 });
+    }
+
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: { code: error.code, message: error.message, ...error.details } },
+        { status: error.status, headers: error.headers }
+      );
+    }
+
+    console.error("API request failed", error);
+
+    return NextResponse.json(
+      { error: { code: "INTERNAL_ERROR", message: "Something went wrong" } },
+      { status: 500 }
+    );
+  }
+}; // End of withApiKey
@@ -0,0 +1,34 @@
+import { auth } from "@clerk/nextjs/server";
+
+import { connect } from "@/lib/database/db";
+import User from "@/lib/database/models/user.model";
+
+/**
+ * Authentication of the server actions.
+ *
+ * The server actions of `lib/actions` resolve the signed-in user with `getCurrentUser`. The other
+ * modules of `lib` are NOT server actions: their helpers take the user id as a trusted argument, so
+ * only server code that authenticated the user (actions, route handlers, webhooks) may call them,
+ * never the client.
+ */
+
+/**
+ * Resolves the Mongo user of the signed-in Clerk session.
+ *
+ * Server actions use this instead of trusting a user id sent by the client.
+ *
+ * @throws Error if there is no session or no matching user.
+ */
+export async function getCurrentUser() {
+  const { userId: clerkId } = auth();
+
+  if (!clerkId) throw new Error("Unauthorized");
+
+  await connect();
+
+  const user = await User.findOne({ clerkId });
+
+  if (!user) throw new Error("User not found");
+
+  return user;
+}; // End of getCurrentUser
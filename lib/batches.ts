@@ -0,0 +1,117 @@
+import { ClientSession } from "mongoose";
+
+import { batchReservationTtlMs } from "@/constants";
+import { grantCredits } from "@/lib/credits";
+import { connect, withTransaction } from "@/lib/database/db";
+import Batch from "@/lib/database/models/batch.model";
+
+/**
+ * Closing of batch transformations.
+ *
+ * A batch reserves the credits of all of its images up front, see `createBatch`. Closing it refunds
+ * the images that were never saved: the form closes its batch with `completeBatch` once every image
+ * was processed, and `closeExpiredBatches` closes the batches left open, e.g. by a closed tab.
+ */
+
+/**
+ * Reserves the image at `index` of an open batch of a user for one transformation job, which the
+ * credits reserved by the batch pay for. Each image is rendered at most once.
+ *
+ * @param size - The size the image is rendered at, which may not be larger than the size charged for it.
+ * @throws Error if the batch is not open, the image was already queued, or it is larger than charged.
+ * @returns The batch.
+ */
+export async function reserveBatchItem(
+  { batchId, userId, type, index, size }: {
+    batchId: string;
+    userId: string;
+    type: string;
+    index: number;
+    size: { width: number; height: number };
+  },
+  session: ClientSession
+) {
+  if (!Number.isInteger(index) || index < 0) throw new Error("Invalid batch image index");
+
+  const batch = await Batch.findOneAndUpdate(
+    { _id: batchId, author: userId, transformationType: type, status: "open", queuedItems: { $ne: index }, total: { $gt: index } },
+    { $push: { queuedItems: index } },
+    { new: true, session }
+  );
+
+  if (!batch) throw new Error("Batch not found, closed or image already transformed");
+
+  const charged = batch.sizes[index];
+
+  if (!charged || size.width > charged.width || size.height > charged.height) {
+    throw new Error("The image is larger than the size it was charged for");
+  }
+
+  return batch;
+}; // End of reserveBatchItem
+
+/**
+ * Closes an open batch and refunds the credits of the images that were not saved.
+ *
+ * Closing is idempotent: only the first call refunds.
+ *
+ * @param filter - Selects the batch, e.g. by ID and author.
+ * @returns The closed batch, or null if no open batch matches.
+ */
+export async function closeBatch(filter: Record<string, unknown>) {
+  return withTransaction(undefined, async (session) => {
+    const batch = await Batch.findOneAndUpdate(
+      { ...filter, status: "open" },
+      { status: "completed", completedAt: new Date() },
+      { new: true, session }
+    );
+
+    if (!batch) return null;
+
+    const refund = batch.costs
+      .filter((_: number, index: number) => !batch.savedItems.includes(index))
+      .reduce((total: number, cost: number) => total + cost, 0);
+
+    if (refund > 0) {
+      await grantCredits({
+        userId: batch.author.toString(),
+        amount: refund,
+        reason: "batch refund",
+        batchId: batch._id,
+        session,
+      });
+
+      batch.creditsRefunded = refund;
+      await batch.save({ session });
+    }
+
+    return batch;
+  });
+}; // End of closeBatch
+
+/**
+ * Closes the batches open for longer than `batchReservationTtlMs` and refunds their unsaved images.
+ *
+ * @param limit - The maximum number of batches to close in this run.
+ * @returns The number of batches closed.
+ */
+export async function closeExpiredBatches({ limit = 100, now = new Date() }: { limit?: number; now?: Date } = {}) {
+  await connect();
+
+  const expired = await Batch.find({ status: "open", createdAt: { $lte: new Date(now.getTime() - batchReservationTtlMs) } })
+    .select("_id")
+    .sort({ createdAt: 1 })
+    .limit(limit);
+
+  let closed = 0;
+
+  for (const { _id } of expired) {
+    try {
+      if (await closeBatch({ _id })) closed++;
+    } catch (error) {
+      console.error("Failed to close expired batch", _id, error);
+    }
+  }
+
+  return closed;
+}; // End of closeExpiredBatches
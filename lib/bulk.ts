@@ -0,0 +1,51 @@
+import { maxBulkImages } from "@/constants";
+import { connect } from "@/lib/database/db";
+import Image from "@/lib/database/models/image.model";
+
+/**
+ * Runs a bulk action image by image and reports the outcome of each.
+ *
+ * Every ID is checked to belong to `userId` before `action` runs on it, and a failing image does
+ * not stop the others.
+ *
+ * @param action - Applies the bulk action to one image, loaded as a document.
+ * @returns One result per distinct image ID, in the order they were given.
+ * @throws Error if no IDs or more than `maxBulkImages` were given.
+ */
+export async function runBulkAction(
+  imageIds: string[],
+  userId: string,
+  action: (image: any) => Promise<unknown>
+): Promise<BulkActionResult[]> {
+  const ids = Array.from(new Set(Array.isArray(imageIds) ? imageIds.map(String) : []));
+
+  if (!ids.length) throw new Error("No images selected");
+  if (ids.length > maxBulkImages) throw new Error(`At most ${maxBulkImages} images can be changed at once`);
+
+  await connect();
+
+  const validIds = ids.filter((id) => /^[0-9a-f]{24}$/i.test(id));
+  const images = await Image.find({ _id: { $in: validIds }, author: userId });
+  const imagesById = new Map(images.map((image) => [image._id.toString(), image]));
+
+  const results: BulkActionResult[] = [];
+
+  // One at a time, so a large selection does not flood the database or the image provider
+  for (const id of ids) {
+    const image = imagesById.get(id);
+
+    if (!image) {
+      results.push({ id, ok: false, error: "Unauthorized or image not found" });
+      continue;
+    }
+
+    try {
+      await action(image);
+      results.push({ id, ok: true });
+    } catch (error) {
+      results.push({ id, ok: false, error: error instanceof Error ? error.message : "Something went wrong" });
+    }
+  }
+
+  return results;
+}; // End of runBulkAction
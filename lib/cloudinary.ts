@@ -0,0 +1,41 @@
+import { v2 as cloudinary } from "cloudinary";
+
+/**
+ * Returns the Cloudinary SDK configured with the server-side credentials.
+ */
+export const getCloudinary = () => {
+  cloudinary.config({
+    cloud_name: process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME,
+    api_key: process.env.CLOUDINARY_API_KEY,
+    api_secret: process.env.CLOUDINARY_API_SECRET,
+    secure: true,
+  });
+
+  return cloudinary;
+};
+
+// The Admin API deletes at most 100 resources per call.
+const DELETE_BATCH_SIZE = 100;
+
+/**
+ * Deletes the given Cloudinary assets, including their derived transformations.
+ *
+ * @param publicIds - The public IDs of the assets to delete.
+ * @returns The public IDs Cloudinary reported as deleted.
+ */
+export async function deleteCloudinaryAssets(publicIds: string[]) {
+  const cld = getCloudinary();
+  const deleted: string[] = [];
+
+  for (let i = 0; i < publicIds.length; i += DELETE_BATCH_SIZE) {
+    const { deleted: result } = await cld.api.delete_resources(
+      publicIds.slice(i, i + DELETE_BATCH_SIZE)
+    );
+
+    deleted.push(
+      ...Object.keys(result).filter((publicId) => result[publicId] === "deleted")
+    );
+  }
+
+  return deleted;
+}; // End of deleteCloudinaryAssets
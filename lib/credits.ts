@@ -0,0 +1,240 @@
+import { ClientSession, Types } from "mongoose";
+
+import { transformationTypes } from "@/constants";
+import { connect, withTransaction } from "@/lib/database/db";
+import User from "@/lib/database/models/user.model";
+import CreditLedger from "@/lib/database/models/creditLedger.model";
+import { assertWithinPlan } from "@/lib/entitlements";
+import { sanitizePipelineSteps } from "@/lib/pipelines";
+import { getChargedCost } from "@/lib/pricing";
+import { getTransformationLimit } from "@/lib/plans";
+import { emitCreditsLowIfCrossed } from "@/lib/webhooks";
+
+/**
+ * Credit ledger helpers.
+ *
+ * Every change to `User.creditBalance` goes through this module so that it is
+ * paired with a `CreditLedger` entry.
+ */
+
+/**
+ * Thrown by `debitCredits` when the user's balance cannot cover the debit.
+ */
+export class InsufficientCreditsError extends Error {
+  required: number;
+  balance: number;
+
+  constructor(required: number, balance: number) {
+    super(`Insufficient credits: ${required} required, ${balance} available`);
+    this.name = "InsufficientCreditsError";
+    this.required = required;
+    this.balance = balance;
+  }
+}
+
+type CreditChangeParams = {
+  userId: string;
+  amount: number;
+  reason: string;
+  imageId?: string;
+  transactionId?: string;
+  batchId?: string;
+  jobId?: string;
+  session?: ClientSession;
+};
+
+/**
+ * Atomically removes `amount` credits from a user and records the debit.
+ *
+ * The balance is only decremented when it is at least `amount`, so it can never go negative.
+ *
+ * @throws InsufficientCreditsError if the balance is too low.
+ * @returns The created ledger entry.
+ */
+export async function debitCredits({ userId, amount, reason, imageId, transactionId, batchId, jobId, session }: CreditChangeParams) {
+  if (amount <= 0) throw new Error("Debit amount must be positive");
+
+  return withTransaction(session, async (session) => {
+    const user = await User.findOneAndUpdate(
+      { _id: userId, creditBalance: { $gte: amount } },
+      { $inc: { creditBalance: -amount } },
+      { new: true, session }
+    );
+
+    if (!user) {
+      const current = await User.findById(userId).session(session);
+
+      if (!current) throw new Error("User not found");
+
+      throw new InsufficientCreditsError(amount, current.creditBalance);
+    }
+
+    const [entry] = await CreditLedger.create([{
+      user: user._id,
+      type: "debit",
+      amount: -amount,
+      balanceAfter: user.creditBalance,
+      reason,
+      image: imageId,
+      transaction: transactionId,
+      batch: batchId,
+      job: jobId,
+    }], { session });
+
+    return entry;
+  });
+}; // End of debitCredits
+
+/**
+ * Charges a user for one transformation, or for every step of a pipeline.
+ *
+ * The price comes from the `cost` of the types in `transformationTypes` and the size of the image,
+ * see `getTransformationCost`. Sends a `credits.low` webhook when the charge takes the balance below
+ * `lowCreditsThreshold`.
+ *
+ * @throws PlanLimitExceededError if the user's plan does not grant a type or the output size.
+ * @throws InsufficientCreditsError if the balance is too low.
+ * @returns The created ledger entry.
+ */
+export async function chargeTransformation({ userId, transformation, imageId, jobId, session }: {
+  userId: string;
+  transformation: ChargedTransformation;
+  imageId?: string;
+  jobId?: string;
+  session?: ClientSession;
+}) {
+  const { type, width, height } = transformation;
+
+  if (type !== "pipeline" && !(type in transformationTypes)) throw new Error(`Unknown transformation type: ${type}`);
+
+  if (![width, height].every((dimension) => Number.isFinite(dimension) && dimension > 0)) {
+    throw new Error("Invalid image size");
+  }
+
+  const steps = type === "pipeline" ? sanitizePipelineSteps(transformation.steps ?? []) : undefined;
+  const user = await User.findById(userId).select("planId").session(session ?? null);
+
+  if (!user) throw new Error("User not found");
+
+  assertWithinPlan(getTransformationLimit(user.planId, { type, width, height, steps }));
+
+  const amount = getChargedCost({ type, width, height, steps });
+
+  const entry = await debitCredits({
+    userId,
+    amount,
+    reason: steps ? "pipeline transformation" : "transformation",
+    imageId,
+    jobId,
+    session,
+  });
+
+  // Inside a transaction the caller decides when the debit is final
+  if (!session) await emitCreditsLowIfCrossed(userId, entry.balanceAfter, amount);
+
+  return entry;
+}; // End of chargeTransformation
+
+/**
+ * Adds `amount` credits to a user and records the grant.
+ *
+ * @returns The created ledger entry.
+ */
+export async function grantCredits({ userId, amount, reason, imageId, transactionId, batchId, jobId, session }: CreditChangeParams) {
+  if (amount <= 0) throw new Error("Credit amount must be positive");
+
+  return withTransaction(session, async (session) => {
+    const user = await User.findOneAndUpdate(
+      { _id: userId },
+      { $inc: { creditBalance: amount } },
+      { new: true, session }
+    );
+
+    if (!user) throw new Error("User not found");
+
+    const [entry] = await CreditLedger.create([{
+      user: user._id,
+      type: "credit",
+      amount,
+      balanceAfter: user.creditBalance,
+      reason,
+      image: imageId,
+      transaction: transactionId,
+      batch: batchId,
+      job: jobId,
+    }], { session });
+
+    return entry;
+  });
+}; // End of grantCredits
+
+/**
+ * Takes back up to `amount` credits, e.g. after a refund or dispute.
+ *
+ * Unlike `debitCredits` this never fails on a low balance: it debits whatever is
+ * left and reports the rest as a shortfall.
+ *
+ * @returns The number of credits actually recovered and the unrecoverable shortfall.
+ */
+export async function clawbackCredits({ userId, amount, reason, transactionId, session }: CreditChangeParams) {
+  return withTransaction(session, async (session) => {
+    const user = await User.findById(userId).session(session);
+
+    if (!user) throw new Error("User not found");
+
+    const recovered = Math.max(0, Math.min(amount, user.creditBalance));
+
+    if (recovered > 0) {
+      await debitCredits({ userId, amount: recovered, reason, transactionId, session });
+    }
+
+    return { recovered, shortfall: amount - recovered };
+  });
+}; // End of clawbackCredits
+
+/**
+ * Compares a user's `creditBalance` with the sum of their ledger entries.
+ *
+ * A non-zero `difference` means the balance was changed outside of the ledger.
+ */
+export async function reconcileCredits(userId: string) {
+  await connect();
+
+  const user = await User.findById(userId);
+
+  if (!user) throw new Error("User not found");
+
+  const [totals] = await CreditLedger.aggregate([
+    { $match: { user: new Types.ObjectId(userId) } },
+    { $group: { _id: "$user", total: { $sum: "$amount" }, entries: { $sum: 1 } } },
+  ]);
+
+  const ledgerTotal = totals?.total ?? 0;
+
+  return {
+    userId,
+    creditBalance: user.creditBalance as number,
+    ledgerTotal: ledgerTotal as number,
+    entries: (totals?.entries ?? 0) as number,
+    difference: user.creditBalance - ledgerTotal,
+  };
+}; // End of reconcileCredits
+
+/**
+ * Records a newly created user's starting balance so that it reconciles with the ledger.
+ *
+ * Pass the session that creates the user, so a user is never stored without their opening entry.
+ */
+export async function recordOpeningBalance(userId: string, balance: number, session?: ClientSession) {
+  await connect();
+
+  const [entry] = await CreditLedger.create([{
+    user: userId,
+    type: "credit",
+    amount: balance,
+    balanceAfter: balance,
+    reason: "signup",
+  }], { session });
+
+  return entry;
+}; // End of recordOpeningBalance
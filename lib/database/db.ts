@@ -1,4 +1,4 @@
-import mongoose, { Mongoose } from "mongoose";
+import mongoose, { ClientSession, Mongoose } from "mongoose";
 
 const MONGODB_URL = process.env.MONGODB_URL!;
 
@@ -29,4 +29,18 @@ export const connect = async () => {
     cached.conn = await cached.promise;
 
     return cached.conn;
-};
\ No newline at end of file
+};
+
+/**
+ * Runs `fn` inside the given session, or opens a new transaction when none is passed.
+ */
+export const withTransaction = async <T>(
+    session: ClientSession | undefined,
+    fn: (session: ClientSession) => Promise<T>
+): Promise<T> => {
+    if (session) return fn(session);
+
+    const conn = await connect();
+
+    return conn.connection.transaction(fn);
+};
@@ -0,0 +1,30 @@
+import { Document, Schema, model, models } from "mongoose";
+
+export interface IAlbum extends Document {
+  name: string;
+  author: string;
+  parent?: string;
+  ancestors: string[];
+  position: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// A folder of images. Albums nest: `ancestors` lists every album above this one, root first,
+// so a whole subtree can be found with a single query.
+const AlbumSchema = new Schema({
+  name: { type: String, required: true, trim: true },
+  author: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  parent: { type: Schema.Types.ObjectId, ref: "Album", default: null },
+  ancestors: [{ type: Schema.Types.ObjectId, ref: "Album" }],
+  // Order among the albums with the same parent
+  position: { type: Number, default: 0 },
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+AlbumSchema.index({ author: 1, parent: 1, position: 1 });
+
+const Album = models?.Album || model("Album", AlbumSchema);
+
+export default Album;
@@ -0,0 +1,31 @@
+import { Document, Schema, model, models } from "mongoose";
+
+export interface IApiKey extends Document {
+  user: string;
+  name: string;
+  prefix: string;
+  hashedKey: string;
+  rateLimitWindowStart: Date;
+  rateLimitCount: number;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt?: Date;
+}
+
+// A personal key for the public API. Only the SHA-256 hash of the key is stored;
+// `prefix` is kept in clear so the user can tell their keys apart.
+const ApiKeySchema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+  name: { type: String, required: true },
+  prefix: { type: String, required: true },
+  hashedKey: { type: String, required: true, unique: true },
+  rateLimitWindowStart: { type: Date, default: () => new Date(0) },
+  rateLimitCount: { type: Number, default: 0 },
+  lastUsedAt: { type: Date },
+  revokedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const ApiKey = models?.ApiKey || model("ApiKey", ApiKeySchema);
+
+export default ApiKey;
@@ -0,0 +1,87 @@
+import { Document, Schema, model, models } from "mongoose";
+
+export interface IBatch extends Document {
+  author: string;
+  transformationType: string;
+  config?: object;
+  total: number;
+  saved: number;
+  costs: number[];
+  sizes: { width: number; height: number }[];
+  savedItems: number[];
+  queuedItems: number[];
+  creditsCharged: number;
+  creditsRefunded: number;
+  status: "open" | "completed";
+  createdAt?: Date;
+  completedAt?: Date;
+}
+
+const BatchSchema = new Schema({
+  author: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  transformationType: {
+    type: String,
+    required: true,
+  },
+  config: {
+    type: Object,
+  },
+  // Number of images the credits were reserved for, and how many were saved.
+  total: {
+    type: Number,
+    required: true,
+  },
+  saved: {
+    type: Number,
+    default: 0,
+  },
+  // Credits charged for each image, by index, and the indexes of the images that were saved.
+  costs: {
+    type: [Number],
+    default: [],
+  },
+  savedItems: {
+    type: [Number],
+    default: [],
+  },
+  // Indexes of the images whose transformation job was queued, each image is rendered once.
+  queuedItems: {
+    type: [Number],
+    default: [],
+  },
+  // Size each image was charged for, by index; a saved image may not be larger.
+  sizes: {
+    type: [{ _id: false, width: Number, height: Number }],
+    default: [],
+  },
+  creditsCharged: {
+    type: Number,
+    required: true,
+  },
+  creditsRefunded: {
+    type: Number,
+    default: 0,
+  },
+  status: {
+    type: String,
+    enum: ["open", "completed"],
+    default: "open",
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  completedAt: {
+    type: Date,
+  },
+});
+
+BatchSchema.index({ status: 1, createdAt: 1 });
+
+const Batch = models?.Batch || model("Batch", BatchSchema);
+
+export default Batch;
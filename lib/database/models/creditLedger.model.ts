@@ -0,0 +1,65 @@
+import { Document, Schema, model, models } from "mongoose";
+
+export interface ICreditLedger extends Document {
+  user: string;
+  type: "debit" | "credit";
+  amount: number;
+  balanceAfter: number;
+  reason: string;
+  image?: string;
+  transaction?: string;
+  batch?: string;
+  job?: string;
+  createdAt?: Date;
+}
+
+const CreditLedgerSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+    index: true,
+  },
+  type: {
+    type: String,
+    enum: ["debit", "credit"],
+    required: true,
+  },
+  // Signed amount: negative for debits, positive for credits.
+  amount: {
+    type: Number,
+    required: true,
+  },
+  balanceAfter: {
+    type: Number,
+    required: true,
+  },
+  reason: {
+    type: String,
+    required: true,
+  },
+  image: {
+    type: Schema.Types.ObjectId,
+    ref: "Image",
+  },
+  transaction: {
+    type: Schema.Types.ObjectId,
+    ref: "Transaction",
+  },
+  batch: {
+    type: Schema.Types.ObjectId,
+    ref: "Batch",
+  },
+  job: {
+    type: Schema.Types.ObjectId,
+    ref: "TransformationJob",
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const CreditLedger = models?.CreditLedger || model("CreditLedger", CreditLedgerSchema);
+
+export default CreditLedger;
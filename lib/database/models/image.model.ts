@@ -6,6 +6,7 @@ export interface IImage extends Document {
     transformationUrl?: URL;
     secureURL: URL;
     publicId: string;
+    bytes?: number;
     width?: number;
     height?: number;
     createdAt?: Date;
@@ -19,6 +20,17 @@ export interface IImage extends Document {
     firstname: string;
     lastName: string;
     };
+    authorName?: string;
+    batch?: string;
+    albums?: string[];
+    tags?: string[];
+    visibility?: ImageVisibility;
+    steps?: {
+    type: string;
+    aspectRatio?: string;
+    prompt?: string;
+    color?: string;
+    }[];
   }
 
 const ImageSchema = new Schema({
@@ -26,7 +38,9 @@ const ImageSchema = new Schema({
   transformationType: { type: String, required: true },
   transformationUrl: { type: String},
   secureURL: { type: String, required: true },
-  publicId: { type: String, required: true },
+  publicId: { type: String, required: true, index: true },
+  // Size of the original, as reported by the image provider
+  bytes: { type: Number },
   width: { type: Number },
   height: { type: Number },
   createdAt: { type: Date, default: Date.now },
@@ -36,8 +50,38 @@ const ImageSchema = new Schema({
   color: { type: String },
   prompt: { type: String },
   author: { type: Schema.Types.ObjectId, ref: "User" },
+  // Copy of the author's names so they are covered by the text index, see `getAuthorName`.
+  authorName: { type: String },
+  batch: { type: Schema.Types.ObjectId, ref: "Batch" },
+  // Albums of the author the image is filed in, an image can be in several
+  albums: [{ type: Schema.Types.ObjectId, ref: "Album", index: true }],
+  // Normalized with `normalizeTags`
+  tags: { type: [String], default: [], index: true },
+  // `unlisted` images can only be viewed by their author and through a `ShareLink`.
+  visibility: {
+    type: String,
+    enum: ["private", "unlisted", "public"],
+    default: "public",
+  },
+  // Ordered steps of a pipeline image, see `getPipelineConfig`.
+  steps: [{
+    _id: false,
+    type: { type: String, required: true },
+    aspectRatio: { type: String },
+    prompt: { type: String },
+    color: { type: String },
+  }],
 });
 
+// Full-text search of the community feed, ranked by where the terms match.
+ImageSchema.index(
+  { title: "text", prompt: "text", transformationType: "text", authorName: "text" },
+  {
+    name: "image_text_search",
+    weights: { title: 10, prompt: 5, authorName: 3, transformationType: 2 },
+  }
+);
+
 const Image = models?.Image || model("Image", ImageSchema);
 
 export default Image;
@@ -0,0 +1,50 @@
+import { Document, Schema, model, models } from "mongoose";
+
+export interface IImageVersion extends Document {
+  image: string;
+  version: number;
+  title?: string;
+  publicId?: string;
+  secureURL?: string;
+  bytes?: number;
+  transformationType?: string;
+  transformationUrl?: string;
+  width?: number;
+  height?: number;
+  config?: object;
+  aspectRatio?: string;
+  color?: string;
+  prompt?: string;
+  steps?: object[];
+  tags?: string[];
+  createdAt?: Date;
+}
+
+// A snapshot of an image taken right before it was updated or reverted.
+const ImageVersionSchema = new Schema({
+  image: { type: Schema.Types.ObjectId, ref: "Image", required: true },
+  version: { type: Number, required: true },
+  title: { type: String },
+  // The original the version was made from; it is kept at the provider while a version uses it
+  publicId: { type: String },
+  secureURL: { type: String },
+  bytes: { type: Number },
+  transformationType: { type: String },
+  transformationUrl: { type: String },
+  width: { type: Number },
+  height: { type: Number },
+  config: { type: Object },
+  aspectRatio: { type: String },
+  color: { type: String },
+  prompt: { type: String },
+  steps: { type: [Object], default: undefined },
+  tags: { type: [String], default: undefined },
+  createdAt: { type: Date, default: Date.now },
+});
+
+ImageVersionSchema.index({ image: 1, version: -1 }, { unique: true });
+ImageVersionSchema.index({ publicId: 1 });
+
+const ImageVersion = models?.ImageVersion || model("ImageVersion", ImageVersionSchema);
+
+export default ImageVersion;
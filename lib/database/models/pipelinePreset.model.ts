@@ -0,0 +1,34 @@
+import { Document, Schema, model, models } from "mongoose";
+
+export interface IPipelinePreset extends Document {
+  name: string;
+  author: string;
+  steps: {
+    type: string;
+    aspectRatio?: string;
+    prompt?: string;
+    color?: string;
+  }[];
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const PipelinePresetSchema = new Schema({
+  name: { type: String, required: true },
+  author: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+  steps: [{
+    _id: false,
+    type: { type: String, required: true },
+    aspectRatio: { type: String },
+    prompt: { type: String },
+    color: { type: String },
+  }],
+  createdAt: { type: Date, default: Date.now },
+  updatedAt: { type: Date, default: Date.now },
+});
+
+PipelinePresetSchema.index({ author: 1, name: 1 }, { unique: true });
+
+const PipelinePreset = models?.PipelinePreset || model("PipelinePreset", PipelinePresetSchema);
+
+export default PipelinePreset;
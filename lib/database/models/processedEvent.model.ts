@@ -0,0 +1,21 @@
+import { Schema, model, models } from "mongoose";
+
+const ProcessedEventSchema = new Schema({
+  eventId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  type: {
+    type: String,
+    required: true,
+  },
+  processedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const ProcessedEvent = models?.ProcessedEvent || model("ProcessedEvent", ProcessedEventSchema);
+
+export default ProcessedEvent;
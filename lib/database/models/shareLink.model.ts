@@ -0,0 +1,24 @@
+import { Document, Schema, model, models } from "mongoose";
+
+export interface IShareLink extends Document {
+  image: string;
+  author: string;
+  token: string;
+  expiresAt?: Date;
+  revokedAt?: Date;
+  createdAt?: Date;
+}
+
+// A link that lets anyone holding `token` view an unlisted image until it expires or is revoked.
+const ShareLinkSchema = new Schema({
+  image: { type: Schema.Types.ObjectId, ref: "Image", required: true, index: true },
+  author: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  token: { type: String, required: true, unique: true },
+  expiresAt: { type: Date },
+  revokedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const ShareLink = models?.ShareLink || model("ShareLink", ShareLinkSchema);
+
+export default ShareLink;
@@ -0,0 +1,58 @@
+import { Document, Schema, model, models } from "mongoose";
+
+export interface ISubscription extends Document {
+  user: string;
+  planId: number;
+  stripeSubscriptionId: string;
+  stripeCustomerId?: string;
+  status: string;
+  currentPeriodEnd?: Date;
+  cancelAtPeriodEnd: boolean;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+const SubscriptionSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+    index: true,
+  },
+  planId: {
+    type: Number,
+    required: true,
+  },
+  stripeSubscriptionId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  stripeCustomerId: {
+    type: String,
+  },
+  // Mirrors the Stripe subscription status (active, past_due, canceled, ...).
+  status: {
+    type: String,
+    required: true,
+  },
+  currentPeriodEnd: {
+    type: Date,
+  },
+  cancelAtPeriodEnd: {
+    type: Boolean,
+    default: false,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+const Subscription = models?.Subscription || model("Subscription", SubscriptionSchema);
+
+export default Subscription;
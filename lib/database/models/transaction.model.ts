@@ -10,6 +10,10 @@ const TransactionSchema = new Schema({
     required: true,
     unique: true,
   },
+  paymentIntentId: {
+    type: String,
+    index: true,
+  },
   amount: {
     type: Number,
     required: true,
@@ -24,6 +28,25 @@ const TransactionSchema = new Schema({
     type: Schema.Types.ObjectId,
     ref: "User",
   },
+  status: {
+    type: String,
+    enum: ["completed", "partially_refunded", "refunded", "disputed", "expired"],
+    default: "completed",
+  },
+  // Credits taken back after a refund or dispute, and the part of it the
+  // buyer had already spent and could not be recovered.
+  creditsClawedBack: {
+    type: Number,
+    default: 0,
+  },
+  creditShortfall: {
+    type: Number,
+    default: 0,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
 });
 
 const Transaction = models?.Transaction || model("Transaction", TransactionSchema);
@@ -0,0 +1,68 @@
+import { Document, Schema, model, models } from "mongoose";
+
+export interface ITransformationJob extends Document {
+  user: string;
+  image?: string;
+  batch?: string;
+  batchIndex?: number;
+  replaceImage?: boolean;
+  transformationType: string;
+  publicId: string;
+  width: number;
+  height: number;
+  config?: object;
+  steps?: object[];
+  status: TransformationJobStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  error?: string;
+  transformationUrl?: string;
+  consumedAt?: Date;
+  creditsCharged: number;
+  creditsRefunded: number;
+  createdAt?: Date;
+  completedAt?: Date;
+}
+
+// One transformation of one image, paid for up front and rendered by the provider on the server.
+// Queued and running jobs are (re)tried once `nextAttemptAt` has passed, see `lib/jobs.ts`.
+const TransformationJobSchema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+  // The saved image being transformed, or the image the result was saved as; unset until then for
+  // images that were only uploaded
+  image: { type: Schema.Types.ObjectId, ref: "Image" },
+  // The batch that paid for the job, and the index of its image, see `reserveBatchItem`
+  batch: { type: Schema.Types.ObjectId, ref: "Batch" },
+  batchIndex: { type: Number },
+  // Re-runs replace the transformation of their `image` once they succeeded, see `bulkRerunImages`
+  replaceImage: { type: Boolean },
+  // A key of `transformationTypes`, or "pipeline" with its `steps`
+  transformationType: { type: String, required: true },
+  publicId: { type: String, required: true },
+  width: { type: Number, required: true },
+  height: { type: Number, required: true },
+  config: { type: Object },
+  steps: { type: [Object], default: undefined },
+  status: {
+    type: String,
+    enum: ["queued", "running", "succeeded", "failed"],
+    default: "queued",
+  },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date, default: Date.now },
+  error: { type: String },
+  // The URL of the rendered result, set once the job succeeded
+  transformationUrl: { type: String },
+  // When the result was saved on its `image`: a job is saved once, see `consumeTransformationJob`
+  consumedAt: { type: Date },
+  creditsCharged: { type: Number, required: true },
+  creditsRefunded: { type: Number, default: 0 },
+  createdAt: { type: Date, default: Date.now },
+  completedAt: { type: Date },
+});
+
+TransformationJobSchema.index({ status: 1, nextAttemptAt: 1 });
+
+const TransformationJob = models?.TransformationJob || model("TransformationJob", TransformationJobSchema);
+
+export default TransformationJob;
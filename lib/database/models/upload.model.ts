@@ -0,0 +1,19 @@
+import { Document, Schema, model, models } from "mongoose";
+
+export interface IUpload extends Document {
+  user: string;
+  publicId: string;
+  createdAt?: Date;
+}
+
+// The user an uploaded original belongs to, claimed by the first user to transform it, see
+// `assertUploadOwner`. Uploads go straight to the provider, so nothing else records who made them.
+const UploadSchema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+  publicId: { type: String, required: true, unique: true },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const Upload = models?.Upload || model("Upload", UploadSchema);
+
+export default Upload;
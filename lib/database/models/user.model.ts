@@ -8,7 +8,10 @@ export interface IUser extends Document {
   firstName?: string;
   lastName?: string;
   planId?: number;
+  packagePlanId?: number;
   creditBalance?: number;
+  recentColors?: string[];
+  storage?: StorageUsage;
 }
 
 const UserSchema = new Schema({
@@ -41,10 +44,24 @@ const UserSchema = new Schema({
     type: Number,
     default: 1,
   },
+  // The highest plan bought as a one-off package, kept when a subscription lapses, see `syncSubscription`.
+  packagePlanId: {
+    type: Number,
+  },
   creditBalance: {
     type: Number,
     default: 10,
   },
+  // Recolor colors of the user's last saved images, most recent first, see `rememberRecentColors`.
+  recentColors: {
+    type: [String],
+    default: [],
+  },
+  // Originals of the user's saved images, recomputed by `refreshStorageUsage`.
+  storage: {
+    bytes: { type: Number, default: 0 },
+    assets: { type: Number, default: 0 },
+  },
 });
 
 const User = models?.User || model("User", UserSchema);
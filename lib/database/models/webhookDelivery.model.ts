@@ -0,0 +1,42 @@
+import { Document, Schema, model, models } from "mongoose";
+
+export interface IWebhookDelivery extends Document {
+  endpoint: string;
+  user: string;
+  event: string;
+  payload: object;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  nextAttemptAt?: Date;
+  responseStatus?: number;
+  error?: string;
+  resentFrom?: string;
+  createdAt?: Date;
+  deliveredAt?: Date;
+}
+
+// One event sent to one endpoint. Pending deliveries are (re)tried once `nextAttemptAt` has passed.
+const WebhookDeliverySchema = new Schema({
+  endpoint: { type: Schema.Types.ObjectId, ref: "WebhookEndpoint", required: true, index: true },
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  event: { type: String, required: true },
+  payload: { type: Object, required: true },
+  status: {
+    type: String,
+    enum: ["pending", "succeeded", "failed"],
+    default: "pending",
+  },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: { type: Date, default: Date.now },
+  responseStatus: { type: Number },
+  error: { type: String },
+  resentFrom: { type: Schema.Types.ObjectId, ref: "WebhookDelivery" },
+  createdAt: { type: Date, default: Date.now },
+  deliveredAt: { type: Date },
+});
+
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+
+const WebhookDelivery = models?.WebhookDelivery || model("WebhookDelivery", WebhookDeliverySchema);
+
+export default WebhookDelivery;
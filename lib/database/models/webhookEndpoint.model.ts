@@ -0,0 +1,23 @@
+import { Document, Schema, model, models } from "mongoose";
+
+export interface IWebhookEndpoint extends Document {
+  user: string;
+  url: string;
+  events: string[];
+  secret: string;
+  createdAt?: Date;
+}
+
+// A URL of a user that receives the outgoing webhook events it subscribed to.
+// `secret` signs the payloads, so unlike API keys it has to be kept in clear.
+const WebhookEndpointSchema = new Schema({
+  user: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+  url: { type: String, required: true },
+  events: { type: [String], required: true },
+  secret: { type: String, required: true },
+  createdAt: { type: Date, default: Date.now },
+});
+
+const WebhookEndpoint = models?.WebhookEndpoint || model("WebhookEndpoint", WebhookEndpointSchema);
+
+export default WebhookEndpoint;
@@ -0,0 +1,63 @@
+import { clerkClient } from "@clerk/nextjs/server";
+
+import { getPlanTier, getStorageLimit } from "@/lib/plans";
+
+/**
+ * Plan entitlement checks of the server actions and the public API.
+ *
+ * What each plan grants is declared in `planEntitlements` and the `plan` of the transformation
+ * types; the limits themselves are computed by the pure helpers of `lib/plans`, so the forms can
+ * show the same upgrade prompts before anything is sent.
+ */
+
+/**
+ * Thrown when a limit of the user's plan is hit, see `PlanLimitError`.
+ */
+export class PlanLimitExceededError extends Error {
+  limit: PlanLimitError;
+
+  constructor(limit: PlanLimitError) {
+    super(limit.message);
+    this.name = "PlanLimitExceededError";
+    this.limit = limit;
+  }
+}
+
+/**
+ * @throws PlanLimitExceededError if `limit` is set.
+ */
+export const assertWithinPlan = (limit: PlanLimitError | null) => {
+  if (limit) throw new PlanLimitExceededError(limit);
+};
+
+/**
+ * Checks that a user has room to store more originals, on top of their `storage`.
+ *
+ * @param added - The originals about to be saved, by default one of unknown size.
+ * @throws PlanLimitExceededError if they would exceed the plan's `maxStorageBytes` or `maxAssets`.
+ */
+export const assertStorageAvailable = (
+  user: { planId?: number; storage?: StorageUsage },
+  added: StorageUsage = { bytes: 0, assets: 1 }
+) => {
+  const { bytes = 0, assets = 0 } = user.storage ?? {};
+
+  assertWithinPlan(getStorageLimit(user.planId, { bytes: bytes + added.bytes, assets: assets + added.assets }));
+}; // End of assertStorageAvailable
+
+/**
+ * Copies the tier of a user's plan to their Clerk public metadata, where `middleware.ts` reads it
+ * from the session token to redirect pages of locked types to `/credits`.
+ *
+ * The metadata is only a hint for the middleware: a failure is logged, never thrown, as the server
+ * actions check the plan again.
+ */
+export async function publishPlanTier(clerkId: string, planId?: number) {
+  try {
+    await clerkClient.users.updateUserMetadata(clerkId, {
+      publicMetadata: { planTier: getPlanTier(planId) },
+    });
+  } catch (error) {
+    console.error(`Failed to publish the plan tier of ${clerkId}`, error);
+  }
+}; // End of publishPlanTier
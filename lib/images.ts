@@ -0,0 +1,305 @@
+import { Types } from "mongoose";
+
+import { aspectRatioOptions, maxRecentColors, pipelineTransformation, transformationTypes } from "@/constants";
+import { normalizeColor } from "@/lib/colors";
+import { connect, withTransaction } from "@/lib/database/db";
+import Image from "@/lib/database/models/image.model";
+import ImageVersion from "@/lib/database/models/imageVersion.model";
+import ShareLink from "@/lib/database/models/shareLink.model";
+import User from "@/lib/database/models/user.model";
+import { assertStorageAvailable } from "@/lib/entitlements";
+import { consumeTransformationJob } from "@/lib/jobs";
+import { deleteUnreferencedAssets, getAssetBytes, refreshStorageUsage } from "@/lib/storage";
+import { parseTransformationConfig } from "@/lib/transformations";
+import { getPipelineConfig, sanitizePipelineSteps } from "@/lib/pipelines";
+import { normalizeTag, normalizeTags } from "@/lib/tags";
+import { emitWebhookEvent } from "@/lib/webhooks";
+
+/**
+ * Image helpers shared by the server actions and the public API.
+ */
+
+// Images saved before `visibility` existed have no value and are public.
+export const PUBLIC_IMAGES_FILTER = { visibility: { $nin: ["private", "unlisted"] } };
+
+export const populateUser = (query: any) => query.populate({
+  path: 'author',
+  model: User,
+  select: '_id firstName lastName clerkId'
+});
+
+/**
+ * The names of a user as stored in `Image.authorName`, so images can be searched by author.
+ */
+export const getAuthorName = (user: { firstName?: string; lastName?: string; username?: string }) =>
+  [user.firstName, user.lastName, user.username].filter(Boolean).join(" ");
+
+/**
+ * Fills in `authorName` of the images saved before it existed, so their authors can be searched.
+ *
+ * @param options.limit - The maximum number of authors whose images are updated in this run.
+ * @param options.dryRun - Only count the images that would be updated.
+ * @returns The number of images updated, or that would be updated.
+ */
+export async function backfillAuthorNames({ limit = 500, dryRun = false }: { limit?: number; dryRun?: boolean } = {}) {
+  await connect();
+
+  const filter = { author: { $exists: true, $ne: null }, authorName: { $exists: false } };
+  const authorIds = (await Image.distinct("author", filter)).slice(0, limit);
+  const authors = await User.find({ _id: { $in: authorIds } }).select("firstName lastName username");
+  let backfilled = 0;
+
+  for (const author of authors) {
+    const authorFilter = { ...filter, author: author._id };
+
+    if (dryRun) {
+      backfilled += await Image.countDocuments(authorFilter);
+    } else {
+      const { modifiedCount } = await Image.updateMany(authorFilter, { authorName: getAuthorName(author) });
+      backfilled += modifiedCount;
+    }
+  }
+
+  return backfilled;
+}; // End of backfillAuthorNames
+
+/**
+ * Maps the image data sent by the forms onto the `Image` schema.
+ *
+ * The forms send `transformationURL` while the schema stores `transformationUrl`, and the config of a
+ * pipeline image is rebuilt from its steps so the stored config always matches them. Tags are normalized
+ * and the config is checked against the schema of its type with `parseTransformationConfig`.
+ */
+export const toImageDocument = (image: ImageDocumentData) => {
+  const { transformationURL, tags, ...fields } = image;
+  const document = {
+    ...fields,
+    ...(fields.config && { config: parseTransformationConfig(fields.transformationType, fields.config) }),
+    transformationUrl: transformationURL,
+    ...(tags && { tags: normalizeTags(tags) }),
+  };
+
+  if (!image.steps?.length) return document;
+
+  const steps = sanitizePipelineSteps(image.steps);
+
+  return { ...document, steps, config: getPipelineConfig(steps, image).config };
+};
+
+/**
+ * Saves the result of a succeeded transformation job as a new image of `author` and counts its original
+ * against their storage. The job is marked as saved in the same transaction, see `consumeTransformationJob`.
+ *
+ * @param author - The user document of the author.
+ * @param jobId - The succeeded job of the author whose result is saved.
+ * @param image - The image data, mapped with `toImageDocument` once the transformation of the job is added.
+ * @throws PlanLimitExceededError if the author's plan stores no more images, see `getStorageLimit`.
+ * @returns The created image.
+ */
+export async function createImage(author: any, jobId: string, image: AddImageParams["image"]) {
+  await connect();
+
+  const userId = author._id.toString();
+  const bytes = await getAssetBytes(image.publicId);
+
+  assertStorageAvailable(author, { bytes, assets: 1 });
+
+  const newImage = await withTransaction(undefined, async (session) => {
+    const imageId = new Types.ObjectId();
+    const transformation = await consumeTransformationJob({ jobId, userId, publicId: image.publicId, imageId, session });
+
+    const [newImage] = await Image.create([{
+      _id: imageId,
+      ...toImageDocument({ ...image, ...transformation }),
+      bytes,
+      author: author._id,
+      authorName: getAuthorName(author),
+    }], { session });
+
+    return newImage;
+  });
+
+  await refreshStorageUsage(userId);
+
+  const createdImage = JSON.parse(JSON.stringify(newImage));
+
+  await rememberRecentColors(userId, createdImage);
+  await emitWebhookEvent(userId, "image.created", { image: createdImage });
+
+  return createdImage;
+}; // End of createImage
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// `YYYY-MM-DD` as sent by date inputs
+const parseDate = (value?: string) => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+
+  const date = new Date(`${value}T00:00:00.000Z`);
+
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Builds the MongoDB query and sort of a search of public images.
+ *
+ * The search terms only ever reach `$text`, and filters with unknown values are ignored, so
+ * nothing from the URL is interpreted as a query expression.
+ *
+ * @param searchQuery - Free text matched against the title, prompt, transformation type and author names.
+ * @param filters - Transformation type, aspect ratio, inclusive date range of creation, tag and sort order.
+ * @returns The query, the projection adding the relevance score, and the sort order for `listImages`.
+ */
+export function buildImageSearch(searchQuery = "", { type, aspectRatio, from, to, tag, sort }: ImageSearchFilters = {}) {
+  const query: Record<string, unknown> = { ...PUBLIC_IMAGES_FILTER };
+  const terms = typeof searchQuery === "string" ? searchQuery.trim() : "";
+
+  if (terms) query.$text = { $search: terms };
+
+  if (type && (type in transformationTypes || type === pipelineTransformation.type)) {
+    query.transformationType = type;
+  }
+
+  if (aspectRatio && aspectRatio in aspectRatioOptions) query.aspectRatio = aspectRatio;
+
+  if (typeof tag === "string" && normalizeTag(tag)) query.tags = normalizeTag(tag);
+
+  const fromDate = parseDate(from);
+  const toDate = parseDate(to);
+
+  if (fromDate || toDate) {
+    query.createdAt = {
+      ...(fromDate && { $gte: fromDate }),
+      ...(toDate && { $lt: new Date(toDate.getTime() + DAY_MS) }),
+    };
+  }
+
+  const order: ImageSearchSort = sort === "newest" || sort === "oldest" ? sort : terms ? "relevance" : "newest";
+
+  return {
+    query,
+    projection: order === "relevance" ? { score: { $meta: "textScore" } } : {},
+    sort: order,
+  };
+}; // End of buildImageSearch
+
+type ImageViewer = {
+  userId?: string;
+  clerkId?: string | null;
+  shareToken?: string;
+};
+
+/**
+ * Whether `shareToken` is a live share link of the image.
+ */
+const hasValidShareLink = async (imageId: string, shareToken?: string) => {
+  if (!shareToken) return false;
+
+  const shareLink = await ShareLink.exists({
+    image: imageId,
+    token: shareToken,
+    revokedAt: null,
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+  });
+
+  return !!shareLink;
+};
+
+/**
+ * Finds an image the viewer is allowed to see, with its author populated.
+ *
+ * Public images are visible to everyone and private ones only to their author. Unlisted images
+ * are also visible with a valid share token.
+ *
+ * @param viewer - The viewer, identified by user id or Clerk id, and an optional share token.
+ * @returns The image, or null when it does not exist or the viewer may not see it.
+ */
+export async function findViewableImage(imageId: string, { userId, clerkId, shareToken }: ImageViewer = {}) {
+  await connect();
+
+  const image = await populateUser(Image.findById(imageId));
+
+  if (!image) return null;
+
+  const isAuthor =
+    (!!userId && image.author?._id.toString() === userId) ||
+    (!!clerkId && image.author?.clerkId === clerkId);
+
+  if (isAuthor || !image.visibility || image.visibility === "public") return image;
+
+  if (image.visibility === "unlisted" && await hasValidShareLink(image._id, shareToken)) return image;
+
+  return null;
+}; // End of findViewableImage
+
+/**
+ * Deletes an image of `userId` together with its version history and emits `image.deleted`.
+ *
+ * Its original, and the originals of its versions, are deleted from the image provider too, unless
+ * another image or version still uses them.
+ *
+ * @throws Error if the image does not exist or belongs to another user.
+ * @returns The deleted image.
+ */
+export async function deleteOwnedImage(imageId: string, userId: string) {
+  await connect();
+
+  const deleted = await withTransaction(undefined, async (session) => {
+    const image = await Image.findOneAndDelete({ _id: imageId, author: userId }, { session });
+
+    if (!image) throw new Error("Unauthorized or image not found");
+
+    const versionOriginals: string[] = await ImageVersion.distinct("publicId", { image: image._id }).session(session);
+
+    await ImageVersion.deleteMany({ image: image._id }, { session });
+    await ShareLink.deleteMany({ image: image._id }, { session });
+
+    return { image, versionOriginals };
+  });
+
+  await refreshStorageUsage(userId);
+  await deleteUnreferencedAssets([deleted.image.publicId, ...deleted.versionOriginals]);
+
+  await emitWebhookEvent(userId, "image.deleted", {
+    image: { _id: deleted.image._id.toString(), title: deleted.image.title, publicId: deleted.image.publicId },
+  });
+
+  return deleted.image;
+}; // End of deleteOwnedImage
+
+/**
+ * Adds the recolor and text colors of an image or batch to the recent colors of `userId`, most recent first.
+ *
+ * @param transformation - The config and, for a pipeline, the steps the colors are read from.
+ */
+export async function rememberRecentColors(
+  userId: string,
+  { config, steps }: { config?: Transformations | null; steps?: PipelineStep[] }
+) {
+  const colors = Array.from(new Set(
+    [config?.recolor?.to, config?.textOverlay?.color, ...(steps ?? []).map((step) => step.color)]
+      .map((color) => normalizeColor(color))
+      .filter((color): color is string => !!color)
+  ));
+
+  if (!colors.length) return;
+
+  await connect();
+
+  // Moves colors used before to the front instead of listing them twice
+  await User.updateOne({ _id: userId }, [{
+    $set: {
+      recentColors: {
+        $slice: [
+          {
+            $concatArrays: [
+              colors,
+              { $filter: { input: { $ifNull: ["$recentColors", []] }, cond: { $not: { $in: ["$$this", colors] } } } },
+            ],
+          },
+          maxRecentColors,
+        ],
+      },
+    },
+  }]);
+}; // End of rememberRecentColors
@@ -0,0 +1,81 @@
+/**
+ * Follows a transformation job from the browser, see `lib/jobs.ts`.
+ *
+ * The status is streamed from `/api/jobs/[id]/events`; where server-sent events are not available,
+ * or the stream cannot be opened, `/api/jobs/[id]` is polled instead.
+ */
+
+const POLL_INTERVAL_MS = 2000;
+
+const isFinished = (job: TransformationJobView) => job.status === "succeeded" || job.status === "failed";
+
+/**
+ * Calls `onStatus` with every status of a job until it succeeded or failed, or `onGone` once the job
+ * turns out to be gone or not the user's.
+ *
+ * @returns A function that stops following the job, e.g. when the form unmounts.
+ */
+export const watchTransformationJob = (
+  jobId: string,
+  onStatus: (job: TransformationJobView) => void,
+  onGone?: () => void
+) => {
+  let stopped = false;
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  let source: EventSource | undefined;
+
+  const poll = async () => {
+    const response = await fetch(`/api/jobs/${jobId}`, { cache: "no-store" }).catch(() => null);
+
+    if (stopped) return;
+
+    // A job that is gone or not the user's is not followed any further
+    if (response && (response.status === 401 || response.status === 404)) return onGone?.();
+
+    const job: TransformationJobView | null = response?.ok ? await response.json() : null;
+
+    if (job) onStatus(job);
+    if (!job || !isFinished(job)) timeout = setTimeout(poll, POLL_INTERVAL_MS);
+  };
+
+  if (typeof EventSource === "undefined") {
+    poll();
+  } else {
+    source = new EventSource(`/api/jobs/${jobId}/events`);
+
+    source.addEventListener("status", (event) => {
+      const job: TransformationJobView = JSON.parse((event as MessageEvent).data);
+
+      if (stopped) return;
+
+      onStatus(job);
+      if (isFinished(job)) source?.close();
+    });
+
+    // A stream that ends is reopened by the EventSource itself; one that cannot be opened is closed
+    source.onerror = () => {
+      if (source?.readyState === EventSource.CLOSED && !stopped) poll();
+    };
+  }
+
+  return () => {
+    stopped = true;
+    source?.close();
+    clearTimeout(timeout);
+  };
+}; // End of watchTransformationJob
+
+/**
+ * Waits until a job succeeded or failed, e.g. to run the images of a batch one after the other.
+ *
+ * @throws Error if the job is gone or not the user's.
+ */
+export const waitForTransformationJob = (jobId: string) =>
+  new Promise<TransformationJobView>((resolve, reject) => {
+    const stop = watchTransformationJob(jobId, (job) => {
+      if (!isFinished(job)) return;
+
+      stop();
+      resolve(job);
+    }, () => reject(new Error("Transformation job not found")));
+  }); // End of waitForTransformationJob
@@ -0,0 +1,423 @@
+import { ClientSession, isValidObjectId } from "mongoose";
+
+import { transformationJobRetryPolicy } from "@/constants";
+import { reserveBatchItem } from "@/lib/batches";
+import { chargeTransformation, grantCredits } from "@/lib/credits";
+import { connect, withTransaction } from "@/lib/database/db";
+import Image from "@/lib/database/models/image.model";
+import TransformationJob from "@/lib/database/models/transformationJob.model";
+import { getTransformationProvider } from "@/lib/providers";
+import { RenderError, TransformationUrlParams } from "@/lib/providers/types";
+import { assertUploadOwner, getStoredAsset } from "@/lib/storage";
+import { hasSizeField, resolveFillSize } from "@/lib/utils";
+import { parseTransformationConfig } from "@/lib/transformations";
+import { getPipelineConfig, sanitizePipelineSteps } from "@/lib/pipelines";
+import { snapshotImage } from "@/lib/versions";
+import { emitCreditsLowIfCrossed, emitWebhookEvent } from "@/lib/webhooks";
+
+/**
+ * Transformation jobs.
+ *
+ * A transformation is charged when its `TransformationJob` is queued, in the same transaction, and
+ * then rendered by the provider on the server, so the derived image exists before the client shows
+ * it and the outcome does not depend on the browser staying open. Transient failures are retried
+ * with exponential backoff; a job that fails for good is refunded.
+ *
+ * Jobs are attempted by whoever asks first once they are due: the status routes of
+ * `app/api/jobs/[id]` while a client watches them, and `dispatchDueTransformationJobs` for the rest.
+ */
+
+// How long an attempt owns a job, so concurrent runs don't render it twice. Generative
+// transformations can take a while to render.
+const JOB_LOCK_MS = 2 * 60 * 1000;
+
+// How often `runTransformationJob` checks a job that is waiting for its next attempt
+const JOB_CHECK_INTERVAL_MS = 1000;
+
+// Statuses a provider answers with while it is busy, e.g. 423 while Cloudinary is still rendering
+const TRANSIENT_STATUSES = [408, 420, 423, 429];
+
+const getRetryDelay = (attempts: number) =>
+  Math.min(transformationJobRetryPolicy.baseDelayMs * 2 ** (attempts - 1), transformationJobRetryPolicy.maxDelayMs);
+
+// Busy or failing providers and network errors are worth another attempt; invalid configs are not.
+const isTransientError = (error: unknown) => {
+  if (error instanceof RenderError) return error.status >= 500 || TRANSIENT_STATUSES.includes(error.status);
+
+  return error instanceof Error && (error instanceof TypeError || ["AbortError", "TimeoutError"].includes(error.name));
+};
+
+export const isFinishedJob = (job: { status: TransformationJobStatus }) =>
+  job.status === "succeeded" || job.status === "failed";
+
+// The images a job renders: its result, and for pipelines the result of every step, as previewed.
+const getRenderParams = (job: any): TransformationUrlParams[] => {
+  if (job.transformationType !== "pipeline") {
+    return [{ src: job.publicId, width: job.width, height: job.height, ...job.config }];
+  }
+
+  return job.steps.map((_: PipelineStep, index: number) => {
+    const { config, width, height } = getPipelineConfig(job.steps.slice(0, index + 1), job);
+
+    return { src: job.publicId, width, height, ...config };
+  });
+};
+
+export const toTransformationJobView = (job: any): TransformationJobView => ({
+  _id: job._id.toString(),
+  status: job.status,
+  attempts: job.attempts,
+  error: job.error,
+  transformationUrl: job.transformationUrl,
+  creditsCharged: job.creditsCharged,
+  creditsRefunded: job.creditsRefunded,
+});
+
+/**
+ * Marks a succeeded job of a user as saved on an image and returns what it rendered. The client only picks
+ * the job, so an image never stores a config, size or URL that was not paid for and rendered, and a job is
+ * saved once: call it in the transaction that saves the image.
+ *
+ * @param params.publicId - The original the image is saved with, which the job must have transformed.
+ * @param params.imageId - The image the result is saved on; a job queued for a saved image is only saved on it.
+ * @param params.filter - Further conditions on the job, e.g. the batch image it rendered.
+ * @throws Error if the user has no such succeeded job, it was already saved, or it transformed another original.
+ */
+export async function consumeTransformationJob({ jobId, userId, publicId, imageId, filter = {}, session }: {
+  jobId: string;
+  userId: string;
+  publicId: string;
+  imageId: unknown;
+  filter?: Record<string, unknown>;
+  session?: ClientSession;
+}): Promise<JobTransformation> {
+  if (!isValidObjectId(jobId)) throw new Error("Transformation not found");
+
+  const job = await TransformationJob.findOneAndUpdate(
+    {
+      ...filter,
+      _id: jobId,
+      user: userId,
+      status: "succeeded",
+      publicId,
+      consumedAt: { $exists: false },
+      image: { $in: [null, imageId] },
+    },
+    { consumedAt: new Date(), image: imageId },
+    { new: true, session }
+  );
+
+  if (!job) throw new Error("Transformation not found, already saved or applied to another image");
+
+  const { width, height } = getRenderParams(job).pop()!;
+  const { transformationType, config, steps, transformationUrl } = job.toObject();
+
+  return {
+    transformationType,
+    width: width as number,
+    height: height as number,
+    config: transformationType === "pipeline" ? undefined : config,
+    steps: transformationType === "pipeline" ? steps : undefined,
+    transformationURL: transformationUrl,
+  };
+}; // End of consumeTransformationJob
+
+/**
+ * Charges a user for a transformation and queues the job rendering it. Both happen in one
+ * transaction, so a job is never queued without being paid for.
+ *
+ * The transformation is priced and checked for the size of the original as the provider stores it, see
+ * `getStoredAsset`, or for the size picked with `aspectRatio` for types with a size field. The original must
+ * have been uploaded by the user, see `assertUploadOwner`.
+ *
+ * An image of a batch is paid for by the credits the batch reserved instead, see `reserveBatchItem`, and
+ * rendered with the config of the batch. Its job is not refunded when it fails: closing the batch refunds
+ * every image that was not saved.
+ *
+ * @param params.aspectRatio - The size of a fill or crop, see `resolveFillSize`.
+ * @param params.config - The config of a transformation type, checked with `parseTransformationConfig`.
+ * Pipelines are rendered from their `steps` instead.
+ * @param params.batch - The batch and the index of the image in it, for images of a batch.
+ * @param params.replaceImage - Whether the result replaces the transformation of the saved image `imageId`
+ * once the job succeeded, e.g. for re-runs.
+ * @throws Error "Image not found" if the original does not exist or was uploaded by someone else.
+ * @throws PlanLimitExceededError if the user's plan does not grant a type or the output size.
+ * @throws InsufficientCreditsError if the balance is too low.
+ * @returns The queued job, due right away.
+ */
+export async function enqueueTransformationJob({
+  userId, transformation, publicId, aspectRatio, config, imageId, batch, replaceImage,
+}: {
+  userId: string;
+  transformation: Omit<ChargedTransformation, "width" | "height">;
+  publicId: string;
+  aspectRatio?: string;
+  config?: Transformations | null;
+  imageId?: string;
+  batch?: { id: string; index: number };
+  replaceImage?: boolean;
+}) {
+  if (replaceImage && !imageId) throw new Error("Only a saved image can be replaced");
+
+  const { type } = transformation;
+  const steps = type === "pipeline" ? sanitizePipelineSteps(transformation.steps ?? []) : undefined;
+  const asset = await getStoredAsset(publicId);
+
+  await assertUploadOwner(userId, asset);
+
+  const size = hasSizeField(type) ? resolveFillSize(aspectRatio) : asset;
+
+  if (!size) throw new Error("Invalid or missing aspect ratio");
+
+  const { width, height } = size;
+
+  await connect();
+
+  const { job, entry } = await withTransaction(undefined, async (session) => {
+    const reservedBatch = batch
+      ? await reserveBatchItem({ batchId: batch.id, userId, type, index: batch.index, size }, session)
+      : null;
+
+    const [job] = await TransformationJob.create([{
+      user: userId,
+      image: imageId,
+      batch: reservedBatch?._id,
+      batchIndex: batch?.index,
+      replaceImage,
+      transformationType: type,
+      publicId,
+      width,
+      height,
+      config: steps ? undefined : parseTransformationConfig(type, reservedBatch ? reservedBatch.config : config),
+      steps,
+      creditsCharged: 0,
+    }], { session });
+
+    if (reservedBatch) return { job, entry: null };
+
+    const entry = await chargeTransformation({
+      userId,
+      transformation: { type, width, height, steps },
+      imageId,
+      jobId: job._id,
+      session,
+    });
+
+    job.creditsCharged = -entry.amount;
+
+    return { job: await job.save({ session }), entry };
+  });
+
+  if (entry) await emitCreditsLowIfCrossed(userId, entry.balanceAfter, -entry.amount);
+
+  return job;
+}; // End of enqueueTransformationJob
+
+/**
+ * Marks a job as failed and refunds its credits, unless it already finished or another attempt took it over.
+ *
+ * @param lock - The filter of the attempt holding the job, see `attemptTransformationJob`.
+ */
+async function failTransformationJob(job: any, lock: Record<string, unknown>, attempts: number, error: string) {
+  return withTransaction(undefined, async (session) => {
+    const failed = await TransformationJob.findOneAndUpdate(
+      lock,
+      {
+        status: "failed",
+        attempts,
+        error,
+        creditsRefunded: job.creditsCharged,
+        completedAt: new Date(),
+        $unset: { nextAttemptAt: 1 },
+      },
+      { new: true, session }
+    );
+
+    if (!failed) return TransformationJob.findById(job._id).session(session);
+
+    if (job.creditsCharged > 0) {
+      await grantCredits({
+        userId: job.user.toString(),
+        amount: job.creditsCharged,
+        reason: "transformation refund",
+        imageId: job.image?.toString(),
+        jobId: job._id,
+        session,
+      });
+    }
+
+    return failed;
+  });
+}; // End of failTransformationJob
+
+/**
+ * Saves the result of a succeeded job on its image, keeping the previous state as a version. An image
+ * that was deleted, or whose original was replaced, since the job was queued is left as is.
+ *
+ * @returns The updated image, or null if it was left as is.
+ */
+async function replaceImageTransformation(job: any, session: ClientSession) {
+  const image = await Image.findOne({ _id: job.image, author: job.user, publicId: job.publicId }).session(session);
+
+  if (!image) return null;
+
+  const { transformationURL, width, height } = await consumeTransformationJob({
+    jobId: job._id.toString(),
+    userId: job.user.toString(),
+    publicId: job.publicId,
+    imageId: image._id,
+    session,
+  });
+
+  await snapshotImage(image, session);
+
+  return Image.findByIdAndUpdate(
+    image._id,
+    { transformationUrl: transformationURL, width, height, updatedAt: new Date() },
+    { new: true, session }
+  );
+}; // End of replaceImageTransformation
+
+/**
+ * Renders a job once and records the outcome, unless another attempt took the job over meanwhile.
+ *
+ * A transient failure queues the job again with backoff, until `transformationJobRetryPolicy.maxAttempts`
+ * is reached; then, or on any other failure, the job fails and its credits are refunded.
+ */
+export async function attemptTransformationJob(jobId: string) {
+  const job = await TransformationJob.findById(jobId);
+
+  if (!job || isFinishedJob(job)) return job;
+
+  const provider = getTransformationProvider();
+  const renders = getRenderParams(job);
+  let error: string | undefined;
+  let transient = false;
+
+  try {
+    for (const params of renders) {
+      await provider.render(params);
+    }
+  } catch (renderError) {
+    error = renderError instanceof Error ? renderError.message : "Rendering failed";
+    transient = isTransientError(renderError);
+
+    if (!transient) console.error("Failed to render transformation job", jobId, renderError);
+  }
+
+  const attempts = job.attempts + 1;
+  // Only the attempt still holding the lock of `claimDueTransformationJob` records its outcome
+  const lock = { _id: job._id, status: "running", nextAttemptAt: job.nextAttemptAt };
+
+  if (!error) {
+    const { succeeded, replacedImage } = await withTransaction(undefined, async (session) => {
+      const succeeded = await TransformationJob.findOneAndUpdate(
+        lock,
+        {
+          attempts,
+          status: "succeeded",
+          transformationUrl: provider.getTransformationUrl(renders[renders.length - 1]),
+          completedAt: new Date(),
+          $unset: { error: 1, nextAttemptAt: 1 },
+        },
+        { new: true, session }
+      );
+
+      const replacedImage = succeeded?.replaceImage ? await replaceImageTransformation(succeeded, session) : null;
+
+      return { succeeded, replacedImage };
+    });
+
+    if (replacedImage) {
+      await emitWebhookEvent(job.user.toString(), "image.updated", { image: JSON.parse(JSON.stringify(replacedImage)) });
+    }
+
+    return succeeded ?? TransformationJob.findById(job._id);
+  }
+
+  if (transient && attempts < transformationJobRetryPolicy.maxAttempts) {
+    const retried = await TransformationJob.findOneAndUpdate(
+      lock,
+      { attempts, error, status: "queued", nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)) },
+      { new: true }
+    );
+
+    return retried ?? TransformationJob.findById(job._id);
+  }
+
+  return failTransformationJob(job, lock, attempts, error);
+}; // End of attemptTransformationJob
+
+/**
+ * Claims a job whose next attempt is due by pushing it past the lock.
+ */
+const claimDueTransformationJob = (filter: Record<string, unknown> = {}) => {
+  const now = new Date();
+
+  return TransformationJob.findOneAndUpdate(
+    { ...filter, status: { $in: ["queued", "running"] }, nextAttemptAt: { $lte: now } },
+    { status: "running", nextAttemptAt: new Date(now.getTime() + JOB_LOCK_MS) },
+    { sort: { nextAttemptAt: 1 }, new: true }
+  );
+};
+
+/**
+ * Returns a job of a user, attempting it first when it is due.
+ *
+ * @returns The job as shown to the client, or null if the user has no such job.
+ */
+export async function advanceTransformationJob(jobId: string, userId: string) {
+  if (!isValidObjectId(jobId)) return null;
+
+  await connect();
+
+  const claimed = await claimDueTransformationJob({ _id: jobId, user: userId });
+  const job = claimed
+    ? await attemptTransformationJob(claimed._id)
+    : await TransformationJob.findOne({ _id: jobId, user: userId });
+
+  return job ? toTransformationJobView(job) : null;
+}; // End of advanceTransformationJob
+
+/**
+ * Attempts a job of a user until it finished or `timeoutMs` passed, for callers that answer with
+ * its result, like the public API.
+ *
+ * @returns The job as shown to the client, or null if the user has no such job.
+ */
+export async function runTransformationJob(jobId: string, userId: string, timeoutMs: number) {
+  const deadline = Date.now() + timeoutMs;
+  let job = await advanceTransformationJob(jobId, userId);
+
+  while (job && !isFinishedJob(job) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, JOB_CHECK_INTERVAL_MS));
+
+    job = await advanceTransformationJob(jobId, userId);
+  }
+
+  return job;
+}; // End of runTransformationJob
+
+/**
+ * Attempts the jobs that are due: jobs no client is watching, e.g. because the browser was
+ * closed, retries, and jobs whose attempt was interrupted.
+ *
+ * @param limit - The maximum number of jobs to attempt in this run.
+ * @returns The number of jobs attempted.
+ */
+export async function dispatchDueTransformationJobs(limit = 20) {
+  await connect();
+
+  let attempted = 0;
+
+  while (attempted < limit) {
+    const job = await claimDueTransformationJob();
+
+    if (!job) break;
+
+    await attemptTransformationJob(job._id);
+    attempted++;
+  }
+
+  return attempted;
+}; // End of dispatchDueTransformationJobs
@@ -0,0 +1,195 @@
+import { Types } from "mongoose";
+
+import { connect } from "@/lib/database/db";
+import Image from "@/lib/database/models/image.model";
+import { populateUser, PUBLIC_IMAGES_FILTER } from "@/lib/images";
+import { normalizeTag } from "@/lib/tags";
+
+/**
+ * Shared listing of images with cursor pagination.
+ *
+ * Lists sorted by date use keyset pagination on `(createdAt, _id)`: a page starts right after
+ * the last image of the previous one, so images saved in the meantime never shift the pages.
+ * Text searches sorted by relevance cannot seek on the text score and page by offset instead.
+ *
+ * Cursors are opaque to clients and only valid for the query that issued them.
+ */
+
+const TOTALS_TTL_MS = 60 * 1000;
+const MAX_CACHED_TOTALS = 500;
+
+type ListingSort = ImageSearchSort;
+
+type KeysetCursor = { kind: "keyset"; direction: "next" | "prev"; createdAt: string; id: string };
+type OffsetCursor = { kind: "offset"; offset: number };
+type ListingCursor = KeysetCursor | OffsetCursor;
+
+/**
+ * Thrown when a cursor cannot be decoded.
+ */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+const encodeCursor = (cursor: ListingCursor) => Buffer.from(JSON.stringify(cursor)).toString("base64url");
+
+const decodeCursor = (value: string): ListingCursor => {
+  let cursor: any;
+
+  try {
+    cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (cursor?.kind === "offset" && Number.isInteger(cursor.offset) && cursor.offset >= 0) {
+    return { kind: "offset", offset: cursor.offset };
+  }
+
+  if (
+    cursor?.kind === "keyset" &&
+    (cursor.direction === "next" || cursor.direction === "prev") &&
+    typeof cursor.createdAt === "string" &&
+    !isNaN(new Date(cursor.createdAt).getTime()) &&
+    Types.ObjectId.isValid(cursor.id)
+  ) {
+    return { kind: "keyset", direction: cursor.direction, createdAt: cursor.createdAt, id: cursor.id };
+  }
+
+  throw new InvalidCursorError();
+};
+
+const totalsCache = new Map<string, { total: number; expiresAt: number }>();
+
+/**
+ * Counts the images matching `query`, reusing the count for up to a minute.
+ */
+async function countImages(query: Record<string, unknown>) {
+  const key = JSON.stringify(query);
+  const cached = totalsCache.get(key);
+
+  if (cached && cached.expiresAt > Date.now()) return cached.total;
+
+  const total = await Image.countDocuments(query);
+
+  if (totalsCache.size >= MAX_CACHED_TOTALS) totalsCache.clear();
+  totalsCache.set(key, { total, expiresAt: Date.now() + TOTALS_TTL_MS });
+
+  return total;
+}; // End of countImages
+
+/**
+ * Lists one page of the images matching `query`.
+ *
+ * @param query - The MongoDB filter of the listing.
+ * @param projection - Extra fields to select, such as the text score of a search.
+ * @param sort - `newest` or `oldest` by creation date, or `relevance` for text searches.
+ * @param cursor - The `nextCursor` or `prevCursor` of a previous page, none for the first page.
+ * @param withTotal - Whether to also return the (cached) number of matching images.
+ * @returns The images, the cursors of the adjacent pages (null when there is none) and the total.
+ * @throws InvalidCursorError if the cursor cannot be decoded.
+ */
+export async function listImages({ query, projection = {}, sort = "newest", cursor, limit = 9, withTotal = false }: {
+  query: Record<string, unknown>;
+  projection?: Record<string, unknown>;
+  sort?: ListingSort;
+  cursor?: string;
+  limit?: number;
+  withTotal?: boolean;
+}) {
+  const decoded = cursor ? decodeCursor(cursor) : undefined;
+
+  let images: any[];
+  let nextCursor: string | null = null;
+  let prevCursor: string | null = null;
+
+  if (sort === "relevance") {
+    const offset = decoded?.kind === "offset" ? decoded.offset : 0;
+
+    images = await populateUser(Image.find(query, projection))
+      .sort({ score: { $meta: "textScore" }, _id: -1 })
+      .skip(offset)
+      .limit(limit + 1);
+
+    if (images.length > limit) nextCursor = encodeCursor({ kind: "offset", offset: offset + limit });
+    if (offset > 0) prevCursor = encodeCursor({ kind: "offset", offset: Math.max(0, offset - limit) });
+
+    images = images.slice(0, limit);
+  } else {
+    const keyset = decoded?.kind === "keyset" ? decoded : undefined;
+    const isPrev = keyset?.direction === "prev";
+    // Pages before the cursor are read in reverse and flipped back afterwards
+    const order = (sort === "oldest" ? 1 : -1) * (isPrev ? -1 : 1);
+    const operator = order === 1 ? "$gt" : "$lt";
+
+    const seek = keyset && {
+      $or: [
+        { createdAt: { [operator]: new Date(keyset.createdAt) } },
+        { createdAt: new Date(keyset.createdAt), _id: { [operator]: new Types.ObjectId(keyset.id) } },
+      ],
+    };
+
+    // Merged into `$and` so a `$text` search stays at the top level of the query
+    const filter = seek ? { ...query, $and: [...((query.$and as object[]) ?? []), seek] } : query;
+
+    images = await populateUser(Image.find(filter, projection))
+      .sort({ createdAt: order, _id: order })
+      .limit(limit + 1);
+
+    const hasMore = images.length > limit;
+    images = images.slice(0, limit);
+
+    if (isPrev) images.reverse();
+
+    const toCursor = (image: any, direction: KeysetCursor["direction"]) => encodeCursor({
+      kind: "keyset",
+      direction,
+      createdAt: new Date(image.createdAt).toISOString(),
+      id: image._id.toString(),
+    });
+
+    if (images.length) {
+      if (isPrev ? keyset : hasMore) nextCursor = toCursor(images[images.length - 1], "next");
+      if (isPrev ? hasMore : keyset) prevCursor = toCursor(images[0], "prev");
+    }
+  }
+
+  const total = withTotal ? await countImages(query) : undefined;
+
+  return {
+    data: JSON.parse(JSON.stringify(images)),
+    nextCursor,
+    prevCursor,
+    ...(total !== undefined && { total, totalPages: Math.ceil(total / limit) }),
+  };
+}; // End of listImages
+
+/**
+ * Retrieves the images of a user, most recently created first.
+ *
+ * @param includeHidden - Whether to include private and unlisted images, only for the user themselves.
+ * @param albumId - Only list the images filed in this album.
+ * @param tag - Only list the images with this tag.
+ * @param cursor - The `nextCursor` or `prevCursor` of a previous page, see `listImages`.
+ */
+export async function findUserImages({ userId, albumId, tag, cursor, limit = 9, includeHidden = false, withTotal = false }: {
+  userId: string;
+  albumId?: string;
+  tag?: string;
+  cursor?: string;
+  limit?: number;
+  includeHidden?: boolean;
+  withTotal?: boolean;
+}) {
+  await connect();
+
+  const query: Record<string, unknown> = includeHidden ? { author: userId } : { author: userId, ...PUBLIC_IMAGES_FILTER };
+
+  if (albumId) query.albums = albumId;
+  if (typeof tag === "string" && normalizeTag(tag)) query.tags = normalizeTag(tag);
+
+  return listImages({ query, cursor, limit, withTotal });
+}; // End of findUserImages
@@ -0,0 +1,83 @@
+import { maxPipelineSteps, transformationTypes } from "@/constants";
+
+import { normalizeColor } from "./colors";
+import { getCloudinaryEffects } from "./providers/effects";
+import { areFieldsComplete, getTransformationConfig } from "./transformations";
+import { hasSizeField, resolveFillSize } from "./utils";
+
+/**
+ * Pipelines: transformations applied one after the other, in the order the user picked.
+ *
+ * Cloudinary applies `restore`, `recolor`, ... in a fixed order of its own, so merging the steps
+ * with `deepMergeObjects` would lose that order. Each step is turned into a raw transformation
+ * component instead and chained in order.
+ */
+
+const encodeParam = (value = "") => encodeURIComponent(value.trim());
+
+const stepToRawTransformation = (step: PipelineStep) => {
+  switch (step.type) {
+    case "restore":
+      return "e_gen_restore";
+    case "removeBackground":
+      return "e_background_removal";
+    case "fill": {
+      const { width, height } = resolveFillSize(step.aspectRatio)!;
+      return `b_gen_fill,c_pad,w_${width},h_${height}`;
+    }
+    case "remove":
+      return `e_gen_remove:prompt_${encodeParam(step.prompt)};multiple_true;remove-shadow_true`;
+    case "recolor":
+      return `e_gen_recolor:prompt_${encodeParam(step.prompt)};to-color_${encodeParam(normalizeColor(step.color) ?? step.color).replace(/^%23/, "")};multiple_true`;
+    default: {
+      const size = resolveFillSize(step.aspectRatio);
+      return getCloudinaryEffects({
+        ...getTransformationConfig(step.type, step),
+        width: size?.width,
+        height: size?.height,
+      }).join("/");
+    }
+  }
+};
+
+// Whether a transformation type can be a step of a pipeline.
+export const isPipelineType = (type: TransformationTypeKey) =>
+  (transformationTypes[type] as { pipeline?: boolean }).pipeline !== false;
+
+export const getPipelineConfig = (steps: PipelineStep[], image: any) => {
+  // The output size is set by the last fill or crop step, if any
+  const lastResize = steps.filter((step) => hasSizeField(step.type)).pop();
+  const size = lastResize
+    ? resolveFillSize(lastResize.aspectRatio)!
+    : { width: image?.width, height: image?.height };
+
+  return {
+    config: { rawTransformations: steps.map(stepToRawTransformation) } as Transformations,
+    width: size.width as number,
+    height: size.height as number,
+  };
+};
+
+// Whether a step has every field its transformation type needs.
+export const isPipelineStepComplete = (step: PipelineStep) =>
+  isPipelineType(step.type) && areFieldsComplete(step.type, step);
+
+// Checks pipeline steps sent by the client and strips unknown fields.
+export const sanitizePipelineSteps = (steps: PipelineStep[]): PipelineStep[] => {
+  if (!Array.isArray(steps) || steps.length < 1 || steps.length > maxPipelineSteps) {
+    throw new Error(`A pipeline has between 1 and ${maxPipelineSteps} steps`);
+  }
+
+  return steps.map(({ type, aspectRatio, prompt, color }) => {
+    const step = { type, aspectRatio, prompt, color };
+
+    if (!(type in transformationTypes) || !isPipelineStepComplete(step)) {
+      throw new Error(`Invalid pipeline step: ${type}`);
+    }
+
+    if (hasSizeField(type)) return { ...step, aspectRatio: resolveFillSize(aspectRatio)!.aspectRatio };
+    if (type === "recolor") return { ...step, color: normalizeColor(color)! };
+
+    return step;
+  });
+};
@@ -0,0 +1,95 @@
+import { planEntitlements, planTiers, plans, subscriptionPlans, transformationTypes } from "@/constants";
+
+import { getOutputSize } from "./pricing";
+import { formatBytes } from "./utils";
+
+/**
+ * The tiers of the plans and the limits of what they grant.
+ *
+ * The limits are computed here so the forms can show the same upgrade prompts as the server, which
+ * enforces them with `assertWithinPlan`.
+ */
+
+// The tier of a plan of `plans` or `subscriptionPlans`; users without a known plan are on "free".
+export const getPlanTier = (planId?: number): PlanTier =>
+  [...plans, ...subscriptionPlans].find((plan) => plan._id === planId)?.tier ?? "free";
+
+export const getPlanEntitlements = (planId?: number) => planEntitlements[getPlanTier(planId)];
+
+export const hasPlanTier = (tier: PlanTier, required: PlanTier) =>
+  planTiers.indexOf(tier) >= planTiers.indexOf(required);
+
+// Of a user's package plan, if any, and another plan, the one with the higher tier.
+export const getHigherPlanId = (packagePlanId: number | undefined, planId: number) =>
+  packagePlanId !== undefined && !hasPlanTier(getPlanTier(planId), getPlanTier(packagePlanId))
+    ? packagePlanId
+    : planId;
+
+// A plan limit, with the lowest tier whose entitlements lift it.
+const getPlanLimit = (
+  reason: PlanLimitError["reason"],
+  message: string,
+  isLifted: (entitlements: PlanEntitlements, tier: PlanTier) => boolean
+): PlanLimitError => ({
+  code: "PLAN_LIMIT",
+  reason,
+  message,
+  requiredPlan: planTiers.find((tier) => isLifted(planEntitlements[tier], tier)),
+});
+
+// Whether a plan may apply a transformation or pipeline: every type must be granted by its tier,
+// and the output must fit in its `maxResolution`.
+export const getTransformationLimit = (planId: number | undefined, transformation: ChargedTransformation) => {
+  const tier = getPlanTier(planId);
+  const types = transformation.type === "pipeline"
+    ? (transformation.steps ?? []).map((step) => step.type)
+    : [transformation.type];
+  const lockedType = types.find((type) => !hasPlanTier(tier, transformationTypes[type].plan));
+
+  if (lockedType) {
+    const { title, plan } = transformationTypes[lockedType];
+
+    return getPlanLimit("transformation", `${title} requires the ${plan} plan`, (_, tier) => hasPlanTier(tier, plan));
+  }
+
+  const { width, height } = getOutputSize(transformation);
+  const resolution = Math.max(width, height);
+
+  if (resolution > planEntitlements[tier].maxResolution) {
+    return getPlanLimit(
+      "resolution",
+      `Your plan transforms images up to ${planEntitlements[tier].maxResolution}px per side, this one is ${resolution}px`,
+      ({ maxResolution }) => maxResolution >= resolution
+    );
+  }
+
+  return null;
+};
+
+export const getBatchLimit = (planId: number | undefined, count: number) => {
+  const { maxBatchSize } = getPlanEntitlements(planId);
+
+  return count > maxBatchSize
+    ? getPlanLimit("batchSize", `Your plan allows ${maxBatchSize} images per batch`, (entitlements) => entitlements.maxBatchSize >= count)
+    : null;
+};
+
+// Whether a plan may store the originals of `usage`, counting the ones about to be saved.
+export const getStorageLimit = (planId: number | undefined, { bytes, assets }: StorageUsage) => {
+  const { maxStorageBytes, maxAssets } = getPlanEntitlements(planId);
+  const isLifted = (entitlements: PlanEntitlements) =>
+    entitlements.maxStorageBytes >= bytes && entitlements.maxAssets >= assets;
+
+  if (assets > maxAssets) return getPlanLimit("storage", `Your plan stores up to ${maxAssets} images`, isLifted);
+
+  if (bytes > maxStorageBytes) {
+    return getPlanLimit("storage", `Your plan stores up to ${formatBytes(maxStorageBytes)} of images`, isLifted);
+  }
+
+  return null;
+};
+
+export const getApiLimit = (planId?: number) =>
+  getPlanEntitlements(planId).apiAccess
+    ? null
+    : getPlanLimit("api", "Your plan does not include API access", ({ apiAccess }) => apiAccess);
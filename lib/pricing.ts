@@ -0,0 +1,44 @@
+import { includedMegapixels, transformationTypes } from "@/constants";
+
+import { hasSizeField, resolveFillSize } from "./utils";
+
+/**
+ * The credits a transformation or pipeline costs, and the size of the image it outputs.
+ */
+
+// Credits of a transformation type applied to an image of the given size: the type's `credits`, plus
+// `perMegapixel` for every started megapixel of the output above `includedMegapixels`.
+export const getTransformationCost = (type: TransformationTypeKey, { width, height }: { width?: number; height?: number }) => {
+  const { cost, outputScale = 1 } = transformationTypes[type] as { cost: TransformationCost; outputScale?: number };
+  const megapixels = ((Number(width) || 0) * outputScale * (Number(height) || 0) * outputScale) / 1_000_000;
+
+  return cost.credits + Math.ceil(Math.max(0, megapixels - includedMegapixels)) * (cost.perMegapixel ?? 0);
+};
+
+// Credits of a pipeline: every step is charged for the size of the image it receives.
+export const getPipelineCost = (steps: PipelineStep[], { width, height }: { width?: number; height?: number }) => {
+  let size = { width: Number(width) || 0, height: Number(height) || 0 };
+
+  return steps.reduce((total, step) => {
+    if (hasSizeField(step.type)) size = resolveFillSize(step.aspectRatio) ?? size;
+
+    const cost = getTransformationCost(step.type, size);
+    const { outputScale = 1 } = transformationTypes[step.type] as { outputScale?: number };
+    size = { width: size.width * outputScale, height: size.height * outputScale };
+
+    return total + cost;
+  }, 0);
+};
+
+// Credits of a transformation or pipeline, see `ChargedTransformation`.
+export const getChargedCost = ({ type, width, height, steps }: ChargedTransformation) =>
+  type === "pipeline" ? getPipelineCost(steps ?? [], { width, height }) : getTransformationCost(type, { width, height });
+
+// Size of the image a transformation or pipeline outputs, see `outputScale`.
+export const getOutputSize = ({ type, width, height, steps }: ChargedTransformation) =>
+  (type === "pipeline" ? steps ?? [] : [{ type }]).reduce((size, step: PipelineStep) => {
+    const { outputScale = 1 } = transformationTypes[step.type] as { outputScale?: number };
+    const stepSize = (hasSizeField(step.type) && resolveFillSize(step.aspectRatio)) || size;
+
+    return { width: stepSize.width * outputScale, height: stepSize.height * outputScale };
+  }, { width: Number(width) || 0, height: Number(height) || 0 });
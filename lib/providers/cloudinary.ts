@@ -0,0 +1,95 @@
+import { UploadApiResponse } from "cloudinary";
+
+import { deleteCloudinaryAssets, getCloudinary } from "@/lib/cloudinary";
+
+import { RenderError, StoredAsset, TransformationProvider } from "./types";
+import { getTransformationUrl } from "./urls";
+
+// Folder of the uploaded originals, also used by the upload preset of the widget.
+const CLOUDINARY_FOLDER = "imaginify";
+// The Admin API lists at most 500 resources, and looks up at most 100 by ID, per call.
+const LIST_PAGE_SIZE = 500;
+const DESCRIBE_BATCH_SIZE = 100;
+
+const toStoredAsset = (resource: any): StoredAsset => ({
+  publicId: resource.public_id,
+  bytes: resource.bytes,
+  width: resource.width,
+  height: resource.height,
+  createdAt: new Date(resource.created_at),
+});
+
+/**
+ * Cloudinary: originals are stored in the `imaginify` folder and transformations,
+ * including the generative ones, are rendered by Cloudinary from the URL.
+ */
+export const cloudinaryProvider: TransformationProvider = {
+  name: "cloudinary",
+
+  upload: ({ data, filename }) =>
+    new Promise((resolve, reject) => {
+      getCloudinary().uploader.upload_stream(
+        { folder: CLOUDINARY_FOLDER, filename_override: filename, resource_type: "image" },
+        (error, result?: UploadApiResponse) => {
+          if (error || !result) return reject(error ?? new Error("Upload failed"));
+
+          resolve({
+            publicId: result.public_id,
+            secureURL: result.secure_url,
+            width: result.width,
+            height: result.height,
+          });
+        }
+      ).end(data);
+    }),
+
+  getTransformationUrl,
+
+  render: async (params) => {
+    const response = await fetch(getTransformationUrl(params));
+
+    if (!response.ok) throw new RenderError(response.status, `Cloudinary responded with ${response.status}`);
+
+    const contentType = response.headers.get("content-type") ?? "";
+
+    return {
+      data: Buffer.from(await response.arrayBuffer()),
+      format: contentType.startsWith("image/") ? contentType.slice("image/".length) : "jpg",
+    };
+  },
+
+  search: async (query) => {
+    // Quoted so the query is matched as text and never parsed as part of the expression
+    const term = query.replace(/["\\]/g, "\\$&");
+    const { resources } = await getCloudinary().search
+      .expression(`folder=${CLOUDINARY_FOLDER} AND "${term}"`)
+      .execute();
+
+    return resources.map((resource: any) => resource.public_id);
+  },
+
+  delete: deleteCloudinaryAssets,
+
+  list: async (cursor) => {
+    const { resources, next_cursor } = await getCloudinary().api.resources({
+      type: "upload",
+      prefix: `${CLOUDINARY_FOLDER}/`,
+      max_results: LIST_PAGE_SIZE,
+      ...(cursor && { next_cursor: cursor }),
+    });
+
+    return { assets: resources.map(toStoredAsset), nextCursor: next_cursor };
+  },
+
+  describe: async (publicIds) => {
+    const assets: StoredAsset[] = [];
+
+    for (let i = 0; i < publicIds.length; i += DESCRIBE_BATCH_SIZE) {
+      const { resources } = await getCloudinary().api.resources_by_ids(publicIds.slice(i, i + DESCRIBE_BATCH_SIZE));
+
+      assets.push(...resources.map(toStoredAsset));
+    }
+
+    return assets;
+  },
+};
@@ -0,0 +1,71 @@
+/**
+ * Upscale, Face & PII Blur, Crop to Subject and Text Overlay have no `CldImage` prop, so they are
+ * turned into raw Cloudinary transformation components.
+ *
+ * Works on the server and in the browser.
+ */
+
+import { blurStrengthOptions, textSizeOptions } from "@/constants";
+
+import { withCloudinaryMasks } from "./masks";
+import { TransformationUrlParams } from "./types";
+
+// Margin of a text overlay from the edges, relative to the image width
+const TEXT_MARGIN = 0.03;
+
+// Cloudinary reads commas and slashes of layer text as separators, so they are escaped twice
+const encodeText = (text: string) =>
+  encodeURIComponent(text.trim()).replace(/%2C/g, "%252C").replace(/%2F/g, "%252F");
+
+/**
+ * Returns the components of the effects of a config, in the order they are applied.
+ */
+export const getCloudinaryEffects = ({
+  width,
+  height,
+  upscale,
+  faceBlur,
+  cropToSubject,
+  textOverlay,
+}: Omit<TransformationUrlParams, "src">) => {
+  const components: string[] = [];
+
+  if (cropToSubject && width && height) components.push(`c_auto,g_auto,w_${width},h_${height}`);
+
+  if (upscale) components.push("e_upscale");
+
+  if (faceBlur) {
+    const strength = blurStrengthOptions[faceBlur.strength ?? "medium"];
+    components.push(faceBlur.style === "pixelate" ? `e_pixelate_faces:${strength.pixelate}` : `e_blur_faces:${strength.blur}`);
+  }
+
+  if (textOverlay?.text.trim()) {
+    const imageWidth = Number(width) || 1000;
+    const fontSize = Math.round(imageWidth * textSizeOptions[textOverlay.size ?? "medium"].scale);
+    const margin = Math.round(imageWidth * TEXT_MARGIN);
+    const gravity = textOverlay.gravity ?? "south_east";
+    const opacity = textOverlay.opacity ?? 100;
+
+    components.push([
+      `l_text:Arial_${fontSize}_bold:${encodeText(textOverlay.text)},co_rgb:${textOverlay.color || "FFFFFF"}${opacity < 100 ? `,o_${opacity}` : ""}`,
+      `fl_layer_apply,g_${gravity}${gravity === "center" ? "" : `,x_${margin},y_${margin}`}`,
+    ].join("/"));
+  }
+
+  return components;
+}; // End of getCloudinaryEffects
+
+/**
+ * Rewrites a config into the params `CldImage` and `getCldImageUrl` take: the effects above become
+ * raw transformations, and masked transformations layers, see `withCloudinaryMasks`.
+ */
+export const withCloudinaryEffects = <T extends Record<string, any>>(params: T): T => {
+  const { upscale, faceBlur, cropToSubject, textOverlay, ...rest } = params;
+  const effects = getCloudinaryEffects(params as unknown as TransformationUrlParams);
+
+  return withCloudinaryMasks({
+    ...rest,
+    ...(faceBlur?.mask?.length && { faceBlur: { mask: faceBlur.mask, strength: faceBlur.strength, style: faceBlur.style } }),
+    ...(effects.length && { rawTransformations: [...(rest.rawTransformations ?? []), ...effects] }),
+  }) as unknown as T;
+}; // End of withCloudinaryEffects
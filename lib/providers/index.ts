@@ -0,0 +1,11 @@
+import { cloudinaryProvider } from "./cloudinary";
+import { localProvider } from "./local";
+import { TransformationProvider } from "./types";
+import { imageProvider } from "./urls";
+
+/**
+ * Returns the image-processing provider configured by `NEXT_PUBLIC_IMAGE_PROVIDER`:
+ * `cloudinary` (default) or `local`. Server only; the browser uses `lib/providers/urls.ts`.
+ */
+export const getTransformationProvider = (): TransformationProvider =>
+  imageProvider === "local" ? localProvider : cloudinaryProvider;
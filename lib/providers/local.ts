@@ -0,0 +1,427 @@
+import { createHash, randomUUID } from "crypto";
+import { mkdir, readdir, readFile, stat, unlink, writeFile } from "fs/promises";
+import path from "path";
+import sharp from "sharp";
+
+import { blurStrengthOptions, maxExportDimension, maxPipelineSteps, textSizeOptions } from "@/constants";
+
+import { getMaskSvg } from "./masks";
+import { StoredAsset, TransformationProvider, TransformationUrlParams } from "./types";
+import { getLocalImageUrl } from "./urls";
+
+/**
+ * Local provider: originals are stored on disk and transformations are rendered with sharp.
+ *
+ * Meant for development, staging and tests, so the app runs without Cloudinary credentials.
+ * Only approximations of the AI transformations are available:
+ * - restore: denoise (median filter) and sharpen,
+ * - fill: the image is padded to the target size over a blurred copy of itself, placed by its gravity,
+ * - recolor: the whole image is tinted with the replacement color,
+ * - upscale: the image is resized to twice its size and sharpened,
+ * - cropToSubject: the image is cropped around its most salient region,
+ * - textOverlay: the text is drawn over the image,
+ * - remove, removeBackground and faceBlur: the image is left unchanged.
+ *
+ * A painted mask restricts recolor to the masked region, and remove and faceBlur blur that region away.
+ */
+
+const FOLDER = "imaginify";
+const PUBLIC_ID_PATTERN = /^imaginify\/[0-9a-f-]{36}$/;
+const SUPPORTED_FORMATS = ["jpeg", "png", "webp", "gif", "avif", "tiff"];
+
+type LocalImageMetadata = {
+  publicId: string;
+  filename: string;
+  format: string;
+  width: number;
+  height: number;
+  createdAt: string;
+};
+
+type LocalStep =
+  | { type: "restore" | "removeBackground" | "grayscale" }
+  | { type: "fill"; width: number; height: number; gravity?: FillGravity }
+  | { type: "remove"; mask?: MaskShape[] }
+  | { type: "recolor"; color?: string; mask?: MaskShape[] }
+  | { type: "upscale" }
+  | { type: "faceBlur"; strength?: BlurStrength; style?: "blur" | "pixelate"; mask?: MaskShape[] }
+  | { type: "cropToSubject"; width: number; height: number }
+  | ({ type: "textOverlay" } & NonNullable<Transformations["textOverlay"]>);
+
+// Upscaled images are kept within the largest size Cloudinary renders
+const MAX_UPSCALED_DIMENSION = 4096;
+
+// Fills and crops are rendered at most this large, whatever size the URL asks for
+const MAX_RENDER_DIMENSION = maxExportDimension;
+
+// Rendered images kept on disk; the least recently written are evicted beyond this
+const MAX_CACHE_BYTES = 512 * 1024 ** 2;
+
+// Where sharp places the original in a fill, for each Cloudinary gravity
+const SHARP_POSITIONS: Record<FillGravity, string> = {
+  center: "centre",
+  north: "top",
+  south: "bottom",
+  west: "left",
+  east: "right",
+  north_west: "left top",
+  north_east: "right top",
+  south_west: "left bottom",
+  south_east: "right bottom",
+};
+
+const getRootDir = () => process.env.LOCAL_IMAGE_DIR || path.join(process.cwd(), ".local-images");
+const getImagesDir = () => path.join(getRootDir(), FOLDER);
+const getCacheDir = () => path.join(getRootDir(), ".cache");
+
+const getId = (publicId: string) => {
+  if (!PUBLIC_ID_PATTERN.test(publicId)) throw new Error(`Invalid public ID: ${publicId}`);
+
+  return publicId.slice(FOLDER.length + 1);
+};
+
+const readMetadata = async (publicId: string): Promise<LocalImageMetadata> =>
+  JSON.parse(await readFile(path.join(getImagesDir(), `${getId(publicId)}.json`), "utf8"));
+
+const describeLocalImage = async (publicId: string): Promise<StoredAsset> => {
+  const { format, width, height, createdAt } = await readMetadata(publicId);
+  const { size } = await stat(path.join(getImagesDir(), `${getId(publicId)}.${format}`));
+
+  return { publicId, bytes: size, width, height, createdAt: new Date(createdAt) };
+};
+
+// Cloudinary takes hex colors without "#"
+const toCssColor = (color: string) => (/^[0-9a-f]{3}([0-9a-f]{3})?$/i.test(color) ? `#${color}` : color);
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Draws a text overlay as an SVG the size of the image, see `getCloudinaryEffects`.
+ */
+const getTextSvg = (
+  { text, color = "FFFFFF", gravity = "south_east", size = "medium", opacity = 100 }: NonNullable<Transformations["textOverlay"]>,
+  width: number,
+  height: number
+) => {
+  const fontSize = Math.round(width * textSizeOptions[size].scale);
+  const margin = Math.round(width * 0.03);
+  const x = gravity.includes("west") ? margin : gravity.includes("east") ? width - margin : width / 2;
+  const y = gravity.includes("north") ? margin : gravity.includes("south") ? height - margin : height / 2;
+  const anchor = gravity.includes("west") ? "start" : gravity.includes("east") ? "end" : "middle";
+  const baseline = gravity.includes("north") ? "hanging" : gravity.includes("south") ? "auto" : "middle";
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><text x="${x}" y="${y}" font-family="Arial, sans-serif" font-weight="bold" font-size="${fontSize}" fill="${toCssColor(color)}" fill-opacity="${opacity / 100}" text-anchor="${anchor}" dominant-baseline="${baseline}">${escapeXml(text.trim())}</text></svg>`;
+}; // End of getTextSvg
+
+/**
+ * Turns the raw transformation components of a pipeline (see `getPipelineConfig`) into local steps.
+ */
+const parseRawTransformation = (component: string): LocalStep => {
+  if (component === "e_gen_restore") return { type: "restore" };
+  if (component === "e_background_removal") return { type: "removeBackground" };
+  if (component === "e_grayscale") return { type: "grayscale" };
+  if (component.startsWith("e_gen_remove")) return { type: "remove" };
+  if (component === "e_upscale") return { type: "upscale" };
+  if (component.startsWith("e_blur_faces") || component.startsWith("e_pixelate_faces")) return { type: "faceBlur" };
+
+  if (component.startsWith("c_auto")) {
+    const width = Number(component.match(/w_(\d+)/)?.[1]);
+    const height = Number(component.match(/h_(\d+)/)?.[1]);
+    return { type: "cropToSubject", width, height };
+  }
+
+  if (component.startsWith("b_gen_fill")) {
+    const width = Number(component.match(/w_(\d+)/)?.[1]);
+    const height = Number(component.match(/h_(\d+)/)?.[1]);
+    const gravity = component.match(/g_(\w+)/)?.[1] as FillGravity | undefined;
+    return { type: "fill", width, height, gravity };
+  }
+
+  if (component.startsWith("e_gen_recolor")) {
+    const color = component.match(/to-color_([^;]+)/)?.[1];
+    return { type: "recolor", color: color && decodeURIComponent(color) };
+  }
+
+  throw new Error(`Unsupported transformation: ${component}`);
+};
+
+const clampDimension = (value: number) => {
+  if (!Number.isFinite(value) || value < 1) throw new Error(`Invalid dimension: ${value}`);
+
+  return Math.min(Math.round(value), MAX_RENDER_DIMENSION);
+};
+
+// Keeps the sizes of fills and crops within `MAX_RENDER_DIMENSION`
+const clampStep = (step: LocalStep): LocalStep =>
+  step.type === "fill" || step.type === "cropToSubject"
+    ? { ...step, width: clampDimension(step.width), height: clampDimension(step.height) }
+    : step;
+
+/**
+ * Lists the steps of a transformation config, in the order Cloudinary applies them.
+ */
+const getSteps = ({ width, height, rawTransformations, ...config }: Omit<TransformationUrlParams, "src">) => {
+  if (rawTransformations?.length) {
+    if (rawTransformations.length > maxPipelineSteps) throw new Error(`A pipeline has at most ${maxPipelineSteps} steps`);
+
+    return rawTransformations.map(parseRawTransformation).map(clampStep);
+  }
+
+  const steps: LocalStep[] = [];
+
+  if (config.restore) steps.push({ type: "restore" });
+  if (config.removeBackground) steps.push({ type: "removeBackground" });
+  if (config.fillBackground && width && height) {
+    const gravity = typeof config.fillBackground === "object" ? config.fillBackground.gravity : undefined;
+    steps.push({ type: "fill", width, height, gravity });
+  }
+  if (config.remove) steps.push({ type: "remove", mask: config.remove.mask });
+  if (config.recolor) steps.push({ type: "recolor", color: config.recolor.to, mask: config.recolor.mask });
+  if (config.cropToSubject && width && height) steps.push({ type: "cropToSubject", width, height });
+  if (config.upscale) steps.push({ type: "upscale" });
+  if (config.faceBlur) steps.push({ type: "faceBlur", ...config.faceBlur });
+  if (config.textOverlay?.text.trim()) steps.push({ type: "textOverlay", ...config.textOverlay });
+
+  return steps.map(clampStep);
+};
+
+/**
+ * Keeps `output` where the mask was painted and `input` everywhere else.
+ */
+const applyMask = async (input: Buffer, output: Buffer, mask: MaskShape[]) => {
+  const { width = 0, height = 0 } = await sharp(input).metadata();
+
+  const region = await sharp(output)
+    .ensureAlpha()
+    .composite([{ input: Buffer.from(getMaskSvg(mask, width, height)), blend: "dest-in" }])
+    .png()
+    .toBuffer();
+
+  return sharp(input).composite([{ input: region }]).toBuffer();
+};
+
+const applyStep = async (input: Buffer, step: LocalStep): Promise<Buffer> => {
+  switch (step.type) {
+    case "restore":
+      return sharp(input).median(3).sharpen().toBuffer();
+    case "grayscale":
+      return sharp(input).grayscale().toBuffer();
+    case "recolor": {
+      const output = step.color
+        ? await sharp(input).tint(toCssColor(step.color)).toBuffer()
+        : await sharp(input).grayscale().toBuffer();
+
+      return step.mask?.length ? applyMask(input, output, step.mask) : output;
+    }
+    case "remove":
+      return step.mask?.length ? applyMask(input, await sharp(input).blur(30).toBuffer(), step.mask) : input;
+    case "faceBlur": {
+      // Faces are not detected locally, only the painted regions are blurred
+      if (!step.mask?.length) return input;
+
+      const strength = blurStrengthOptions[step.strength ?? "medium"];
+      let output: Buffer;
+
+      if (step.style === "pixelate") {
+        const { width = 0, height = 0 } = await sharp(input).metadata();
+        const pixelated = await sharp(input)
+          .resize(Math.max(1, Math.round(width / strength.pixelate)), Math.max(1, Math.round(height / strength.pixelate)))
+          .toBuffer();
+        output = await sharp(pixelated).resize(width, height, { kernel: "nearest" }).toBuffer();
+      } else {
+        output = await sharp(input).blur(Math.min(strength.blur / 40, 100)).toBuffer();
+      }
+
+      return applyMask(input, output, step.mask);
+    }
+    case "upscale": {
+      const { width = 0, height = 0 } = await sharp(input).metadata();
+      const scale = Math.min(2, MAX_UPSCALED_DIMENSION / Math.max(width, height, 1));
+
+      return scale > 1
+        ? sharp(input).resize(Math.round(width * scale), Math.round(height * scale), { kernel: "lanczos3" }).sharpen().toBuffer()
+        : input;
+    }
+    case "cropToSubject":
+      return sharp(input)
+        .resize(step.width, step.height, { fit: "cover", position: sharp.strategy.attention })
+        .toBuffer();
+    case "textOverlay": {
+      const { width = 0, height = 0 } = await sharp(input).metadata();
+
+      return sharp(input).composite([{ input: Buffer.from(getTextSvg(step, width, height)) }]).toBuffer();
+    }
+    case "fill": {
+      const { width, height } = step;
+      const background = await sharp(input).resize(width, height, { fit: "cover" }).blur(30).toBuffer();
+      const foreground = await sharp(input)
+        .resize(width, height, {
+          fit: "contain",
+          position: SHARP_POSITIONS[step.gravity ?? "center"],
+          background: { r: 0, g: 0, b: 0, alpha: 0 },
+        })
+        .png()
+        .toBuffer();
+
+      return sharp(background).composite([{ input: foreground }]).toBuffer();
+    }
+    default:
+      // Generative removals need Cloudinary
+      return input;
+  }
+};
+
+/**
+ * Renders an image with a transformation config applied, caching the result on disk.
+ *
+ * Fills and crops are rendered at most `MAX_RENDER_DIMENSION` wide and high, and the cache is kept
+ * under `MAX_CACHE_BYTES`, as the sizes and configs come from URLs anyone can request.
+ *
+ * @returns The rendered PNG.
+ */
+export async function renderLocalImage({ src, ...params }: TransformationUrlParams) {
+  const id = getId(src);
+  const cacheKey = createHash("sha1").update(JSON.stringify(params)).digest("hex");
+  const cachePath = path.join(getCacheDir(), `${id}-${cacheKey}.png`);
+
+  try {
+    return await readFile(cachePath);
+  } catch {
+    // Not rendered yet
+  }
+
+  const { format } = await readMetadata(src);
+  let image = await readFile(path.join(getImagesDir(), `${id}.${format}`));
+
+  for (const step of getSteps(params)) {
+    image = await applyStep(image, step);
+  }
+
+  const rendered = await sharp(image).png().toBuffer();
+
+  await mkdir(getCacheDir(), { recursive: true });
+  await writeFile(cachePath, rendered);
+  await pruneRenderCache().catch((error) => console.error("Failed to prune the local render cache", error));
+
+  return rendered;
+}; // End of renderLocalImage
+
+/**
+ * Deletes the oldest rendered images once the cache holds more than `MAX_CACHE_BYTES`.
+ */
+const pruneRenderCache = async () => {
+  const files = await Promise.all(
+    (await readdir(getCacheDir())).map(async (file) => {
+      const { size, mtimeMs } = await stat(path.join(getCacheDir(), file));
+
+      return { file, size, mtimeMs };
+    })
+  );
+  let total = files.reduce((sum, { size }) => sum + size, 0);
+
+  for (const { file, size } of files.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+    if (total <= MAX_CACHE_BYTES) break;
+
+    await unlink(path.join(getCacheDir(), file)).catch(() => undefined);
+    total -= size;
+  }
+};
+
+export const localProvider: TransformationProvider = {
+  name: "local",
+
+  upload: async ({ data, filename }) => {
+    const { format, width, height } = await sharp(data).metadata();
+
+    if (!format || !SUPPORTED_FORMATS.includes(format) || !width || !height) {
+      throw new Error("Unsupported image format");
+    }
+
+    const id = randomUUID();
+    const publicId = `${FOLDER}/${id}`;
+    const metadata: LocalImageMetadata = {
+      publicId,
+      filename,
+      format,
+      width,
+      height,
+      createdAt: new Date().toISOString(),
+    };
+
+    await mkdir(getImagesDir(), { recursive: true });
+    await writeFile(path.join(getImagesDir(), `${id}.${format}`), data);
+    await writeFile(path.join(getImagesDir(), `${id}.json`), JSON.stringify(metadata));
+
+    return { publicId, secureURL: getLocalImageUrl({ src: publicId }), width, height };
+  },
+
+  getTransformationUrl: getLocalImageUrl,
+
+  render: async (params) => ({ data: await renderLocalImage(params), format: "png" }),
+
+  search: async (query) => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const files = await readdir(getImagesDir()).catch(() => [] as string[]);
+    const matches: string[] = [];
+
+    for (const file of files.filter((file) => file.endsWith(".json"))) {
+      const metadata: LocalImageMetadata = JSON.parse(await readFile(path.join(getImagesDir(), file), "utf8"));
+      const haystack = `${metadata.publicId} ${metadata.filename}`.toLowerCase();
+
+      if (terms.every((term) => haystack.includes(term))) matches.push(metadata.publicId);
+    }
+
+    return matches;
+  },
+
+  delete: async (publicIds) => {
+    const deleted: string[] = [];
+    const cachedFiles = await readdir(getCacheDir()).catch(() => [] as string[]);
+
+    for (const publicId of publicIds) {
+      try {
+        const id = getId(publicId);
+        const { format } = await readMetadata(publicId);
+
+        await unlink(path.join(getImagesDir(), `${id}.${format}`));
+        await unlink(path.join(getImagesDir(), `${id}.json`));
+
+        await Promise.all(
+          cachedFiles
+            .filter((file) => file.startsWith(`${id}-`))
+            .map((file) => unlink(path.join(getCacheDir(), file)))
+        );
+
+        deleted.push(publicId);
+      } catch (error) {
+        console.error("Failed to delete local image", publicId, error);
+      }
+    }
+
+    return deleted;
+  },
+
+  // Every original fits in one page
+  list: async () => {
+    const files = await readdir(getImagesDir()).catch(() => [] as string[]);
+    const publicIds = files
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => `${FOLDER}/${file.slice(0, -".json".length)}`);
+
+    return { assets: await localProvider.describe(publicIds) };
+  },
+
+  describe: async (publicIds) => {
+    const assets: StoredAsset[] = [];
+
+    for (const publicId of publicIds) {
+      // Unknown or foreign public IDs are left out
+      const asset = await describeLocalImage(publicId).catch(() => null);
+
+      if (asset) assets.push(asset);
+    }
+
+    return assets;
+  },
+};
@@ -0,0 +1,161 @@
+/**
+ * Masks restrict Object Remove and Recolor to regions painted over the image, see `MaskPainter`;
+ * with Face & PII Blur, the painted regions are blurred on top of the faces.
+ *
+ * The local provider applies a mask exactly. Cloudinary cannot take a painted mask in the URL, so
+ * the transformation is applied to a crop of each region's bounding box, layered back over the image.
+ *
+ * Works on the server and in the browser.
+ */
+
+import { blurStrengthOptions } from "@/constants";
+
+import { TransformationUrlParams } from "./types";
+
+type MaskBox = { x: number; y: number; width: number; height: number };
+
+const overlaps = (a: MaskBox, b: MaskBox) =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+const union = (a: MaskBox, b: MaskBox): MaskBox => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+};
+
+/**
+ * Returns the bounding boxes of the painted regions, relative to the image size, merging the ones
+ * that overlap.
+ *
+ * @param aspectRatio - Width over height of the image, to pad brush strokes evenly.
+ */
+export const getMaskBoxes = (mask: MaskShape[], aspectRatio = 1) => {
+  let boxes = mask.filter((shape) => shape.points.length >= 2).map((shape) => {
+    const xs = shape.points.filter((_, index) => index % 2 === 0);
+    const ys = shape.points.filter((_, index) => index % 2 === 1);
+    const padX = shape.tool === "brush" ? (shape.size ?? 0) / 2 : 0;
+    const padY = padX * aspectRatio;
+
+    const x = Math.max(Math.min(...xs) - padX, 0);
+    const y = Math.max(Math.min(...ys) - padY, 0);
+
+    return {
+      x,
+      y,
+      width: Math.min(Math.max(...xs) + padX, 1) - x,
+      height: Math.min(Math.max(...ys) + padY, 1) - y,
+    };
+  }).filter((box) => box.width > 0 && box.height > 0);
+
+  // Merges until no two boxes overlap, so no area is transformed twice
+  let merged = true;
+
+  while (merged) {
+    merged = false;
+
+    for (let i = 0; i < boxes.length && !merged; i++) {
+      for (let j = i + 1; j < boxes.length && !merged; j++) {
+        if (overlaps(boxes[i], boxes[j])) {
+          boxes = [...boxes.filter((_, index) => index !== i && index !== j), union(boxes[i], boxes[j])];
+          merged = true;
+        }
+      }
+    }
+  }
+
+  return boxes;
+}; // End of getMaskBoxes
+
+/**
+ * Draws a mask as an SVG the size of the image: white where it was painted, transparent elsewhere.
+ */
+export const getMaskSvg = (mask: MaskShape[], width: number, height: number) => {
+  const toPoints = (points: number[]) =>
+    points
+      .reduce<string[]>((pairs, value, index) => {
+        if (index % 2 === 1) pairs.push(`${points[index - 1] * width},${value * height}`);
+        return pairs;
+      }, [])
+      .join(" ");
+
+  const shapes = mask.map((shape) => {
+    if (shape.tool === "lasso") return `<polygon points="${toPoints(shape.points)}" fill="#fff"/>`;
+
+    const strokeWidth = (shape.size ?? 0) * width;
+
+    // A single click paints a dot
+    if (shape.points.length === 2) {
+      const [x, y] = shape.points;
+      return `<circle cx="${x * width}" cy="${y * height}" r="${strokeWidth / 2}" fill="#fff"/>`;
+    }
+
+    return `<polyline points="${toPoints(shape.points)}" fill="none" stroke="#fff" stroke-width="${strokeWidth}" stroke-linecap="round" stroke-linejoin="round"/>`;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join("")}</svg>`;
+}; // End of getMaskSvg
+
+const encodeParam = (value = "") => encodeURIComponent(value.trim());
+
+// Cloudinary reads decimals as fractions of the image size, so 1 has to be written 1.000
+const relative = (value: number) => value.toFixed(3);
+
+/**
+ * Rewrites masked remove, recolor and blur transformations into Cloudinary layers.
+ *
+ * For each region, the original is layered over itself, cropped to the region's bounding box, has
+ * the transformation applied and is placed back at the same position.
+ */
+export const withCloudinaryMasks = <T extends Record<string, any>>(params: T): T => {
+  const { src, width, height, remove, recolor, faceBlur, rawTransformations } = params as unknown as TransformationUrlParams;
+
+  if (!remove?.mask?.length && !recolor?.mask?.length && !faceBlur?.mask?.length) return params;
+
+  const aspectRatio = Number(width) && Number(height) ? Number(width) / Number(height) : 1;
+  const layers: string[] = [];
+  const masked: Record<string, any> = { ...params };
+
+  const addLayers = (mask: MaskShape[], effect: string) =>
+    getMaskBoxes(mask, aspectRatio).forEach((box) => {
+      const [x, y, w, h] = [box.x, box.y, box.width, box.height].map(relative);
+
+      layers.push([
+        `l_${src.replace(/\//g, ":")}`,
+        `c_crop,x_${x},y_${y},w_${w},h_${h}`,
+        effect,
+        `c_scale,fl_relative,w_${w}`,
+        `fl_layer_apply,g_north_west,x_${x},y_${y}`,
+      ].join("/"));
+    });
+
+  if (remove?.mask?.length) {
+    delete masked.remove;
+    addLayers(
+      remove.mask,
+      `e_gen_remove:prompt_${encodeParam(remove.prompt)};multiple_true${remove.removeShadow ? ";remove-shadow_true" : ""}`
+    );
+  }
+
+  if (recolor?.mask?.length) {
+    delete masked.recolor;
+    addLayers(
+      recolor.mask,
+      `e_gen_recolor:prompt_${encodeParam(recolor.prompt)};to-color_${encodeParam(recolor.to).replace(/^%23/, "")};multiple_true`
+    );
+  }
+
+  if (faceBlur?.mask?.length) {
+    const strength = blurStrengthOptions[faceBlur.strength ?? "medium"];
+
+    delete masked.faceBlur;
+    addLayers(faceBlur.mask, faceBlur.style === "pixelate" ? `e_pixelate:${strength.pixelate}` : `e_blur:${strength.blur}`);
+  }
+
+  return { ...masked, rawTransformations: [...(rawTransformations ?? []), ...layers] } as unknown as T;
+}; // End of withCloudinaryMasks
@@ -0,0 +1,71 @@
+/**
+ * The operations an image-processing backend has to provide.
+ *
+ * `getTransformationUrl` is also used in the browser, see `lib/providers/urls.ts`; the
+ * other operations only run on the server.
+ */
+
+export type ImageProviderName = "cloudinary" | "local";
+
+export type TransformationUrlParams = Transformations & {
+  src: string;
+  width?: number;
+  height?: number;
+  removeBackground?: boolean;
+  rawTransformations?: string[];
+};
+
+export type UploadedImage = {
+  publicId: string;
+  secureURL: string;
+  width: number;
+  height: number;
+};
+
+// A stored original, see `list` and `describe`.
+export type StoredAsset = {
+  publicId: string;
+  bytes: number;
+  width: number;
+  height: number;
+  createdAt: Date;
+};
+
+/**
+ * Thrown by `render` when the provider answers with an error status, e.g. 423 while Cloudinary is
+ * still rendering a generative transformation.
+ */
+export class RenderError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "RenderError";
+    this.status = status;
+  }
+}
+
+export interface TransformationProvider {
+  name: ImageProviderName;
+
+  /** Stores an original image. */
+  upload(file: { data: Buffer; filename: string }): Promise<UploadedImage>;
+
+  /** Returns the URL of an image with a transformation config applied. */
+  getTransformationUrl(params: TransformationUrlParams): string;
+
+  /** Renders an image with a transformation config applied, e.g. for downloads. */
+  render(params: TransformationUrlParams): Promise<{ data: Buffer; format: string }>;
+
+  /** Returns the public IDs of the originals matching a free-text query. */
+  search(query: string): Promise<string[]>;
+
+  /** Deletes originals and their derived images, returning the public IDs that were deleted. */
+  delete(publicIds: string[]): Promise<string[]>;
+
+  /** Lists the stored originals a page at a time, passing the `nextCursor` of the previous page. */
+  list(cursor?: string): Promise<{ assets: StoredAsset[]; nextCursor?: string }>;
+
+  /** Returns the stored originals among the given public IDs; unknown IDs are left out. */
+  describe(publicIds: string[]): Promise<StoredAsset[]>;
+}
@@ -0,0 +1,36 @@
+import { getCldImageUrl } from "next-cloudinary";
+
+import { withCloudinaryEffects } from "./effects";
+import { ImageProviderName, TransformationUrlParams } from "./types";
+
+/**
+ * The provider the app runs with, set by `NEXT_PUBLIC_IMAGE_PROVIDER` so the browser knows it too.
+ */
+export const imageProvider: ImageProviderName =
+  process.env.NEXT_PUBLIC_IMAGE_PROVIDER === "local" ? "local" : "cloudinary";
+
+// Route serving the images of the local provider
+export const LOCAL_IMAGES_ROUTE = "/api/local-images";
+
+/**
+ * Builds the URL of a local image: the original, or the transformation encoded in the query.
+ */
+export const getLocalImageUrl = ({ src, width, height, ...config }: TransformationUrlParams) => {
+  const params = new URLSearchParams();
+
+  if (width) params.set("w", width.toString());
+  if (height) params.set("h", height.toString());
+  if (Object.keys(config).length) params.set("t", JSON.stringify(config));
+
+  const query = params.toString();
+
+  return `${LOCAL_IMAGES_ROUTE}/${src}${query ? `?${query}` : ""}`;
+};
+
+/**
+ * Returns the URL of an image with a transformation config applied, for the configured provider.
+ *
+ * Works on the server and in the browser.
+ */
+export const getTransformationUrl = (params: TransformationUrlParams) =>
+  imageProvider === "local" ? getLocalImageUrl(params) : getCldImageUrl(withCloudinaryEffects(params));
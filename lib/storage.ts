@@ -0,0 +1,236 @@
+import { ClientSession, Types } from "mongoose";
+
+import { storageCleanup } from "@/constants";
+import { connect } from "@/lib/database/db";
+import Image from "@/lib/database/models/image.model";
+import ImageVersion from "@/lib/database/models/imageVersion.model";
+import Upload from "@/lib/database/models/upload.model";
+import User from "@/lib/database/models/user.model";
+import { getTransformationProvider } from "@/lib/providers";
+import { StoredAsset } from "@/lib/providers/types";
+
+/**
+ * Storage accounting and cleanup of the originals stored by the image provider.
+ *
+ * `Image.bytes` records the size of each saved original and `User.storage` totals them per user,
+ * see `refreshStorageUsage`; the plan quotas are checked by `assertStorageAvailable`. Originals no
+ * image references any more are deleted right away, and `reconcileStorage` sweeps up the rest:
+ * uploads that were never saved and deletions that failed.
+ */
+
+/**
+ * Returns a stored original as the provider knows it. Its dimensions are the ones transformations
+ * are priced and checked against, never the ones a client declares.
+ *
+ * @throws Error if the provider does not know the original.
+ */
+export async function getStoredAsset(publicId: string) {
+  if (typeof publicId !== "string" || !publicId) throw new Error("Image not found");
+
+  const [asset] = await getTransformationProvider().describe([publicId]);
+
+  if (!asset) throw new Error("Image not found");
+
+  return asset;
+}; // End of getStoredAsset
+
+/**
+ * Checks that a stored original was uploaded by a user before it is transformed for them.
+ *
+ * The originals of the user's images are theirs. Any other original is claimed by the first user to
+ * transform it within the grace period of uploads that are never saved, see `Upload`; once claimed,
+ * no one else may use it.
+ *
+ * @throws Error if the original belongs to someone else or is too old to claim, with the same
+ * message as an unknown original so the ids of others' uploads cannot be probed.
+ */
+export async function assertUploadOwner(userId: string, asset: StoredAsset) {
+  await connect();
+
+  if (await Image.exists({ author: userId, publicId: asset.publicId })) return;
+
+  const upload = await Upload.findOne({ publicId: asset.publicId });
+
+  if (upload) {
+    if (upload.user.toString() !== userId) throw new Error("Image not found");
+    return;
+  }
+
+  if (asset.createdAt.getTime() < Date.now() - storageCleanup.gracePeriodMs) throw new Error("Image not found");
+  if (await Image.exists({ publicId: asset.publicId })) throw new Error("Image not found");
+
+  const claimed = await Upload.findOneAndUpdate(
+    { publicId: asset.publicId },
+    { $setOnInsert: { user: userId, publicId: asset.publicId } },
+    { new: true, upsert: true }
+  );
+
+  if (claimed.user.toString() !== userId) throw new Error("Image not found");
+}; // End of assertUploadOwner
+
+/**
+ * Returns the size of a stored original, 0 when the provider does not know it.
+ */
+export async function getAssetBytes(publicId: string) {
+  const [asset] = await getTransformationProvider().describe([publicId]).catch((error) => {
+    console.error("Failed to look up the size of", publicId, error);
+    return [];
+  });
+
+  return asset?.bytes ?? 0;
+}; // End of getAssetBytes
+
+/**
+ * Recomputes the `storage` of a user from their saved images. An original saved as several images
+ * is counted once.
+ *
+ * @returns The new usage.
+ */
+export async function refreshStorageUsage(userId: string, session?: ClientSession): Promise<StorageUsage> {
+  const [usage] = await Image.aggregate([
+    { $match: { author: new Types.ObjectId(userId) } },
+    { $group: { _id: "$publicId", bytes: { $max: { $ifNull: ["$bytes", 0] } } } },
+    { $group: { _id: null, bytes: { $sum: "$bytes" }, assets: { $sum: 1 } } },
+  ]).session(session ?? null);
+
+  const storage = { bytes: usage?.bytes ?? 0, assets: usage?.assets ?? 0 };
+
+  await User.updateOne({ _id: userId }, { storage }, { session });
+
+  return storage;
+}; // End of refreshStorageUsage
+
+/**
+ * Returns the originals among `publicIds` that an image, or a version an image can be reverted to,
+ * still uses.
+ */
+async function findReferencedAssets(publicIds: string[]): Promise<string[]> {
+  const [images, versions] = await Promise.all([
+    Image.distinct("publicId", { publicId: { $in: publicIds } }),
+    ImageVersion.distinct("publicId", { publicId: { $in: publicIds } }),
+  ]);
+
+  return Array.from(new Set([...images, ...versions]));
+}; // End of findReferencedAssets
+
+/**
+ * Deletes the originals among `publicIds` that no image or image version references.
+ *
+ * The provider is not part of any database transaction, so call this once the images are gone. A
+ * failure is logged, never thrown: the originals left behind are found by `reconcileStorage`.
+ *
+ * @returns The public IDs that were deleted.
+ */
+export async function deleteUnreferencedAssets(publicIds: string[]) {
+  const referenced = await findReferencedAssets(publicIds);
+  const unreferenced = Array.from(new Set(publicIds)).filter((publicId) => !referenced.includes(publicId));
+
+  if (!unreferenced.length) return [];
+
+  try {
+    const deleted = await getTransformationProvider().delete(unreferenced);
+
+    await Upload.deleteMany({ publicId: { $in: deleted } });
+
+    return deleted;
+  } catch (error) {
+    console.error("Failed to delete provider assets", unreferenced, error);
+
+    return [];
+  }
+}; // End of deleteUnreferencedAssets
+
+export type StorageReconciliationReport = {
+  dryRun: boolean;
+  scanned: number;
+  referenced: number;
+  // Unreferenced originals younger than the grace period, e.g. uploads still being edited
+  withinGracePeriod: number;
+  orphaned: StoredAsset[];
+  deleted: string[];
+  freedBytes: number;
+  // Images whose missing `bytes` were filled in from the listing
+  backfilledImages: number;
+  skippedReason?: string;
+};
+
+/**
+ * Finds the originals of the provider that no image or image version references and deletes the ones older than the
+ * grace period, at most `maxDeletionsPerRun` per run. Saved images without `bytes` get them from the
+ * listing, and the `storage` of their authors is recomputed.
+ *
+ * As a safeguard nothing is deleted when no original at all is referenced, e.g. when the app points
+ * at an empty database.
+ *
+ * @param options.dryRun - Only report what would be deleted and backfilled.
+ * @param options.now - The time the grace period is counted from.
+ * @returns What was found and done.
+ */
+export async function reconcileStorage({ dryRun = false, now = new Date() }: { dryRun?: boolean; now?: Date } = {}) {
+  await connect();
+
+  const provider = getTransformationProvider();
+  const cutoff = now.getTime() - storageCleanup.gracePeriodMs;
+  const report: StorageReconciliationReport = {
+    dryRun,
+    scanned: 0,
+    referenced: 0,
+    withinGracePeriod: 0,
+    orphaned: [],
+    deleted: [],
+    freedBytes: 0,
+    backfilledImages: 0,
+  };
+  const authorsToRefresh = new Set<string>();
+  let cursor: string | undefined;
+
+  do {
+    const page = await provider.list(cursor);
+    const images = await Image.find({ publicId: { $in: page.assets.map((asset) => asset.publicId) } })
+      .select("publicId bytes author");
+    const referenced = new Set(await findReferencedAssets(page.assets.map((asset) => asset.publicId)));
+
+    for (const asset of page.assets) {
+      report.scanned++;
+
+      if (referenced.has(asset.publicId)) report.referenced++;
+      else if (asset.createdAt.getTime() > cutoff) report.withinGracePeriod++;
+      else report.orphaned.push(asset);
+    }
+
+    const missingBytes = images.filter((image) => image.bytes === undefined || image.bytes === null);
+    report.backfilledImages += missingBytes.length;
+
+    if (!dryRun && missingBytes.length) {
+      const sizes = new Map(page.assets.map((asset) => [asset.publicId, asset.bytes]));
+
+      await Image.bulkWrite(missingBytes.map((image) => ({
+        updateOne: { filter: { _id: image._id }, update: { bytes: sizes.get(image.publicId) ?? 0 } },
+      })));
+
+      missingBytes.forEach((image) => image.author && authorsToRefresh.add(image.author.toString()));
+    }
+
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  for (const author of Array.from(authorsToRefresh)) {
+    await refreshStorageUsage(author);
+  }
+
+  if (report.scanned > 0 && report.referenced === 0) {
+    report.skippedReason = "No stored original is referenced by an image, nothing was deleted";
+    return report;
+  }
+
+  if (!dryRun && report.orphaned.length) {
+    const candidates = report.orphaned.slice(0, storageCleanup.maxDeletionsPerRun);
+    const sizes = new Map(candidates.map((asset) => [asset.publicId, asset.bytes]));
+
+    // Checked again, in case one of them was saved while the listing ran
+    report.deleted = await deleteUnreferencedAssets(candidates.map((asset) => asset.publicId));
+    report.freedBytes = report.deleted.reduce((total, publicId) => total + (sizes.get(publicId) ?? 0), 0);
+  }
+
+  return report;
+}; // End of reconcileStorage
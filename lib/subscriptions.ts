@@ -0,0 +1,137 @@
+import { ClientSession } from "mongoose";
+import Stripe from "stripe";
+
+import { plans, subscriptionPlans } from "@/constants";
+import Subscription from "@/lib/database/models/subscription.model";
+import User from "@/lib/database/models/user.model";
+import { getHigherPlanId } from "@/lib/plans";
+
+/**
+ * Subscription helpers shared by the subscription server actions and the Stripe webhook.
+ */
+
+export type SubscriptionPlan = (typeof subscriptionPlans)[number];
+
+// Stripe statuses in which the subscriber keeps the plan's benefits.
+export const ACTIVE_SUBSCRIPTION_STATUSES = ["active", "trialing", "past_due"];
+
+const FREE_PLAN_ID = plans[0]._id;
+
+export const getSubscriptionPlan = (planId: number) =>
+  subscriptionPlans.find((plan) => plan._id === planId);
+
+/**
+ * Returns the Stripe price id of a subscription plan, creating the price on first use.
+ *
+ * Prices are looked up by a `lookup_key` derived from the plan, so changing a plan's
+ * price or interval in `subscriptionPlans` creates a new Stripe price.
+ */
+export async function getPlanPrice(stripe: Stripe, plan: SubscriptionPlan) {
+  const lookupKey = `imagigenie_plan_${plan._id}_${plan.interval}_${plan.price}`;
+
+  const { data } = await stripe.prices.list({ lookup_keys: [lookupKey], limit: 1 });
+
+  if (data.length) return data[0].id;
+
+  const price = await stripe.prices.create({
+    currency: "usd",
+    unit_amount: plan.price * 100,
+    recurring: { interval: plan.interval },
+    product_data: { name: plan.name },
+    lookup_key: lookupKey,
+  });
+
+  return price.id;
+}; // End of getPlanPrice
+
+/**
+ * Computes how many credits a billing period grants, honouring the plan's rollover cap.
+ *
+ * After the top-up the balance is at most `rolloverCap + credits`.
+ */
+export const getTopUpCredits = (plan: SubscriptionPlan, creditBalance: number) => {
+  if (plan.rolloverCap === undefined) return plan.credits;
+
+  return Math.max(0, Math.min(plan.credits, plan.rolloverCap + plan.credits - creditBalance));
+};
+
+/**
+ * Creates or updates the local copy of a Stripe subscription and keeps `User.planId` in sync.
+ *
+ * The user keeps the plan of a package they bought when its tier is higher than the subscription's,
+ * or when the subscription is no longer active. The tier is published to Clerk by the caller once
+ * the transaction has committed, see `processStripeEvent`.
+ *
+ * @param params.stripeSubscriptionId - The Stripe subscription id.
+ * @param params.userId - The subscriber's user id.
+ * @param params.planId - The subscribed plan.
+ * @param params.status - The Stripe subscription status.
+ * @param params.session - The session of the surrounding database transaction.
+ * @returns The updated subscription.
+ */
+export async function syncSubscription({
+  stripeSubscriptionId,
+  userId,
+  planId,
+  status,
+  stripeCustomerId,
+  currentPeriodEnd,
+  cancelAtPeriodEnd,
+  session,
+}: {
+  stripeSubscriptionId: string;
+  userId: string;
+  planId: number;
+  status: string;
+  stripeCustomerId?: string;
+  currentPeriodEnd?: Date;
+  cancelAtPeriodEnd?: boolean;
+  session: ClientSession;
+}) {
+  const subscription = await Subscription.findOneAndUpdate(
+    { stripeSubscriptionId },
+    {
+      $set: {
+        user: userId,
+        planId,
+        status,
+        updatedAt: new Date(),
+        ...(stripeCustomerId && { stripeCustomerId }),
+        ...(currentPeriodEnd && { currentPeriodEnd }),
+        ...(cancelAtPeriodEnd !== undefined && { cancelAtPeriodEnd }),
+      },
+    },
+    { new: true, upsert: true, session }
+  );
+
+  const isActive = ACTIVE_SUBSCRIPTION_STATUSES.includes(status);
+  const user = await User.findById(userId).session(session);
+
+  if (user) {
+    user.planId = getHigherPlanId(user.packagePlanId, isActive ? planId : FREE_PLAN_ID);
+    await user.save({ session });
+  }
+
+  return subscription;
+}; // End of syncSubscription
+
+/**
+ * Cancels the Stripe subscriptions of a user right away, e.g. when the user is deleted, so they are
+ * not billed any further.
+ *
+ * @throws If Stripe cannot cancel one of them, so the deletion can be retried.
+ * @returns The ids of the canceled Stripe subscriptions.
+ */
+export async function cancelStripeSubscriptions(userId: string) {
+  const subscriptions = await Subscription.find({ user: userId, status: { $in: ACTIVE_SUBSCRIPTION_STATUSES } });
+
+  if (!subscriptions.length) return [];
+
+  const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!);
+
+  for (const subscription of subscriptions) {
+    await stripe.subscriptions.cancel(subscription.stripeSubscriptionId);
+  }
+
+  return subscriptions.map((subscription) => subscription.stripeSubscriptionId as string);
+}; // End of cancelStripeSubscriptions
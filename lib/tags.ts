@@ -0,0 +1,53 @@
+import { maxTagLength, maxTagsPerImage } from "@/constants";
+
+import { resolveFillSize } from "./utils";
+
+/**
+ * Normalizing and suggesting the tags of images.
+ */
+
+// Tags are lowercase words joined by dashes, e.g. "Golden Retriever" becomes "golden-retriever".
+export const normalizeTag = (tag: string) =>
+  tag
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, maxTagLength);
+
+// Normalizes and deduplicates tags, keeping at most `maxTagsPerImage`.
+export const normalizeTags = (tags: string[] = []) =>
+  Array.from(new Set(tags.filter((tag) => typeof tag === "string").map(normalizeTag).filter(Boolean)))
+    .slice(0, maxTagsPerImage);
+
+const TAG_STOP_WORDS = new Set(["the", "and", "with", "from", "for", "that", "this", "into", "onto", "over"]);
+
+// Tags derived from a transformation: its type, the words of its prompt,
+// the recolor target color and the shape of its aspect ratio.
+export const suggestTags = ({ transformationType, prompt, color, aspectRatio }: {
+  transformationType?: string;
+  prompt?: string;
+  color?: string;
+  aspectRatio?: string;
+}) => {
+  const suggestions: string[] = [];
+
+  if (transformationType) suggestions.push(transformationType.replace(/([a-z])([A-Z])/g, "$1-$2"));
+
+  prompt
+    ?.split(/[^a-zA-Z0-9]+/)
+    .filter((word) => word.length >= 3 && !TAG_STOP_WORDS.has(word.toLowerCase()))
+    .forEach((word) => suggestions.push(word));
+
+  // Named colors only, hex codes make poor tags
+  if (color && /^[a-z]+$/i.test(color.trim())) suggestions.push(color.trim());
+
+  // Custom sizes are tagged by their orientation
+  const size = resolveFillSize(aspectRatio);
+  if (size?.label.startsWith("Custom")) {
+    suggestions.push(size.width > size.height ? "landscape" : size.width < size.height ? "portrait" : "square");
+  } else if (size) {
+    suggestions.push(size.label.replace(/\s*\(.*\)$/, ""));
+  }
+
+  return normalizeTags(suggestions);
+};
@@ -0,0 +1,310 @@
+import { ClientSession, isValidObjectId } from "mongoose";
+import Stripe from "stripe";
+
+import { connect, withTransaction } from "@/lib/database/db";
+import ProcessedEvent from "@/lib/database/models/processedEvent.model";
+import Transaction from "@/lib/database/models/transaction.model";
+import User from "@/lib/database/models/user.model";
+import { clawbackCredits, grantCredits } from "@/lib/credits";
+import { publishPlanTier } from "@/lib/entitlements";
+import { getSubscriptionPlan, getTopUpCredits, syncSubscription } from "@/lib/subscriptions";
+import { getHigherPlanId } from "@/lib/plans";
+import { dispatchDueWebhookDeliveries, emitWebhookEvent } from "@/lib/webhooks";
+
+/**
+ * Stripe webhook processing.
+ *
+ * Each handled event is recorded in `ProcessedEvent` in the same database transaction
+ * as its side effects, so a retried delivery is either a no-op or a full replay.
+ */
+
+const stripeId = (value: string | { id: string } | null) =>
+  typeof value === "string" ? value : value?.id;
+
+/**
+ * Creates a new transaction in the database and grants the purchased credits to the buyer,
+ * both inside the given session. A `credits.purchased` webhook is sent once the session commits.
+ *
+ * A package also moves the buyer to its plan, unless their plan already has a higher tier, and is
+ * remembered as their `packagePlanId`. The tier is published to Clerk after the commit, see `processStripeEvent`.
+ *
+ * @param transaction - The details of the transaction, including the buyer ID and the number of credits to be added.
+ * @param session - The session of the surrounding database transaction.
+ * @returns The newly created transaction.
+ */
+export async function createTransaction(transaction: CreateTransactionParams, session: ClientSession) {
+  const [newTransaction] = await Transaction.create([{
+    ...transaction,
+    buyer: transaction.buyerId,
+  }], { session });
+
+  if (transaction.credits > 0) {
+    await grantCredits({
+      userId: transaction.buyerId,
+      amount: transaction.credits,
+      reason: "purchase",
+      transactionId: newTransaction._id,
+      session,
+    });
+
+    await emitWebhookEvent(transaction.buyerId, "credits.purchased", {
+      transactionId: newTransaction._id.toString(),
+      credits: transaction.credits,
+      amount: transaction.amount,
+      plan: transaction.plan,
+    }, session);
+  }
+
+  if (transaction.planId) {
+    const buyer = await User.findById(transaction.buyerId).session(session);
+
+    if (buyer) {
+      buyer.packagePlanId = getHigherPlanId(buyer.packagePlanId, transaction.planId);
+      buyer.planId = getHigherPlanId(buyer.packagePlanId, buyer.planId);
+      await buyer.save({ session });
+    }
+  }
+
+  return newTransaction;
+}; // End of createTransaction
+
+/**
+ * Reverses the credits of a transaction up to `creditsToReverse` in total and updates its status.
+ *
+ * Credits already clawed back by earlier events are not taken twice.
+ */
+async function reverseTransaction(
+  transaction: any,
+  creditsToReverse: number,
+  status: string,
+  session: ClientSession
+) {
+  const pending = Math.min(creditsToReverse, transaction.credits ?? 0) - transaction.creditsClawedBack;
+  let shortfall = 0;
+
+  if (pending > 0 && transaction.buyer) {
+    ({ shortfall } = await clawbackCredits({
+      userId: transaction.buyer.toString(),
+      amount: pending,
+      reason: status,
+      transactionId: transaction._id,
+      session,
+    }));
+  }
+
+  return Transaction.findByIdAndUpdate(
+    transaction._id,
+    {
+      status,
+      updatedAt: new Date(),
+      $inc: {
+        creditsClawedBack: Math.max(pending, 0),
+        creditShortfall: shortfall,
+      },
+    },
+    { new: true, session }
+  );
+}; // End of reverseTransaction
+
+const syncStripeSubscription = async (subscription: Stripe.Subscription, status: string, session: ClientSession) => {
+  const { metadata } = subscription;
+
+  if (!metadata?.planId || !metadata?.buyerId) {
+    throw new Error(`Subscription ${subscription.id} has no plan or buyer metadata`);
+  }
+
+  // The buyer was deleted and their subscriptions canceled, see `deleteUser`: nothing to sync
+  if (!(await User.exists({ _id: metadata.buyerId }).session(session))) return null;
+
+  return syncSubscription({
+    stripeSubscriptionId: subscription.id,
+    userId: metadata.buyerId,
+    planId: Number(metadata.planId),
+    status,
+    stripeCustomerId: stripeId(subscription.customer),
+    currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+    cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    session,
+  });
+}; // End of syncStripeSubscription
+
+// The buyer of the events that can change a plan, whose tier is published once the event has committed.
+const getPlanBuyerId = (event: Stripe.Event) => {
+  switch (event.type) {
+    case "checkout.session.completed":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+      return event.data.object.metadata?.buyerId;
+    case "invoice.paid":
+      return event.data.object.subscription_details?.metadata?.buyerId;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Copies the committed plan of a buyer to Clerk, see `publishPlanTier`.
+ */
+async function publishBuyerPlanTier(buyerId: string) {
+  if (!isValidObjectId(buyerId)) return;
+
+  const buyer = await User.findById(buyerId).select("clerkId planId");
+
+  if (buyer) await publishPlanTier(buyer.clerkId, buyer.planId);
+}; // End of publishBuyerPlanTier
+
+const handlers: Partial<Record<Stripe.Event.Type, (event: any, session: ClientSession) => Promise<unknown>>> = {
+  // A paid checkout: record the purchase and grant the credits.
+  "checkout.session.completed": async (event: Stripe.CheckoutSessionCompletedEvent, session) => {
+    const { id, amount_total, metadata, payment_intent, mode } = event.data.object;
+
+    // Subscription credits are granted per paid invoice, see `invoice.paid`.
+    if (mode === "subscription") return null;
+
+    return createTransaction({
+      stripeId: id,
+      paymentIntentId: stripeId(payment_intent),
+      amount: amount_total ? amount_total / 100 : 0,
+      plan: metadata?.plan || "",
+      credits: Number(metadata?.credits) || 0,
+      buyerId: metadata?.buyerId || "",
+      planId: Number(metadata?.planId) || undefined,
+      createdAt: new Date(),
+    }, session);
+  },
+
+  // An abandoned checkout: keep a record of it and take back anything that was granted.
+  "checkout.session.expired": async (event: Stripe.CheckoutSessionExpiredEvent, session) => {
+    const { id, amount_total, metadata } = event.data.object;
+    const existing = await Transaction.findOne({ stripeId: id }).session(session);
+
+    if (existing) return reverseTransaction(existing, existing.credits, "expired", session);
+
+    const [transaction] = await Transaction.create([{
+      stripeId: id,
+      amount: amount_total ? amount_total / 100 : 0,
+      plan: metadata?.plan || "",
+      credits: 0,
+      buyer: metadata?.buyerId || undefined,
+      status: "expired",
+    }], { session });
+
+    return transaction;
+  },
+
+  // Full or partial refund: claw back a proportional share of the credits.
+  "charge.refunded": async (event: Stripe.ChargeRefundedEvent, session) => {
+    const { payment_intent, amount, amount_refunded, refunded } = event.data.object;
+    const transaction = await Transaction.findOne({ paymentIntentId: stripeId(payment_intent) }).session(session);
+
+    if (!transaction) return null;
+
+    const credits = refunded
+      ? transaction.credits
+      : Math.floor((transaction.credits * amount_refunded) / amount);
+
+    return reverseTransaction(transaction, credits, refunded ? "refunded" : "partially_refunded", session);
+  },
+
+  // Disputed charge: claw back all credits while the dispute is open.
+  "charge.dispute.created": async (event: Stripe.ChargeDisputeCreatedEvent, session) => {
+    const { payment_intent } = event.data.object;
+    const transaction = await Transaction.findOne({ paymentIntentId: stripeId(payment_intent) }).session(session);
+
+    if (!transaction) return null;
+
+    return reverseTransaction(transaction, transaction.credits, "disputed", session);
+  },
+
+  // A paid subscription invoice: record it and top up the period's credits.
+  "invoice.paid": async (event: Stripe.InvoicePaidEvent, session) => {
+    const invoice = event.data.object;
+    const stripeSubscriptionId = stripeId(invoice.subscription);
+
+    if (!stripeSubscriptionId) return null;
+
+    const metadata = invoice.subscription_details?.metadata;
+    const plan = getSubscriptionPlan(Number(metadata?.planId));
+    const buyerId = metadata?.buyerId;
+
+    if (!plan || !buyerId) throw new Error(`Invoice ${invoice.id} has no plan or buyer metadata`);
+
+    const buyer = await User.findById(buyerId).session(session);
+
+    if (!buyer) throw new Error("User not found");
+
+    const periodEnd = invoice.lines.data[0]?.period.end;
+
+    await syncSubscription({
+      stripeSubscriptionId,
+      userId: buyerId,
+      planId: plan._id,
+      status: "active",
+      stripeCustomerId: stripeId(invoice.customer),
+      currentPeriodEnd: periodEnd ? new Date(periodEnd * 1000) : undefined,
+      session,
+    });
+
+    return createTransaction({
+      stripeId: invoice.id,
+      paymentIntentId: stripeId(invoice.payment_intent),
+      amount: invoice.amount_paid / 100,
+      plan: plan.name,
+      credits: getTopUpCredits(plan, buyer.creditBalance),
+      buyerId,
+      createdAt: new Date(),
+    }, session);
+  },
+
+  // Plan change, cancellation scheduling or status change.
+  "customer.subscription.updated": async (event: Stripe.CustomerSubscriptionUpdatedEvent, session) => {
+    const subscription = event.data.object;
+
+    return syncStripeSubscription(subscription, subscription.status, session);
+  },
+
+  // The subscription has ended: the user drops back to the free plan.
+  "customer.subscription.deleted": async (event: Stripe.CustomerSubscriptionDeletedEvent, session) => {
+    return syncStripeSubscription(event.data.object, "canceled", session);
+  },
+};
+
+/**
+ * Processes a verified Stripe event exactly once.
+ *
+ * @param event - The Stripe event, already verified with the webhook secret.
+ * @returns `handled: false` for event types we ignore, and `duplicate: true` when the event was already processed.
+ * @throws If processing fails, in which case nothing is written and Stripe should retry.
+ */
+export async function processStripeEvent(event: Stripe.Event) {
+  const handler = handlers[event.type];
+
+  if (!handler) return { handled: false, duplicate: false, result: null };
+
+  await connect();
+
+  const outcome = await withTransaction(undefined, async (session) => {
+    const processed = await ProcessedEvent.findOne({ eventId: event.id }).session(session);
+
+    if (processed) return { handled: true, duplicate: true, result: null };
+
+    await ProcessedEvent.create([{ eventId: event.id, type: event.type }], { session });
+
+    const result = await handler(event, session);
+
+    return { handled: true, duplicate: false, result: JSON.parse(JSON.stringify(result)) };
+  });
+
+  // Send the webhooks recorded by the event's transaction, and the buyer's plan tier, now that it has committed
+  if (!outcome.duplicate) {
+    await dispatchDueWebhookDeliveries().catch((error) => console.error("Failed to dispatch webhooks", error));
+
+    const buyerId = getPlanBuyerId(event);
+
+    if (buyerId) {
+      await publishBuyerPlanTier(buyerId).catch((error) => console.error("Failed to publish the plan tier", error));
+    }
+  }
+
+  return outcome;
+}; // End of processStripeEvent
@@ -0,0 +1,206 @@
+import {
+  blurStrengthOptions,
+  blurStyleOptions,
+  fillGravityOptions,
+  maxMaskPoints,
+  maxMaskShapes,
+  maxOverlayTextLength,
+  textOpacityOptions,
+  textSizeOptions,
+  transformationTypes,
+} from "@/constants";
+
+import { normalizeColor } from "./colors";
+import { deepMergeObjects, resolveFillSize } from "./utils";
+
+/**
+ * The fields and configs of the transformation types declared in `transformationTypes`.
+ *
+ * The forms build configs from their fields with these helpers, and the server checks the configs
+ * clients send with the same ones.
+ */
+
+// Whether a value fits a field of a transformation type, see the `fields` of `transformationTypes`.
+const isFieldValueValid = (field: TransformationField, value?: string) => {
+  if (!value?.trim()) return !field.required;
+
+  switch (field.kind) {
+    case "size":
+      return !!resolveFillSize(value);
+    case "color":
+      return !!normalizeColor(value);
+    case "select":
+      return !!field.options && value in field.options;
+    default:
+      return true;
+  }
+};
+
+// Whether the fields of a transformation type are filled in, e.g. before applying it.
+export const areFieldsComplete = (type: TransformationTypeKey, values: TransformationFieldValues) =>
+  transformationTypes[type].fields.every((field) => isFieldValueValid(field, values[field.name]));
+
+// TRANSFORMATION CONFIG - of a single transformation type, from the fields of the form
+export const getTransformationConfig = (
+  type: TransformationTypeKey,
+  values: TransformationFieldValues,
+  mask?: MaskShape[]
+): Transformations => {
+  const { config } = transformationTypes[type] as { config: Transformations };
+  const { prompt = "", color = "", gravity, strength, style, textSize, opacity } = values;
+  const withMask = mask ? { mask } : {};
+
+  switch (type) {
+    case "fill":
+      return gravity && gravity !== "center" && gravity in fillGravityOptions
+        ? { fillBackground: { gravity: gravity as FillGravity } }
+        : config;
+    case "remove":
+      return deepMergeObjects({ remove: { prompt, ...withMask } }, config);
+    case "recolor":
+      return deepMergeObjects({ recolor: { prompt, to: normalizeColor(color) ?? color, ...withMask } }, config);
+    case "blurFaces":
+      return deepMergeObjects({
+        faceBlur: {
+          ...(strength && strength in blurStrengthOptions && { strength: strength as BlurStrength }),
+          ...(style && style in blurStyleOptions && { style: style as "blur" | "pixelate" }),
+          ...withMask,
+        },
+      }, config);
+    case "textOverlay":
+      return deepMergeObjects({
+        textOverlay: {
+          text: prompt,
+          ...(normalizeColor(color) && { color: normalizeColor(color)! }),
+          ...(gravity && gravity in fillGravityOptions && { gravity: gravity as FillGravity }),
+          ...(textSize && textSize in textSizeOptions && { size: textSize as TextOverlaySize }),
+          ...(opacity && opacity in textOpacityOptions && { opacity: Number(opacity) }),
+        },
+      }, config);
+    default:
+      return config;
+  }
+}; // End of getTransformationConfig
+
+// The fields of a transformation type as set in a saved config, the reverse of `getTransformationConfig`.
+// Prompts, colors and aspect ratios are saved on the image itself.
+export const getTransformationFieldValues = (
+  type: TransformationTypeKey,
+  config?: Transformations | null
+): TransformationFieldValues => {
+  const { config: defaults } = transformationTypes[type] as { config: Transformations };
+  const { fillBackground, faceBlur, textOverlay } = deepMergeObjects(config ?? {}, defaults) as Transformations;
+
+  switch (type) {
+    case "fill":
+      return { gravity: (typeof fillBackground === "object" && fillBackground.gravity) || "center" };
+    case "blurFaces":
+      return { strength: faceBlur?.strength, style: faceBlur?.style };
+    case "textOverlay":
+      return {
+        prompt: textOverlay?.text || undefined,
+        color: textOverlay?.color && `#${textOverlay.color}`,
+        gravity: textOverlay?.gravity,
+        textSize: textOverlay?.size,
+        opacity: textOverlay?.opacity?.toString(),
+      };
+    default:
+      return {};
+  }
+}; // End of getTransformationFieldValues
+
+// Whether a transformation type can be restricted to a painted region, see `MaskPainter`.
+export const isMaskedType = (type: TransformationTypeKey) =>
+  (transformationTypes[type] as { masked?: boolean }).masked === true;
+
+// The mask painted for a transformation type, see `MaskPainter`.
+export const getTransformationMask = (type: TransformationTypeKey, config?: Transformations | null) => {
+  if (type === "remove" || type === "recolor") return config?.[type]?.mask ?? [];
+  if (type === "blurFaces") return config?.faceBlur?.mask ?? [];
+  return [];
+};
+
+// MASKS
+// Checks the regions painted over an image, rounding the points so the config stays short enough
+// to be encoded in image URLs.
+export const sanitizeMask = (mask: MaskShape[]): MaskShape[] => {
+  if (!Array.isArray(mask) || mask.length > maxMaskShapes) {
+    throw new Error(`A mask has at most ${maxMaskShapes} regions`);
+  }
+
+  const round = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 1000) / 1000;
+
+  const shapes = mask.map(({ tool, points, size }) => {
+    if ((tool !== "brush" && tool !== "lasso") || !Array.isArray(points) || points.length % 2 !== 0) {
+      throw new Error("Invalid mask region");
+    }
+    if (points.some((point) => typeof point !== "number" || !Number.isFinite(point))) {
+      throw new Error("Invalid mask region");
+    }
+    if (tool === "lasso" && points.length < 6) throw new Error("A lasso region has at least 3 points");
+
+    return tool === "brush"
+      ? { tool, points: points.map(round), size: round(Number(size) || 0.05) }
+      : { tool, points: points.map(round) };
+  }).filter((shape) => shape.points.length >= 2);
+
+  if (shapes.reduce((count, shape) => count + shape.points.length / 2, 0) > maxMaskPoints) {
+    throw new Error(`A mask has at most ${maxMaskPoints} points`);
+  }
+
+  return shapes;
+};
+
+// Checks a transformation config sent by the client against the `schema` of its type in `transformationTypes`,
+// dropping the fields the type does not have, then sanitizes it with `sanitizeConfig`.
+export const parseTransformationConfig = (type: string, config?: Transformations | null) => {
+  if (!config || !(type in transformationTypes)) return sanitizeConfig(config);
+
+  const parsed = transformationTypes[type as TransformationTypeKey].schema.safeParse(config);
+  if (!parsed.success) throw new Error(`Invalid ${type} config: ${parsed.error.issues[0]?.message}`);
+
+  return sanitizeConfig(parsed.data as Transformations);
+};
+
+// Checks a transformation config sent by the client: masks are sanitized, the recolor and text
+// colors normalized, see `normalizeColor`, and the options of blurs and text overlays checked.
+export const sanitizeConfig = (config?: Transformations | null) => {
+  if (!config) return config;
+
+  const sanitized = { ...config };
+
+  if (config.remove?.mask) sanitized.remove = { ...config.remove, mask: sanitizeMask(config.remove.mask) };
+
+  if (config.recolor) {
+    const to = normalizeColor(config.recolor.to);
+    if (!to) throw new Error(`Unknown color: ${config.recolor.to}`);
+
+    sanitized.recolor = { ...config.recolor, to };
+    if (config.recolor.mask) sanitized.recolor.mask = sanitizeMask(config.recolor.mask);
+  }
+
+  if (config.faceBlur) {
+    const { strength, style, mask } = config.faceBlur;
+    if (strength && !(strength in blurStrengthOptions)) throw new Error(`Unknown blur strength: ${strength}`);
+    if (style && !(style in blurStyleOptions)) throw new Error(`Unknown blur style: ${style}`);
+
+    sanitized.faceBlur = { strength, style, ...(mask && { mask: sanitizeMask(mask) }) };
+  }
+
+  if (config.textOverlay) {
+    const { text, color, gravity, size, opacity } = config.textOverlay;
+    const textColor = color ? normalizeColor(color) : undefined;
+
+    if (typeof text !== "string" || text.length > maxOverlayTextLength) {
+      throw new Error(`The text of an overlay has at most ${maxOverlayTextLength} characters`);
+    }
+    if (textColor === null) throw new Error(`Unknown color: ${color}`);
+    if (gravity && !(gravity in fillGravityOptions)) throw new Error(`Unknown position: ${gravity}`);
+    if (size && !(size in textSizeOptions)) throw new Error(`Unknown text size: ${size}`);
+    if (opacity !== undefined && !(String(opacity) in textOpacityOptions)) throw new Error(`Unknown opacity: ${opacity}`);
+
+    sanitized.textOverlay = { text, color: textColor, gravity, size, opacity };
+  }
+
+  return sanitized;
+};
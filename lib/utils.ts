@@ -4,7 +4,13 @@ import { type ClassValue, clsx } from "clsx";
 import qs from "qs";
 import { twMerge } from "tailwind-merge";
 
-import { aspectRatioOptions } from "@/constants";
+import {
+  aspectRatioOptions,
+  maxFillDimension,
+  minFillDimension,
+  socialSizePresets,
+  transformationTypes,
+} from "@/constants";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -93,23 +99,71 @@ export const debounce = (func: (...args: any[]) => void, delay: number) => {
   };
 };
 
-// GE IMAGE SIZE
+// FILL SIZE - of a Generative Fill: a preset of `aspectRatioOptions`, a custom ratio like "5:2"
+// (1000px wide like the presets) or an exact size like "1200x628". Returns null when invalid.
 export type AspectRatioKey = keyof typeof aspectRatioOptions;
+export const resolveFillSize = (value?: string) => {
+  if (!value) return null;
+  if (value in aspectRatioOptions) return aspectRatioOptions[value as AspectRatioKey];
+
+  const normalized = value.replace(/\s+/g, "").toLowerCase();
+  const ratio = normalized.match(/^(\d{1,2}):(\d{1,2})$/);
+  const size = normalized.match(/^(\d{2,4})x(\d{2,4})$/);
+
+  let width: number;
+  let height: number;
+  let label: string;
+
+  if (ratio && Number(ratio[1]) && Number(ratio[2])) {
+    width = 1000;
+    height = Math.round((1000 * Number(ratio[2])) / Number(ratio[1]));
+    label = `Custom (${normalized})`;
+  } else if (size) {
+    width = Number(size[1]);
+    height = Number(size[2]);
+    label = Object.values(socialSizePresets)
+      .find((preset) => preset.width === width && preset.height === height)?.label ?? `Custom (${normalized})`;
+  } else {
+    return null;
+  }
+
+  if ([width, height].some((dimension) => dimension < minFillDimension || dimension > maxFillDimension)) return null;
+
+  return { aspectRatio: normalized, label, width, height };
+};
+
+// Whether the output size of a transformation type is picked in its form, like Generative Fill's
+export const hasSizeField = (type: string) =>
+  !!transformationTypes[type as TransformationTypeKey]?.fields.some((field) => field.kind === "size");
+
+// GE IMAGE SIZE
 export const getImageSize = (
   type: string,
   image: any,
   dimension: "width" | "height"
 ): number => {
-  if (type === "fill") {
-    return (
-      aspectRatioOptions[image.aspectRatio as AspectRatioKey]?.[dimension] ||
-      1000
-    );
+  if (hasSizeField(type)) {
+    return resolveFillSize(image?.aspectRatio)?.[dimension] || image?.[dimension] || 1000;
   }
   return image?.[dimension] || 1000;
 };
 
-// DOWNLOAD IMAGE
+// SANITIZE FILENAME - keeps letters, digits, dots, dashes and underscores, e.g. "My photo (1)" becomes "My_photo_1"
+export const sanitizeFilename = (filename: string, fallback = "image") =>
+  filename
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9._-]+/g, "_")
+    .replace(/_+/g, "_")
+    .replace(/^[._]+|[._]+$/g, "")
+    .slice(0, 100) || fallback;
+
+// Whether an image had its background removed, so it can be exported with a transparent background
+export const hasTransparentBackground = (image: { transformationType?: string; steps?: { type: string }[] }) =>
+  image.transformationType === "removeBackground" ||
+  !!image.steps?.some((step) => step.type === "removeBackground");
+
+// DOWNLOAD IMAGE - the extension follows the type of the downloaded file
 export const download = (url: string, filename: string) => {
   if (!url) {
     throw new Error("Resource URL not provided! You need to provide one");
@@ -119,13 +173,15 @@ export const download = (url: string, filename: string) => {
     .then((response) => response.blob())
     .then((blob) => {
       const blobURL = URL.createObjectURL(blob);
+      const extension = blob.type.startsWith("image/") ? blob.type.slice("image/".length).replace("jpeg", "jpg").replace("+xml", "") : "png";
       const a = document.createElement("a");
       a.href = blobURL;
-
-      if (filename && filename.length)
-        a.download = `${filename.replace(" ", "_")}.png`;
+      a.download = `${sanitizeFilename(filename)}.${extension}`;
       document.body.appendChild(a);
       a.click();
+      a.remove();
+      // Revoked once the browser started the download
+      setTimeout(() => URL.revokeObjectURL(blobURL), 1000);
     })
     .catch((error) => console.log({ error }));
 };
@@ -140,9 +196,11 @@ export const deepMergeObjects = (obj1: any, obj2: any) => {
 
   for (let key in obj1) {
     if (obj1.hasOwnProperty(key)) {
+      // Arrays, e.g. masks, are replaced rather than merged
       if (
         obj1[key] &&
         typeof obj1[key] === "object" &&
+        !Array.isArray(obj1[key]) &&
         obj2[key] &&
         typeof obj2[key] === "object"
       ) {
@@ -154,4 +212,13 @@ export const deepMergeObjects = (obj1: any, obj2: any) => {
   }
 
   return output;
-};
\ No newline at end of file
+};
+
+// A size in bytes for people, e.g. "250 MB"
+export const formatBytes = (bytes: number) => {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  const exponent = Math.min(units.length - 1, Math.floor(Math.log(Math.max(bytes, 1)) / Math.log(1024)));
+  const value = bytes / 1024 ** exponent;
+
+  return `${Number.isInteger(value) ? value : value.toFixed(1)} ${units[exponent]}`;
+};
@@ -0,0 +1,40 @@
+import { ClientSession } from "mongoose";
+
+import ImageVersion from "@/lib/database/models/imageVersion.model";
+
+// Fields of an image that are snapshotted into an `ImageVersion`.
+export const VERSIONED_FIELDS = [
+  "title",
+  "publicId",
+  "secureURL",
+  "bytes",
+  "transformationType",
+  "transformationUrl",
+  "width",
+  "height",
+  "config",
+  "aspectRatio",
+  "color",
+  "prompt",
+  "steps",
+  "tags",
+] as const;
+
+/**
+ * Stores the current state of an image as its next version, before it is changed in the same session.
+ */
+export const snapshotImage = async (image: any, session: ClientSession) => {
+  const latest = await ImageVersion.findOne({ image: image._id })
+    .sort({ version: -1 })
+    .session(session);
+
+  const snapshot = Object.fromEntries(VERSIONED_FIELDS.map((field) => [field, image[field]]));
+
+  const [version] = await ImageVersion.create([{
+    ...snapshot,
+    image: image._id,
+    version: (latest?.version ?? 0) + 1,
+  }], { session });
+
+  return version;
+}; // End of snapshotImage
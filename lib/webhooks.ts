@@ -0,0 +1,263 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+import { ClientSession } from "mongoose";
+
+import { lowCreditsThreshold, webhookRetryPolicy } from "@/constants";
+import { connect } from "@/lib/database/db";
+import WebhookDelivery from "@/lib/database/models/webhookDelivery.model";
+import WebhookEndpoint from "@/lib/database/models/webhookEndpoint.model";
+
+/**
+ * Outgoing webhooks.
+ *
+ * Emitting an event records one `WebhookDelivery` per subscribed endpoint. Deliveries are
+ * POSTed as JSON, signed with the endpoint's secret:
+ *
+ *   Imagigenie-Signature: t=<unix timestamp>,v1=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *
+ * Failed deliveries are retried with exponential backoff by `dispatchDueWebhookDeliveries`.
+ */
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// How long a dispatcher owns a delivery it is sending, so concurrent runs don't send it twice
+const DELIVERY_LOCK_MS = 60 * 1000;
+
+// Addresses endpoints may not resolve to: loopback, private, link-local (cloud metadata services),
+// shared, reserved and multicast ranges, so deliveries cannot reach internal networks
+const BLOCKED_ADDRESSES = new BlockList();
+
+[
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, "ipv4"));
+
+[
+  ["::", 127], ["64:ff9b::", 96], ["100::", 64], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, "ipv6"));
+
+// IPv4 addresses mapped into IPv6, e.g. ::ffff:127.0.0.1 or ::ffff:7f00:1, as IPv4
+const toMappedIPv4 = (address: string) => {
+  const [, tail] = address.match(/^::ffff:([0-9a-f.:]+)$/i) ?? [];
+
+  if (!tail || isIP(tail) === 4) return tail;
+
+  const [high, low] = tail.split(":").map((group) => parseInt(group, 16));
+
+  return [high >> 8, high & 255, low >> 8, low & 255].join(".");
+};
+
+const isBlockedAddress = (address: string) => {
+  const mapped = toMappedIPv4(address);
+
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped, "ipv4");
+
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+};
+
+/**
+ * Checks that a webhook endpoint is an https:// URL whose host only resolves to public addresses.
+ *
+ * Called when an endpoint is registered and again before each delivery, as DNS records can change.
+ *
+ * @throws Error if the URL is invalid or its host is, or resolves to, a blocked address.
+ */
+export async function assertPublicWebhookUrl(url: string) {
+  if (!URL.canParse(url) || new URL(url).protocol !== "https:") {
+    throw new Error("A webhook endpoint needs an https:// URL");
+  }
+
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, "$1");
+  const addresses = isIP(hostname)
+    ? [hostname]
+    : await lookup(hostname, { all: true }).then((results) => results.map(({ address }) => address)).catch(() => []);
+
+  if (!addresses.length) throw new Error(`The host of the webhook endpoint cannot be resolved: ${hostname}`);
+
+  if (addresses.some(isBlockedAddress)) {
+    throw new Error("A webhook endpoint must not point to a private or local address");
+  }
+}; // End of assertPublicWebhookUrl
+
+export const generateWebhookSecret = () => `whsec_${randomBytes(24).toString("hex")}`;
+
+export const signWebhookPayload = (secret: string, timestamp: number, body: string) =>
+  createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+
+const getRetryDelay = (attempts: number) => webhookRetryPolicy.baseDelayMs * 2 ** (attempts - 1);
+
+/**
+ * Sends a delivery once and records the outcome.
+ *
+ * A non-2xx response or a network error schedules the next attempt, until
+ * `webhookRetryPolicy.maxAttempts` is reached and the delivery is marked as failed.
+ */
+export async function attemptWebhookDelivery(deliveryId: string) {
+  const delivery = await WebhookDelivery.findById(deliveryId);
+  const endpoint = delivery && await WebhookEndpoint.findById(delivery.endpoint);
+
+  if (!delivery || delivery.status !== "pending") return delivery;
+
+  if (!endpoint) {
+    delivery.status = "failed";
+    delivery.error = "Endpoint was deleted";
+    return delivery.save();
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  try {
+    await assertPublicWebhookUrl(endpoint.url);
+
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Imagigenie-Event": delivery.event,
+        "Imagigenie-Delivery": delivery._id.toString(),
+        "Imagigenie-Signature": `t=${timestamp},v1=${signWebhookPayload(endpoint.secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      redirect: "manual",
+    });
+
+    responseStatus = response.status;
+
+    if (!response.ok) error = `Endpoint responded with ${response.status}`;
+  } catch (fetchError) {
+    error = fetchError instanceof Error ? fetchError.message : "Delivery failed";
+  }
+
+  const attempts = delivery.attempts + 1;
+
+  return WebhookDelivery.findByIdAndUpdate(
+    delivery._id,
+    error
+      ? {
+        attempts,
+        responseStatus,
+        error,
+        ...(attempts >= webhookRetryPolicy.maxAttempts
+          ? { status: "failed", $unset: { nextAttemptAt: 1 } }
+          : { nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)) }),
+      }
+      : {
+        attempts,
+        responseStatus,
+        status: "succeeded",
+        deliveredAt: new Date(),
+        $unset: { error: 1, nextAttemptAt: 1 },
+      },
+    { new: true }
+  );
+}; // End of attemptWebhookDelivery
+
+/**
+ * Records an event for every endpoint of `userId` subscribed to it.
+ *
+ * Without a session the deliveries are sent in the background, so the change that emitted the event
+ * does not wait on the endpoints. Inside a transaction they are only recorded, so nothing is sent for
+ * a transaction that aborts. `dispatchDueWebhookDeliveries` sends the deliveries of committed
+ * transactions, and those whose background attempt was cut short once their lock expires.
+ *
+ * Emitting never throws: a webhook problem must not fail the change that triggered it.
+ */
+export async function emitWebhookEvent(
+  userId: string,
+  event: WebhookEventType,
+  data: Record<string, unknown>,
+  session?: ClientSession
+) {
+  try {
+    await connect();
+
+    const endpoints = await WebhookEndpoint.find({ user: userId, events: event }).session(session ?? null);
+
+    if (!endpoints.length) return;
+
+    const payload = { id: `evt_${randomUUID()}`, type: event, createdAt: new Date(), data };
+
+    // Deliveries sent in the background are locked so the dispatcher does not pick them up as well
+    const nextAttemptAt = new Date(Date.now() + (session ? 0 : DELIVERY_LOCK_MS));
+
+    const deliveries = await WebhookDelivery.create(
+      endpoints.map((endpoint) => ({ endpoint: endpoint._id, user: userId, event, payload, nextAttemptAt })),
+      { session, ordered: true }
+    );
+
+    if (!session) {
+      deliveries.forEach((delivery: any) => {
+        attemptWebhookDelivery(delivery._id).catch((error) => {
+          console.error("Failed to send webhook delivery", delivery._id.toString(), error);
+        });
+      });
+    }
+  } catch (error) {
+    console.error("Failed to emit webhook event", event, error);
+  }
+}; // End of emitWebhookEvent
+
+/**
+ * Sends the payload of an earlier delivery again, as a new delivery that is attempted right away.
+ */
+export async function redeliverWebhook(delivery: any) {
+  const resent = await WebhookDelivery.create({
+    endpoint: delivery.endpoint,
+    user: delivery.user,
+    event: delivery.event,
+    payload: delivery.payload,
+    resentFrom: delivery._id,
+    nextAttemptAt: new Date(Date.now() + DELIVERY_LOCK_MS),
+  });
+
+  return attemptWebhookDelivery(resent._id);
+}; // End of redeliverWebhook
+
+/**
+ * Emits `credits.low` when a debit of `amount` took the balance below `lowCreditsThreshold`.
+ */
+export async function emitCreditsLowIfCrossed(userId: string, balanceAfter: number, amount: number) {
+  if (balanceAfter >= lowCreditsThreshold || balanceAfter + amount < lowCreditsThreshold) return;
+
+  await emitWebhookEvent(userId, "credits.low", {
+    userId,
+    creditBalance: balanceAfter,
+    threshold: lowCreditsThreshold,
+  });
+}; // End of emitCreditsLowIfCrossed
+
+/**
+ * Sends the pending deliveries whose next attempt is due: new deliveries recorded inside a
+ * transaction and retries of failed attempts.
+ *
+ * @param limit - The maximum number of deliveries to send in this run.
+ * @returns The number of deliveries attempted.
+ */
+export async function dispatchDueWebhookDeliveries(limit = 50) {
+  await connect();
+
+  let attempted = 0;
+
+  while (attempted < limit) {
+    const now = new Date();
+
+    // Claim the delivery by pushing its next attempt past the lock
+    const delivery = await WebhookDelivery.findOneAndUpdate(
+      { status: "pending", nextAttemptAt: { $lte: now } },
+      { nextAttemptAt: new Date(now.getTime() + DELIVERY_LOCK_MS) },
+      { sort: { nextAttemptAt: 1 } }
+    );
+
+    if (!delivery) break;
+
+    await attemptWebhookDelivery(delivery._id);
+    attempted++;
+  }
+
+  return attempted;
+}; // End of dispatchDueWebhookDeliveries
@@ -1,4 +1,7 @@
 import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+
+import { planTiers, transformationTypes } from "@/constants";
 
 const isProtectedRoute = createRouteMatcher([
   '/client',
@@ -7,7 +10,19 @@ const isProtectedRoute = createRouteMatcher([
 const isPublicRoute = createRouteMatcher([
   '/',
   '/api/webhooks/clerk',
-  '/api/webhooks/stripe'
+  '/api/webhooks/stripe',
+  '/api/v1(.*)',
+  '/api/cron/webhooks',
+  '/api/cron/storage',
+  '/api/cron/jobs',
+  '/api/cron/batches',
+  '/api/local-images(.*)',
+  '/api/images/:id/export'
+]);
+// Pages of one transformation type, e.g. `/transformations/add/upscale`
+const isTransformationTypeRoute = createRouteMatcher([
+  '/transformations/add/:type',
+  '/transformations/batch/:type',
 ]);
 
 /**
@@ -18,6 +33,12 @@ const isPublicRoute = createRouteMatcher([
  * function to ensure that the user is authenticated before allowing access to the route.
  *
  * @param {import("@clerk/nextjs/server").Auth} auth - The authentication object provided by the Clerk library.
+ * Pages of transformation types the user's plan does not grant are redirected to `/credits`. The
+ * tier is read from the `planTier` public metadata, see `publishPlanTier`, which the session token
+ * carries as `metadata` once the Clerk session token is customized with
+ * `{ "metadata": "{{user.public_metadata}}" }`. Without it the pages and server actions still check
+ * the plan themselves.
+ *
  * @param {import("http").IncomingMessage} req - The incoming HTTP request object.
  * @returns {Promise<void>} - A Promise that resolves when the middleware has finished executing.
  */
@@ -26,6 +47,15 @@ export default clerkMiddleware((auth, req)=>{
     auth().protect();
   }
 
+  if (isTransformationTypeRoute(req)) {
+    const type = req.nextUrl.pathname.split('/')[3] as TransformationTypeKey;
+    const requiredTier = transformationTypes[type]?.plan;
+    const planTier = (auth().sessionClaims?.metadata as { planTier?: PlanTier } | undefined)?.planTier;
+
+    if (requiredTier && planTier && planTiers.indexOf(planTier) < planTiers.indexOf(requiredTier)) {
+      return NextResponse.redirect(new URL(`/credits?upgrade=${type}`, req.url));
+    }
+  }
 });
 
 export const config = {
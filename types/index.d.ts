@@ -17,83 +17,364 @@ declare type CreateUserParams = {
     photo: string;
   };
   
+  declare type ImageVisibility = "private" | "unlisted" | "public";
+
+  declare type ImageDeletionPolicy = "cascade" | "anonymize" | "transfer";
+
+  // ====== CREDIT PARAMS
+  // What a transformation is charged for, see `getTransformationCost`: its type and the size of the
+  // image it is applied to, or the steps of a pipeline.
+  declare type ChargedTransformation = {
+    type: TransformationTypeKey | "pipeline";
+    width: number;
+    height: number;
+    steps?: PipelineStep[];
+  };
+
+  declare type InsufficientCreditsError = {
+    code: "INSUFFICIENT_CREDITS";
+    required: number;
+    creditBalance: number;
+  };
+
+  // ====== TRANSFORMATION JOB PARAMS
+  declare type TransformationJobStatus = "queued" | "running" | "succeeded" | "failed";
+
+  // The size is not sent: the server prices the original, see `enqueueTransformationJob`
+  declare type CreateTransformationJobParams = Omit<ChargedTransformation, "width" | "height"> & {
+    imageId?: string;
+    publicId: string;
+    aspectRatio?: string;
+    config?: Transformations | null;
+  };
+
+  // What the client is told about a job, see `getTransformationJob`.
+  declare type TransformationJobView = {
+    _id: string;
+    status: TransformationJobStatus;
+    attempts: number;
+    error?: string;
+    transformationUrl?: string;
+    creditsCharged: number;
+    creditsRefunded: number;
+  };
+
+  declare type CreateTransformationJobResult =
+    | { job: TransformationJobView; error?: undefined }
+    | { job?: undefined; error: InsufficientCreditsError | PlanLimitError };
+
   // ====== IMAGE PARAMS
+  // An image as saved, see `toImageDocument`
+  declare type ImageDocumentData = {
+    title: string;
+    publicId: string;
+    transformationType: string;
+    width: number;
+    height: number;
+    config: any;
+    secureURL: string;
+    transformationURL: string;
+    aspectRatio: string | undefined;
+    prompt: string | undefined;
+    color: string | undefined;
+    steps?: PipelineStep[];
+    visibility?: ImageVisibility;
+    tags?: string[];
+  };
+
+  // The parts of an image copied from the job that rendered it, see `getJobTransformation`
+  declare type JobTransformation = Pick<
+    ImageDocumentData,
+    "transformationType" | "width" | "height" | "config" | "steps" | "transformationURL"
+  >;
+
   declare type AddImageParams = {
-    image: {
-      title: string;
-      publicId: string;
-      transformationType: string;
-      width: number;
-      height: number;
-      config: any;
-      secureURL: string;
-      transformationURL: string;
-      aspectRatio: string | undefined;
-      prompt: string | undefined;
-      color: string | undefined;
-    };
-    userId: string;
+    // The succeeded transformation job whose result is saved
+    jobId: string;
+    image: Omit<ImageDocumentData, keyof JobTransformation>;
     path: string;
   };
-  
+
   declare type UpdateImageParams = {
+    // The succeeded transformation job whose result replaces the image's, none to only rename or retag it
+    jobId?: string;
+    image: Omit<ImageDocumentData, keyof JobTransformation | "visibility"> & { _id: string };
+    path: string;
+  };
+
+  declare type SetImageVisibilityParams = {
+    imageId: string;
+    visibility: ImageVisibility;
+    path: string;
+  };
+
+  declare type ImageSearchSort = "relevance" | "newest" | "oldest";
+
+  // Filters of the community feed, as read from the URL query
+  declare type ImageSearchFilters = {
+    type?: string;
+    aspectRatio?: string;
+    from?: string;
+    to?: string;
+    tag?: string;
+    sort?: string;
+  };
+
+  declare type CreateShareLinkParams = {
+    imageId: string;
+    expiresInDays?: number;
+  };
+
+  declare type RevertImageVersionParams = {
+    imageId: string;
+    versionId: string;
+    path: string;
+  };
+
+  // A saved image, or an uploaded original not saved yet
+  declare type GetImagePaletteParams = {
+    imageId?: string;
+    publicId?: string;
+  };
+
+  // ====== ALBUM PARAMS
+  declare type CreateAlbumParams = {
+    name: string;
+    parentId?: string;
+    path: string;
+  };
+
+  declare type RenameAlbumParams = {
+    albumId: string;
+    name: string;
+    path: string;
+  };
+
+  declare type ReorderAlbumsParams = {
+    parentId?: string;
+    albumIds: string[];
+    path: string;
+  };
+
+  declare type MoveImagesToAlbumParams = {
+    imageIds: string[];
+    fromAlbumId?: string;
+    toAlbumId?: string;
+    path: string;
+  };
+
+  // ====== BULK ACTION PARAMS
+  // Outcome of a bulk action for one image
+  declare type BulkActionResult = {
+    id: string;
+    ok: boolean;
+    error?: string;
+  };
+
+  declare type BulkSetVisibilityParams = {
+    imageIds: string[];
+    visibility: ImageVisibility;
+    path: string;
+  };
+
+  // ====== BATCH PARAMS
+  declare type CreateBatchParams = {
+    type: TransformationTypeKey;
+    config: Transformations;
+    // The size each image is transformed to, in the order they are saved with `addBatchImage`
+    sizes: { width: number; height: number }[];
+  };
+
+  declare type CreateBatchResult =
+    | { batch: { _id: string; total: number; creditsCharged: number }; error?: undefined }
+    | { batch?: undefined; error: InsufficientCreditsError | PlanLimitError };
+
+  declare type CreateBatchTransformationJobParams = {
+    batchId: string;
+    index: number;
+    publicId: string;
+    aspectRatio?: string;
+  };
+
+  declare type AddBatchImageParams = {
+    batchId: string;
+    index: number;
+    // The succeeded job of `createBatchTransformationJob` that rendered the image
+    jobId: string;
+    // The transformation, its size and URL are copied from the job, see `addBatchImage`
     image: {
-      _id: string;
       title: string;
       publicId: string;
-      transformationType: string;
-      width: number;
-      height: number;
-      config: any;
       secureURL: string;
-      transformationURL: string;
       aspectRatio: string | undefined;
       prompt: string | undefined;
       color: string | undefined;
     };
-    userId: string;
-    path: string;
   };
-  
+
+  // ====== PIPELINE PARAMS
+  declare type PipelineStep = {
+    type: TransformationTypeKey;
+    aspectRatio?: string;
+    prompt?: string;
+    color?: string;
+  };
+
+  declare type CreatePipelinePresetParams = {
+    name: string;
+    steps: PipelineStep[];
+  };
+
+  // ====== WEBHOOK PARAMS
+  declare type WebhookEventType =
+    | "image.created"
+    | "image.updated"
+    | "image.deleted"
+    | "credits.purchased"
+    | "credits.low";
+
+  declare type CreateWebhookEndpointParams = {
+    url: string;
+    events: WebhookEventType[];
+  };
+
+  // A region painted over an image, see `MaskPainter`. `points` are flattened x, y pairs relative
+  // to the image size (0 to 1); `size` is the brush diameter relative to the image width.
+  declare type MaskShape = {
+    tool: "brush" | "lasso";
+    points: number[];
+    size?: number;
+  };
+
+  // Where the original sits in a Generative Fill, see `fillGravityOptions`.
+  declare type FillGravity =
+    | "center"
+    | "north"
+    | "south"
+    | "west"
+    | "east"
+    | "north_west"
+    | "north_east"
+    | "south_west"
+    | "south_east";
+
+  // Options of Face & PII Blur and Text Overlay, see `blurStrengthOptions` and `textSizeOptions`.
+  declare type BlurStrength = "light" | "medium" | "strong";
+
+  declare type TextOverlaySize = "small" | "medium" | "large";
+
   declare type Transformations = {
     restore?: boolean;
-    fillBackground?: boolean;
+    fillBackground?: boolean | { gravity?: FillGravity };
     remove?: {
       prompt: string;
       removeShadow?: boolean;
       multiple?: boolean;
+      mask?: MaskShape[];
     };
     recolor?: {
       prompt?: string;
       to: string;
       multiple?: boolean;
+      mask?: MaskShape[];
     };
     removeBackground?: boolean;
+    upscale?: boolean;
+    faceBlur?: {
+      strength?: BlurStrength;
+      style?: "blur" | "pixelate";
+      mask?: MaskShape[];
+    };
+    cropToSubject?: boolean;
+    textOverlay?: {
+      text: string;
+      color?: string;
+      gravity?: FillGravity;
+      size?: TextOverlaySize;
+      opacity?: number;
+    };
+    rawTransformations?: string[];
   };
   
   // ====== TRANSACTION PARAMS
+  // The buyer, price and credits are resolved on the server, see `checkoutCredits`
   declare type CheckoutTransactionParams = {
-    plan: string;
-    credits: number;
-    amount: number;
-    buyerId: string;
+    planId: number;
+    mode?: "payment" | "subscription";
   };
   
   declare type CreateTransactionParams = {
     stripeId: string;
+    paymentIntentId?: string;
     amount: number;
     credits: number;
     plan: string;
     buyerId: string;
     createdAt: Date;
+    // The package bought, which grants its tier, see `plans`
+    planId?: number;
   };
   
-  declare type TransformationTypeKey =
-    | "restore"
-    | "fill"
-    | "remove"
-    | "recolor"
-    | "removeBackground";
+  declare type PlanTier = "free" | "pro" | "premium";
+
+  // What a plan tier grants, see `planEntitlements`. The transformation types come from the `plan`
+  // of each type in `transformationTypes`.
+  declare type PlanEntitlements = {
+    // Largest width or height of a transformed image
+    maxResolution: number;
+    maxBatchSize: number;
+    // Storage quota: total size and number of the originals of the saved images
+    maxStorageBytes: number;
+    maxAssets: number;
+    apiAccess: boolean;
+  };
+
+  // Storage used by a user, see `refreshStorageUsage`.
+  declare type StorageUsage = {
+    bytes: number;
+    assets: number;
+  };
+
+  // A limit of the user's plan was hit, see `getTransformationLimit`. `requiredPlan` is the lowest
+  // tier lifting it, none when no plan does.
+  declare type PlanLimitError = {
+    code: "PLAN_LIMIT";
+    reason: "transformation" | "resolution" | "batchSize" | "storage" | "api";
+    message: string;
+    requiredPlan?: PlanTier;
+  };
+
+  // Price of a transformation type, see `getTransformationCost`.
+  declare type TransformationCost = {
+    credits: number;
+    perMegapixel?: number;
+  };
+
+  // The keys of `transformationTypes`
+  declare type TransformationTypeKey = keyof typeof import("@/constants")["transformationTypes"];
+
+  // A field of the form of a transformation type, see the `fields` of `transformationTypes`.
+  // `name` is the form value it edits; `select` fields pick one of their `options`.
+  declare type TransformationFieldName =
+    | "aspectRatio"
+    | "gravity"
+    | "prompt"
+    | "color"
+    | "strength"
+    | "style"
+    | "textSize"
+    | "opacity";
+
+  declare type TransformationField = {
+    name: TransformationFieldName;
+    label: string;
+    kind: "text" | "color" | "size" | "select";
+    options?: Record<string, { label: string }>;
+    placeholder?: string;
+    required?: boolean;
+  };
+
+  declare type TransformationFieldValues = Partial<Record<TransformationFieldName, string>>;
   
   // ====== URL QUERY PARAMS
   declare type FormUrlQueryParams = {
@@ -120,11 +401,11 @@ declare type CreateUserParams = {
   
   declare type TransformationFormProps = {
     action: "Add" | "Update";
-    userId: string;
     type: TransformationTypeKey;
     creditBalance: number;
     data?: IImage | null;
     config?: Transformations | null;
+    recentColors?: string[];
   };
   
   declare type TransformedImageProps = {